@@ -0,0 +1,55 @@
+import { GoogleGenAI } from '@google/genai';
+
+export interface TextRequest {
+  // Role and rules given to the model
+  instructions: string;
+  // The data to write about
+  prompt: string;
+}
+
+// Writes the text of reports. Gemini is used when GEMINI_API_KEY is set;
+// AI_PROVIDER=stub answers locally instead, without network access.
+export interface TextProvider {
+  name: string;
+  generate(request: TextRequest): Promise<string>;
+}
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export function geminiProvider(apiKey: string, model = process.env.GEMINI_MODEL || DEFAULT_MODEL): TextProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    async generate({ instructions, prompt }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { systemInstruction: instructions, temperature: 0.7 },
+      });
+      const text = response.text?.trim();
+      if (!text) throw new Error('Réponse vide du modèle');
+      return text;
+    },
+  };
+}
+
+// Same prompt, same text: the data is handed back as it would be sent to the model
+const stubProvider: TextProvider = {
+  name: 'stub',
+  generate: async ({ prompt }) => `Rapport généré localement, sans IA.\n\n${prompt}`,
+};
+
+function providerFromEnv(): TextProvider | null {
+  if (process.env.AI_PROVIDER === 'stub') return stubProvider;
+  const apiKey = process.env.GEMINI_API_KEY;
+  // The placeholder from .env.example is not a key
+  return apiKey && apiKey !== 'MY_GEMINI_API_KEY' ? geminiProvider(apiKey) : null;
+}
+
+let provider: TextProvider | null | undefined;
+
+// null when report generation is not configured
+export function getProvider() {
+  if (provider === undefined) provider = providerFromEnv();
+  return provider;
+}
@@ -0,0 +1,64 @@
+import express, { Router } from 'express';
+import { db } from './db';
+import { authenticate, authRouter, requirePermission, requireUser } from './auth';
+import { audit, auditRouter } from './audit';
+import { attendanceRouter } from './attendance';
+import { eventsRouter, publish } from './events';
+import { importRouter } from './backup';
+import { injuriesRouter } from './injuries';
+import { playersRouter } from './players';
+import { gamesRouter } from './games';
+import { seasonsRouter } from './seasons';
+import { teamsRouter } from './teams';
+import { messagesRouter } from './messages';
+import { notificationsRouter } from './notifications';
+import { reportsRouter } from './reports';
+import { calendarRouter, scheduleRouter } from './schedule';
+import { publicRouter, shareRouter } from './share';
+import { everythingSnapshot, toTrash, trashRouter } from './trash';
+import { usersRouter } from './users';
+
+export const apiRouter = Router();
+
+apiRouter.use(express.json({ limit: '10mb' }));
+apiRouter.use(authenticate);
+apiRouter.use('/auth', authRouter);
+apiRouter.use('/calendar', calendarRouter);
+apiRouter.use('/public', publicRouter);
+
+// Everything below needs a signed-in user; routes check the role themselves
+apiRouter.use(requireUser);
+apiRouter.use('/events', eventsRouter);
+apiRouter.use('/users', requirePermission('manage_users'), usersRouter);
+apiRouter.use('/players', playersRouter);
+apiRouter.use('/games', gamesRouter);
+apiRouter.use('/seasons', seasonsRouter);
+apiRouter.use('/teams', teamsRouter);
+apiRouter.use('/schedule', scheduleRouter);
+apiRouter.use('/attendance', attendanceRouter);
+apiRouter.use('/injuries', injuriesRouter);
+apiRouter.use('/messages', messagesRouter);
+apiRouter.use('/notifications', notificationsRouter);
+apiRouter.use('/reports', reportsRouter);
+apiRouter.use('/share', shareRouter);
+apiRouter.use('/trash', trashRouter);
+apiRouter.use('/audit', requirePermission('view_audit'), auditRouter);
+apiRouter.use('/import', importRouter);
+
+// Global reset: wipes the roster and every game. Messages, seasons and
+// categories are kept.
+apiRouter.post('/reset', requirePermission('reset_system'), (req, res) => {
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'system', 'Réinitialisation du système', everythingSnapshot());
+    audit(req, 'delete', 'system', 'Réinitialisation du système', null, null);
+    db.prepare('DELETE FROM games').run();
+    db.prepare('DELETE FROM players').run();
+    return id;
+  })();
+  publish(req, { type: 'reload' });
+  res.json({ trashId });
+});
+
+apiRouter.use((_req, res) => {
+  res.status(404).json({ error: 'Route inconnue' });
+});
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { db } from './db';
+import { requirePermission } from './auth';
+import { loadPlayer } from './players';
+import { loadScheduleEvent } from './schedule';
+import { parseAttendanceRecord } from '../src/attendance';
+import { can } from '../src/auth';
+import { playerName } from '../src/players';
+import type { AttendanceRecord } from '../src/types';
+
+export const attendanceRouter = Router();
+
+const ATTENDANCE_COLUMNS = 'event_id AS eventId, player_id AS playerId, status, reason, rpe, duration';
+
+// Players only get their own records, like their stats
+attendanceRouter.get('/', (req, res) => {
+  if (can(req.user, 'view_all_stats')) {
+    return res.json(db.prepare(`SELECT ${ATTENDANCE_COLUMNS} FROM attendance ORDER BY rowid`).all() as AttendanceRecord[]);
+  }
+  res.json(db.prepare(`SELECT ${ATTENDANCE_COLUMNS} FROM attendance WHERE player_id = ? ORDER BY rowid`)
+    .all(req.user!.playerId ?? '') as AttendanceRecord[]);
+});
+
+// Replaces the attendance sheet of a practice session
+attendanceRouter.put('/:eventId', requirePermission('manage_schedule'), (req, res) => {
+  const event = loadScheduleEvent(req.params.eventId);
+  if (!event) return res.status(404).json({ error: 'Rendez-vous introuvable' });
+  if (event.kind !== 'practice') return res.status(400).json({ error: "Les présences se notent sur les entraînements" });
+  if (!Array.isArray(req.body.records)) return res.status(400).json({ error: 'Feuille de présence invalide' });
+
+  const records: AttendanceRecord[] = [];
+  for (const raw of req.body.records) {
+    const record = parseAttendanceRecord(raw, event.id);
+    if (typeof record === 'string') return res.status(400).json({ error: record });
+    const player = loadPlayer(record.playerId);
+    if (!player) return res.status(400).json({ error: `Joueur inconnu : ${record.playerId}` });
+    if (records.some(r => r.playerId === record.playerId)) return res.status(400).json({ error: `Présence en double pour ${playerName(player)}` });
+    records.push(record);
+  }
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM attendance WHERE event_id = ?').run(event.id);
+    const insert = db.prepare(`INSERT INTO attendance (event_id, player_id, status, reason, rpe, duration)
+      VALUES (@eventId, @playerId, @status, @reason, @rpe, @duration)`);
+    records.forEach(r => insert.run(r));
+  })();
+  res.json(records);
+});
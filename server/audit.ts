@@ -0,0 +1,60 @@
+import { Router, type Request } from 'express';
+import { db } from './db';
+import type { AuditAction, AuditEntry, Game, Player } from '../src/types';
+
+export const auditRouter = Router();
+
+// Entries sent to the history screen at once
+const AUDIT_PAGE = 200;
+
+interface AuditRow {
+  id: number;
+  at: string;
+  user_name: string;
+  action: AuditAction;
+  entity: AuditEntry['entity'];
+  entity_id: string | null;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+const toAuditEntry = (row: AuditRow): AuditEntry => ({
+  id: row.id,
+  at: row.at,
+  userName: row.user_name,
+  action: row.action,
+  entity: row.entity,
+  entityId: row.entity_id,
+  label: row.label,
+  before: row.before ? JSON.parse(row.before) : null,
+  after: row.after ? JSON.parse(row.after) : null,
+});
+
+// Profile pictures are data URLs of several kilobytes: the log only keeps
+// their size, enough to tell that the picture changed
+function stored(value: Player | Game | null) {
+  if (!value) return null;
+  if ('photo' in value && value.photo) return JSON.stringify({ ...value, photo: `image (${Math.round(value.photo.length / 1024)} Ko)` });
+  return JSON.stringify(value);
+}
+
+// Records who made a change and the values before and after it. The name is
+// copied so that the entry outlives the account.
+export function audit(req: Request, action: AuditAction, entity: AuditEntry['entity'], label: string,
+  before: Player | Game | null, after: Player | Game | null) {
+  const user = req.user!;
+  db.prepare(`INSERT INTO audit_log (at, user_id, user_name, action, entity, entity_id, label, before, after)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+    new Date().toISOString(), user.id, user.displayName, action, entity, (after ?? before)?.id ?? null, label, stored(before), stored(after),
+  );
+}
+
+// Most recent first; `entityId` narrows it to one player or game
+auditRouter.get('/', (req, res) => {
+  const entityId = typeof req.query.entityId === 'string' ? req.query.entityId : null;
+  const rows = (entityId
+    ? db.prepare('SELECT * FROM audit_log WHERE entity_id = ? ORDER BY id DESC LIMIT ?').all(entityId, AUDIT_PAGE)
+    : db.prepare('SELECT * FROM audit_log ORDER BY id DESC LIMIT ?').all(AUDIT_PAGE)) as AuditRow[];
+  res.json(rows.map(toAuditEntry));
+});
@@ -0,0 +1,135 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { db, newId } from './db';
+import { can, type Permission } from '../src/auth';
+import type { Role, Session, User } from '../src/types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+const SESSION_DAYS = 30;
+
+export interface UserRow {
+  id: string;
+  username: string;
+  display_name: string;
+  password_hash: string;
+  role: Role;
+  player_id: string | null;
+}
+
+export function toUser(row: UserRow): User {
+  return { id: row.id, username: row.username, displayName: row.display_name, role: row.role, playerId: row.player_id };
+}
+
+// Stored as `salt:hash`, both hex
+export function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, 64);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Returns an error message, or null when the password is acceptable
+export function validatePassword(password: unknown) {
+  return typeof password === 'string' && password.length >= 8 ? null : 'Le mot de passe doit contenir au moins 8 caractères';
+}
+
+function openSession(user: User): Session {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 3600 * 1000).toISOString();
+  db.prepare('INSERT INTO sessions (token, user_id, expires_at) VALUES (?, ?, ?)').run(token, user.id, expiresAt);
+  return { token, user };
+}
+
+export function bearerToken(req: Request) {
+  const header = req.get('Authorization') ?? '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+// The account of a session still open, as it is now
+export function sessionUser(token: string): User | null {
+  const row = db.prepare(`SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token = ? AND sessions.expires_at > ?`).get(token, new Date().toISOString()) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+// Attaches the signed-in user, if any, to the request
+export function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+  const user = token && sessionUser(token);
+  if (user) req.user = user;
+  next();
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ error: 'Connexion requise' });
+  next();
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ error: 'Connexion requise' });
+    if (!can(req.user, permission)) return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+    next();
+  };
+}
+
+export const authRouter = Router();
+
+const hasUsers = () => !!db.prepare('SELECT 1 FROM users LIMIT 1').get();
+
+// Tells the login screen whether the first administrator still has to be created
+authRouter.get('/status', (_req, res) => {
+  res.json({ needsSetup: !hasUsers() });
+});
+
+// Creates the first administrator. Only allowed while there is no account.
+authRouter.post('/setup', (req, res) => {
+  const username = String(req.body.username ?? '').trim();
+  const displayName = String(req.body.displayName ?? '').trim() || username;
+  if (!username) return res.status(400).json({ error: "Nom d'utilisateur requis" });
+  const passwordError = validatePassword(req.body.password);
+  if (passwordError) return res.status(400).json({ error: passwordError });
+
+  const user: User = { id: newId(), username, displayName, role: 'admin', playerId: null };
+  const created = db.transaction(() => {
+    if (hasUsers()) return false;
+    db.prepare(`INSERT INTO users (id, username, display_name, password_hash, role, created_at)
+      VALUES (?, ?, ?, ?, 'admin', ?)`).run(user.id, username, displayName, hashPassword(req.body.password), new Date().toISOString());
+    return true;
+  })();
+  if (!created) return res.status(409).json({ error: 'Un administrateur existe déjà' });
+  res.status(201).json(openSession(user));
+});
+
+authRouter.post('/login', (req, res) => {
+  const username = String(req.body.username ?? '').trim();
+  const password = String(req.body.password ?? '');
+  const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+  if (!row || !verifyPassword(password, row.password_hash)) {
+    return res.status(401).json({ error: 'Identifiants incorrects' });
+  }
+  db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(new Date().toISOString());
+  res.json(openSession(toUser(row)));
+});
+
+authRouter.post('/logout', (req, res) => {
+  const token = bearerToken(req);
+  if (token) db.prepare('DELETE FROM sessions WHERE token = ?').run(token);
+  res.status(204).end();
+});
+
+authRouter.get('/me', requireUser, (req, res) => {
+  res.json(req.user);
+});
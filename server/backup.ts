@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { db } from './db';
+import { requirePermission } from './auth';
+import { audit } from './audit';
+import { publish } from './events';
+import { can } from '../src/auth';
+import { loadGames, saveGame } from './games';
+import { insertPlayer, loadPlayers } from './players';
+import { findSeasonByName, insertSeason, loadSeason } from './seasons';
+import { findTeamByName, insertTeam, loadTeam } from './teams';
+import { replacedSnapshot, toTrash, wipeForReplace } from './trash';
+import { validateBackup } from '../src/backup';
+import { gameLabel } from '../src/games';
+import { parsePlayerInput, playerName } from '../src/players';
+import { parseSeasonInput } from '../src/seasons';
+import type { Backup, ImportMode, PlayerInput, SeasonInput } from '../src/types';
+
+export const importRouter = Router();
+
+// Restores a backup produced by the export buttons. `merge` keeps existing
+// data and skips duplicate game ids; `replace` sends players, games, seasons
+// and categories to the trash first (and messages, when the backup carries
+// them), so that the import can be undone.
+// Seasons and categories are matched by id, then by name.
+importRouter.post('/', requirePermission('import_data'), (req, res) => {
+  const mode: ImportMode = req.body.mode;
+  const backup: Backup = req.body.backup;
+  if (mode !== 'merge' && mode !== 'replace') return res.status(400).json({ error: "Mode d'import invalide" });
+  // Replacing wipes everything, like a global reset
+  if (mode === 'replace' && !can(req.user, 'reset_system')) {
+    return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+  }
+  if (backup?.format !== 'ibaa-backup' || backup.version !== 3 || !Array.isArray(backup.players) || !Array.isArray(backup.games)) {
+    return res.status(400).json({ error: 'Sauvegarde invalide' });
+  }
+  const errors = validateBackup(backup);
+  if (errors.length > 0) return res.status(400).json({ error: errors[0], errors });
+
+  const summary: { players: number, games: number, skippedGames: number, messages: number, trashId?: string } =
+    { players: 0, games: 0, skippedGames: 0, messages: 0 };
+  db.transaction(() => {
+    // What is replaced stays in the trash, and in the history item by item
+    if (mode === 'replace') {
+      summary.trashId = toTrash(req, 'system', 'Import de sauvegarde (remplacement)', replacedSnapshot(!!backup.messages));
+      loadPlayers().forEach(p => audit(req, 'delete', 'player', playerName(p), p, null));
+      loadGames().forEach(g => audit(req, 'delete', 'game', gameLabel(g), g, null));
+      wipeForReplace(!!backup.messages);
+    }
+
+    // Existing profiles (same id) are kept as they are
+    backup.players.forEach(p => {
+      summary.players += insertPlayer(p.id, parsePlayerInput(p) as PlayerInput, true).changes;
+    });
+
+    const teamIds = new Map<string, string>();
+    backup.teams.forEach(t => {
+      const known = loadTeam(t.id) ?? findTeamByName(t.name.trim());
+      if (!known) insertTeam(t.id, t.name.trim());
+      teamIds.set(t.id, known?.id ?? t.id);
+    });
+
+    const seasonIds = new Map<string, string>();
+    const addToRoster = db.prepare('INSERT OR IGNORE INTO season_players (season_id, player_id, team_id) VALUES (?, ?, ?)');
+    backup.seasons.forEach(s => {
+      const known = loadSeason(s.id) ?? findSeasonByName(s.name.trim());
+      if (!known) insertSeason(s.id, parseSeasonInput(s) as SeasonInput);
+      const seasonId = known?.id ?? s.id;
+      seasonIds.set(s.id, seasonId);
+      // Players already registered for the season keep their team
+      s.roster.forEach(e => addToRoster.run(seasonId, e.playerId, teamIds.get(e.teamId)));
+    });
+
+    const gameExists = db.prepare('SELECT 1 FROM games WHERE id = ?');
+    backup.games.forEach(({ id, ...game }) => {
+      if (gameExists.get(id)) {
+        summary.skippedGames++;
+        return;
+      }
+      saveGame(id, {
+        ...game,
+        seasonId: seasonIds.get(game.seasonId)!,
+        teamId: teamIds.get(game.teamId)!,
+        opponent: game.opponent ?? '',
+        competition: game.competition ?? ''
+      }, true);
+      summary.games++;
+    });
+
+    // Threads first, so that replies find the message they answer
+    const insertMessage = db.prepare(`INSERT OR IGNORE INTO messages (id, author, content, timestamp, parent_id, pinned, image)
+      VALUES (@id, @author, @content, @timestamp, @parentId, @pinned, @image)`);
+    const messageExists = db.prepare('SELECT 1 FROM messages WHERE id = ?');
+    [...(backup.messages ?? [])].sort((a, b) => Number(!!a.parentId) - Number(!!b.parentId)).forEach(m => {
+      summary.messages += insertMessage.run({
+        id: m.id,
+        author: m.author,
+        content: m.content,
+        timestamp: m.timestamp,
+        parentId: m.parentId && messageExists.get(m.parentId) ? m.parentId : null,
+        pinned: m.pinned ? 1 : 0,
+        image: m.image ?? null,
+      }).changes;
+    });
+    audit(req, 'update', 'system', `Import de sauvegarde (${mode === 'replace' ? 'remplacement' : 'fusion'})`, null, null);
+  })();
+
+  publish(req, { type: 'reload' });
+  res.json(summary);
+});
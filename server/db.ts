@@ -0,0 +1,492 @@
+import Database from 'better-sqlite3';
+import { DEFAULT_ROSTER, WELCOME_MESSAGE } from '../src/constants';
+import { fromLegacyName } from '../src/players';
+import { DEFAULT_TEAM, seasonOf } from '../src/seasons';
+
+export const db = new Database(process.env.DATABASE_PATH || 'ibaa.db');
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+
+export function newId() {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+// Id chosen by the client (offline creation), or a fresh one
+export function clientId(value: unknown) {
+  return typeof value === 'string' && /^[\w-]{1,40}$/.test(value) ? value : newId();
+}
+
+// Each entry upgrades the schema by one version (tracked in PRAGMA user_version).
+// Never edit a migration once shipped: append a new one instead.
+const migrations: ((db: Database.Database) => void)[] = [
+  (db) => {
+    db.exec(`
+      CREATE TABLE players (
+        name TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE matches (
+        id TEXT PRIMARY KEY,
+        player_name TEXT NOT NULL REFERENCES players(name) ON DELETE CASCADE,
+        date TEXT NOT NULL,
+        points INTEGER NOT NULL DEFAULT 0,
+        rebounds INTEGER NOT NULL DEFAULT 0,
+        assists INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX idx_matches_player ON matches(player_name, date);
+      CREATE TABLE messages (
+        id TEXT PRIMARY KEY,
+        author TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+    `);
+
+    const now = new Date().toISOString();
+    const insertPlayer = db.prepare('INSERT INTO players (name, created_at) VALUES (?, ?)');
+    DEFAULT_ROSTER.forEach(name => insertPlayer.run(name, now));
+    db.prepare('INSERT INTO messages (id, author, content, timestamp) VALUES (?, ?, ?, ?)')
+      .run('1', 'ADMIN', WELCOME_MESSAGE, now);
+  },
+  (db) => {
+    db.exec(`
+      CREATE TABLE games (
+        id TEXT PRIMARY KEY,
+        date TEXT NOT NULL,
+        opponent TEXT NOT NULL DEFAULT '',
+        venue TEXT NOT NULL DEFAULT 'home' CHECK (venue IN ('home', 'away')),
+        competition TEXT NOT NULL DEFAULT '',
+        team_score INTEGER,
+        opponent_score INTEGER,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_games_date ON games(date);
+      CREATE TABLE stat_lines (
+        game_id TEXT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+        player_name TEXT NOT NULL REFERENCES players(name) ON DELETE CASCADE ON UPDATE CASCADE,
+        points INTEGER NOT NULL DEFAULT 0,
+        rebounds INTEGER NOT NULL DEFAULT 0,
+        assists INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (game_id, player_name)
+      );
+      CREATE INDEX idx_stat_lines_player ON stat_lines(player_name);
+    `);
+
+    // Per-player matches played on the same date become one game. A player
+    // with two matches on one date gets a second game for that date, so no
+    // line is lost.
+    const rows = db.prepare('SELECT * FROM matches ORDER BY date, rowid').all() as {
+      id: string; player_name: string; date: string; points: number; rebounds: number; assists: number;
+    }[];
+    const gamesByDate = new Map<string, { id: string, players: Set<string> }[]>();
+    const insertGame = db.prepare('INSERT INTO games (id, date, created_at) VALUES (?, ?, ?)');
+    const insertLine = db.prepare('INSERT INTO stat_lines (game_id, player_name, points, rebounds, assists) VALUES (?, ?, ?, ?, ?)');
+    const now = new Date().toISOString();
+
+    rows.forEach(row => {
+      const sameDay = gamesByDate.get(row.date) ?? [];
+      let game = sameDay.find(g => !g.players.has(row.player_name));
+      if (!game) {
+        game = { id: newId(), players: new Set() };
+        insertGame.run(game.id, row.date, now);
+        sameDay.push(game);
+        gamesByDate.set(row.date, sameDay);
+      }
+      game.players.add(row.player_name);
+      insertLine.run(game.id, row.player_name, row.points, row.rebounds, row.assists);
+    });
+
+    db.exec('DROP TABLE matches');
+  },
+  (db) => {
+    ['minutes', 'fgm', 'fga', 'tpm', 'tpa', 'ftm', 'fta', 'oreb', 'dreb', 'steals', 'blocks', 'turnovers', 'fouls']
+      .forEach(column => db.exec(`ALTER TABLE stat_lines ADD COLUMN ${column} INTEGER NOT NULL DEFAULT 0`));
+  },
+  (db) => {
+    db.exec(`
+      CREATE TABLE game_events (
+        game_id TEXT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        period INTEGER NOT NULL,
+        clock INTEGER NOT NULL,
+        player_name TEXT,
+        sub_in TEXT,
+        value INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (game_id, seq)
+      );
+    `);
+  },
+  (db) => {
+    // Bumped on every change to a game or its lines, for offline conflict detection
+    db.exec('ALTER TABLE games ADD COLUMN version INTEGER NOT NULL DEFAULT 1');
+  },
+  (db) => {
+    db.exec(`
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        display_name TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('admin', 'coach', 'player', 'viewer')),
+        player_name TEXT REFERENCES players(name) ON DELETE SET NULL ON UPDATE CASCADE,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE sessions (
+        token TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        expires_at TEXT NOT NULL
+      );
+      ALTER TABLE messages ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+    `);
+  },
+  (db) => {
+    // Players get a stable id and a profile. SQLite cannot change a foreign
+    // key in place, so every table pointing at players(name) is rebuilt.
+    db.exec(`
+      CREATE TABLE players_v7 (
+        id TEXT PRIMARY KEY,
+        first_name TEXT NOT NULL DEFAULT '',
+        last_name TEXT NOT NULL DEFAULT '',
+        jersey_number INTEGER,
+        position TEXT,
+        birth_date TEXT,
+        height INTEGER,
+        photo TEXT,
+        hand TEXT,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'injured', 'left')),
+        created_at TEXT NOT NULL
+      );
+      CREATE TEMP TABLE player_ids (name TEXT PRIMARY KEY, id TEXT NOT NULL);
+    `);
+
+    const insertPlayer = db.prepare('INSERT INTO players_v7 (id, first_name, last_name, created_at) VALUES (?, ?, ?, ?)');
+    const insertId = db.prepare('INSERT INTO player_ids (name, id) VALUES (?, ?)');
+    (db.prepare('SELECT name, created_at FROM players').all() as { name: string, created_at: string }[]).forEach(row => {
+      const id = newId();
+      const profile = fromLegacyName(row.name);
+      insertPlayer.run(id, profile.firstName, profile.lastName, row.created_at);
+      insertId.run(row.name, id);
+    });
+
+    db.exec(`
+      CREATE TABLE stat_lines_v7 (
+        game_id TEXT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+        player_id TEXT NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+        minutes INTEGER NOT NULL DEFAULT 0,
+        points INTEGER NOT NULL DEFAULT 0,
+        fgm INTEGER NOT NULL DEFAULT 0,
+        fga INTEGER NOT NULL DEFAULT 0,
+        tpm INTEGER NOT NULL DEFAULT 0,
+        tpa INTEGER NOT NULL DEFAULT 0,
+        ftm INTEGER NOT NULL DEFAULT 0,
+        fta INTEGER NOT NULL DEFAULT 0,
+        oreb INTEGER NOT NULL DEFAULT 0,
+        dreb INTEGER NOT NULL DEFAULT 0,
+        rebounds INTEGER NOT NULL DEFAULT 0,
+        assists INTEGER NOT NULL DEFAULT 0,
+        steals INTEGER NOT NULL DEFAULT 0,
+        blocks INTEGER NOT NULL DEFAULT 0,
+        turnovers INTEGER NOT NULL DEFAULT 0,
+        fouls INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (game_id, player_id)
+      );
+      INSERT INTO stat_lines_v7
+        SELECT l.game_id, p.id, l.minutes, l.points, l.fgm, l.fga, l.tpm, l.tpa, l.ftm, l.fta,
+          l.oreb, l.dreb, l.rebounds, l.assists, l.steals, l.blocks, l.turnovers, l.fouls
+        FROM stat_lines l JOIN player_ids p ON p.name = l.player_name;
+
+      CREATE TABLE game_events_v7 (
+        game_id TEXT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        period INTEGER NOT NULL,
+        clock INTEGER NOT NULL,
+        player_id TEXT,
+        sub_in TEXT,
+        value INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (game_id, seq)
+      );
+      INSERT INTO game_events_v7
+        SELECT e.game_id, e.seq, e.type, e.period, e.clock, p.id, s.id, e.value
+        FROM game_events e
+        LEFT JOIN player_ids p ON p.name = e.player_name
+        LEFT JOIN player_ids s ON s.name = e.sub_in;
+
+      CREATE TABLE users_v7 (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        display_name TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('admin', 'coach', 'player', 'viewer')),
+        player_id TEXT REFERENCES players(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL
+      );
+      INSERT INTO users_v7
+        SELECT u.id, u.username, u.display_name, u.password_hash, u.role, p.id, u.created_at
+        FROM users u LEFT JOIN player_ids p ON p.name = u.player_name;
+
+      DROP TABLE stat_lines;
+      DROP TABLE game_events;
+      DROP TABLE users;
+      DROP TABLE players;
+      DROP TABLE player_ids;
+      ALTER TABLE players_v7 RENAME TO players;
+      ALTER TABLE stat_lines_v7 RENAME TO stat_lines;
+      ALTER TABLE game_events_v7 RENAME TO game_events;
+      ALTER TABLE users_v7 RENAME TO users;
+      CREATE INDEX idx_stat_lines_player ON stat_lines(player_id);
+    `);
+  },
+  (db) => {
+    // Games and rosters belong to a season and a team (category). Existing
+    // data goes to the default team, in the season of each game's date.
+    db.exec(`
+      CREATE TABLE teams (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE seasons (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        start_date TEXT NOT NULL,
+        end_date TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE season_players (
+        season_id TEXT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+        player_id TEXT NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+        team_id TEXT NOT NULL REFERENCES teams(id),
+        PRIMARY KEY (season_id, player_id)
+      );
+      ALTER TABLE games ADD COLUMN season_id TEXT REFERENCES seasons(id);
+      ALTER TABLE games ADD COLUMN team_id TEXT REFERENCES teams(id);
+    `);
+
+    const now = new Date().toISOString();
+    const teamId = newId();
+    db.prepare('INSERT INTO teams (id, name, created_at) VALUES (?, ?, ?)').run(teamId, DEFAULT_TEAM, now);
+
+    const seasonIds = new Map<string, string>();
+    const seasonFor = (date: string) => {
+      const season = seasonOf(date);
+      if (!seasonIds.has(season.name)) {
+        const id = newId();
+        db.prepare('INSERT INTO seasons (id, name, start_date, end_date, created_at) VALUES (?, ?, ?, ?, ?)')
+          .run(id, season.name, season.startDate, season.endDate, now);
+        seasonIds.set(season.name, id);
+      }
+      return seasonIds.get(season.name)!;
+    };
+
+    const placeGame = db.prepare('UPDATE games SET season_id = ?, team_id = ? WHERE id = ?');
+    (db.prepare('SELECT id, date FROM games').all() as { id: string, date: string }[])
+      .forEach(game => placeGame.run(seasonFor(game.date.slice(0, 10)), teamId, game.id));
+
+    // The whole roster plays this season; past seasons list whoever played in them
+    const current = seasonFor(now.slice(0, 10));
+    db.prepare('INSERT INTO season_players (season_id, player_id, team_id) SELECT ?, id, ? FROM players').run(current, teamId);
+    db.prepare(`INSERT OR IGNORE INTO season_players (season_id, player_id, team_id)
+      SELECT DISTINCT g.season_id, l.player_id, g.team_id FROM stat_lines l JOIN games g ON g.id = l.game_id`).run();
+  },
+  (db) => {
+    // Planned games, practices and club events (team_id null), plus a secret
+    // per account for subscribing to the calendar feed
+    db.exec(`
+      CREATE TABLE schedule_events (
+        id TEXT PRIMARY KEY,
+        team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK (kind IN ('game', 'practice', 'event')),
+        title TEXT NOT NULL DEFAULT '',
+        date TEXT NOT NULL,
+        time TEXT,
+        duration INTEGER,
+        location TEXT NOT NULL DEFAULT '',
+        opponent TEXT NOT NULL DEFAULT '',
+        venue TEXT CHECK (venue IN ('home', 'away')),
+        competition TEXT NOT NULL DEFAULT '',
+        notes TEXT NOT NULL DEFAULT '',
+        game_id TEXT REFERENCES games(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL
+      );
+      ALTER TABLE users ADD COLUMN calendar_token TEXT;
+      CREATE UNIQUE INDEX users_calendar_token ON users (calendar_token);
+    `);
+  },
+  (db) => {
+    db.exec(`
+      CREATE TABLE attendance (
+        event_id TEXT NOT NULL REFERENCES schedule_events(id) ON DELETE CASCADE,
+        player_id TEXT NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+        status TEXT NOT NULL CHECK (status IN ('present', 'late', 'absent', 'excused')),
+        reason TEXT NOT NULL DEFAULT '',
+        rpe INTEGER CHECK (rpe BETWEEN 1 AND 10),
+        duration INTEGER,
+        PRIMARY KEY (event_id, player_id)
+      );
+    `);
+  },
+  (db) => {
+    // Injury history, and the reason a player on the game sheet did not play
+    db.exec(`
+      CREATE TABLE injuries (
+        id TEXT PRIMARY KEY,
+        player_id TEXT NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+        date TEXT NOT NULL,
+        body_part TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        expected_return TEXT,
+        cleared_date TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_injuries_player ON injuries(player_id, date);
+      ALTER TABLE stat_lines ADD COLUMN dnp TEXT CHECK (dnp IN ('injury', 'illness', 'coach', 'absent', 'suspended'));
+    `);
+  },
+  (db) => {
+    // Feed threads, with the previous versions of edited messages, reactions
+    // and the time each account last read the feed
+    db.exec(`
+      ALTER TABLE messages ADD COLUMN parent_id TEXT REFERENCES messages(id) ON DELETE CASCADE;
+      ALTER TABLE messages ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE messages ADD COLUMN edited_at TEXT;
+      ALTER TABLE messages ADD COLUMN image TEXT;
+      CREATE INDEX idx_messages_parent ON messages(parent_id);
+      CREATE TABLE message_edits (
+        message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        edited_at TEXT NOT NULL
+      );
+      CREATE TABLE message_reactions (
+        message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        emoji TEXT NOT NULL,
+        PRIMARY KEY (message_id, user_id, emoji)
+      );
+      ALTER TABLE users ADD COLUMN feed_read_at TEXT;
+    `);
+  },
+  (db) => {
+    // Notification center: per-account notifications, channel preferences,
+    // followed players, Web Push subscriptions and the server's VAPID keys
+    db.exec(`
+      CREATE TABLE notifications (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK (kind IN ('game_stats', 'announcement', 'schedule', 'record')),
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        view TEXT,
+        player_id TEXT,
+        created_at TEXT NOT NULL,
+        read_at TEXT
+      );
+      CREATE INDEX idx_notifications_user ON notifications(user_id, created_at);
+      CREATE TABLE notification_settings (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        in_app INTEGER NOT NULL,
+        push INTEGER NOT NULL,
+        PRIMARY KEY (user_id, kind)
+      );
+      CREATE TABLE player_follows (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        player_id TEXT NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+        PRIMARY KEY (user_id, player_id)
+      );
+      CREATE TABLE push_subscriptions (
+        endpoint TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+  },
+  (db) => {
+    // Public pages: secret links to a team's season, revoked by deleting
+    // them, and the players who asked to stay off those pages
+    db.exec(`
+      CREATE TABLE share_links (
+        token TEXT PRIMARY KEY,
+        season_id TEXT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE public_opt_outs (
+        player_id TEXT PRIMARY KEY REFERENCES players(id) ON DELETE CASCADE
+      );
+    `);
+  },
+  (db) => {
+    // Trash of deleted players, games and lines, with the rows needed to
+    // restore them, and the log of changes to players and games. Neither
+    // references users: entries outlive the account that made them.
+    db.exec(`
+      CREATE TABLE trash (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL CHECK (kind IN ('player', 'players', 'game', 'lines', 'system')),
+        label TEXT NOT NULL,
+        data TEXT NOT NULL,
+        deleted_by TEXT NOT NULL,
+        deleted_at TEXT NOT NULL
+      );
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at TEXT NOT NULL,
+        user_id TEXT,
+        user_name TEXT NOT NULL,
+        action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore')),
+        entity TEXT NOT NULL CHECK (entity IN ('player', 'game', 'system')),
+        entity_id TEXT,
+        label TEXT NOT NULL,
+        before TEXT,
+        after TEXT
+      );
+      CREATE INDEX idx_audit_entity ON audit_log(entity_id);
+    `);
+  },
+  (db) => {
+    // Schedule entries, injuries and messages go to the trash as well
+    db.exec(`
+      CREATE TABLE trash_v16 (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL CHECK (kind IN ('player', 'players', 'game', 'lines', 'system', 'event', 'injury', 'message')),
+        label TEXT NOT NULL,
+        data TEXT NOT NULL,
+        deleted_by TEXT NOT NULL,
+        deleted_at TEXT NOT NULL
+      );
+      INSERT INTO trash_v16 SELECT * FROM trash;
+      DROP TABLE trash;
+      ALTER TABLE trash_v16 RENAME TO trash;
+    `);
+  },
+];
+
+// Foreign keys are off while migrating (they cannot be toggled inside a
+// transaction) so that tables can be rebuilt; each migration must leave
+// them consistent.
+function migrate() {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  if (current >= migrations.length) return;
+  db.pragma('foreign_keys = OFF');
+  for (let version = current; version < migrations.length; version++) {
+    db.transaction(() => {
+      migrations[version](db);
+      if ((db.pragma('foreign_key_check') as unknown[]).length > 0) {
+        throw new Error(`Migration ${version + 1} leaves dangling foreign keys`);
+      }
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+  db.pragma('foreign_keys = ON');
+}
+
+migrate();
@@ -0,0 +1,7 @@
+import dotenv from 'dotenv';
+
+// Local secrets such as GEMINI_API_KEY, and settings such as DATABASE_PATH;
+// AI Studio injects them itself. Imports are evaluated before the importing
+// module's body, so server.ts imports this first: the other modules read
+// process.env as soon as they load (db.ts opens the database).
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
@@ -0,0 +1,62 @@
+import { Router, type Request, type Response } from 'express';
+import { bearerToken, sessionUser } from './auth';
+import type { Change, ChangeEvent, User } from '../src/types';
+
+export const eventsRouter = Router();
+
+// Keeps idle connections from being closed by proxies
+const HEARTBEAT_MS = 25_000;
+
+// Open change feeds, with the session following each. The account is looked
+// up again for every change, so that a new role applies at once and a
+// deleted account or closed session stops receiving anything.
+const clients = new Map<Response, string>();
+
+// Server-Sent Events stream of every change made to players, games and messages
+eventsRouter.get('/', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(': connecté\n\n');
+  clients.set(res, bearerToken(req)!);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+});
+
+// Sends a change made by the request's user to every open app, theirs included
+export function publish(req: Request, change: Change) {
+  send(() => change, req.user!.id);
+}
+
+// Sends a change to the apps of one account only
+export function publishTo(userId: string, change: Change, by: string) {
+  send(user => (user.id === userId ? change : null), by);
+}
+
+// Sends each open app the part of a change its account may see
+export function publishEach(req: Request, change: (user: User) => Change) {
+  send(change, req.user!.id);
+}
+
+// `change` gives what an account receives, null for nothing
+function send(change: (user: User) => Change | null, by: string) {
+  clients.forEach((token, client) => {
+    const user = sessionUser(token);
+    if (!user) {
+      // The app reconnects, is refused and asks to sign in again
+      clients.delete(client);
+      client.end();
+      return;
+    }
+    const shown = change(user);
+    if (shown) client.write(`data: ${JSON.stringify({ ...shown, by } satisfies ChangeEvent)}\n\n`);
+  });
+}
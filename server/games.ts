@@ -0,0 +1,308 @@
+import { Router, type Request } from 'express';
+import { clientId, db } from './db';
+import { requirePermission } from './auth';
+import { can } from '../src/auth';
+import { audit } from './audit';
+import { publish, publishEach } from './events';
+import { notifyGame } from './notifications';
+import { validateBoxScore } from '../src/boxScore';
+import { isDnpReason } from '../src/injuries';
+import { LIVE_EVENT_TYPES } from '../src/liveGame';
+import { playerName } from '../src/players';
+import { loadPlayer } from './players';
+import { checkScheduledGame, linkScheduledGame } from './schedule';
+import { loadSeason } from './seasons';
+import { loadTeam } from './teams';
+import { gamesSnapshot, toTrash } from './trash';
+import { gameLabel } from '../src/games';
+import { isDate } from '../src/utils';
+import type { BoxScore, Game, GameInput, LiveEvent, StatLine, User } from '../src/types';
+
+export const gamesRouter = Router();
+
+interface GameRow {
+  id: string;
+  season_id: string;
+  team_id: string;
+  date: string;
+  opponent: string;
+  venue: Game['venue'];
+  competition: string;
+  team_score: number | null;
+  opponent_score: number | null;
+  version: number;
+}
+
+// stat_lines column for each box score field
+const LINE_COLUMNS: Record<keyof BoxScore, string> = {
+  minutes: 'minutes',
+  points: 'points',
+  fieldGoalsMade: 'fgm',
+  fieldGoalsAttempted: 'fga',
+  threePointersMade: 'tpm',
+  threePointersAttempted: 'tpa',
+  freeThrowsMade: 'ftm',
+  freeThrowsAttempted: 'fta',
+  offensiveRebounds: 'oreb',
+  defensiveRebounds: 'dreb',
+  rebounds: 'rebounds',
+  assists: 'assists',
+  steals: 'steals',
+  blocks: 'blocks',
+  turnovers: 'turnovers',
+  fouls: 'fouls',
+};
+
+const LINE_KEYS = Object.keys(LINE_COLUMNS) as (keyof BoxScore)[];
+
+interface StatLineRow {
+  game_id: string;
+  player_id: string;
+  dnp: StatLine['dnp'];
+  [column: string]: string | number | null;
+}
+
+function toStatLine(row: StatLineRow): StatLine {
+  const line = { playerId: row.player_id, dnp: row.dnp } as StatLine;
+  LINE_KEYS.forEach(key => {
+    line[key] = row[LINE_COLUMNS[key]] as number;
+  });
+  return line;
+}
+
+function toInt(value: unknown) {
+  return parseInt(String(value)) || 0;
+}
+
+function toScore(value: unknown) {
+  if (value === null || value === undefined || value === '') return null;
+  const score = parseInt(String(value));
+  return Number.isNaN(score) ? null : score;
+}
+
+function toGame(row: GameRow, lines: StatLineRow[]): Game {
+  return {
+    id: row.id,
+    seasonId: row.season_id,
+    teamId: row.team_id,
+    date: row.date,
+    opponent: row.opponent,
+    venue: row.venue,
+    competition: row.competition,
+    teamScore: row.team_score,
+    opponentScore: row.opponent_score,
+    version: row.version,
+    lines: lines.map(toStatLine),
+  };
+}
+
+export function loadGames(): Game[] {
+  const rows = db.prepare('SELECT * FROM games ORDER BY date, rowid').all() as GameRow[];
+  const lines = db.prepare('SELECT * FROM stat_lines ORDER BY rowid').all() as StatLineRow[];
+  return rows.map(row => toGame(row, lines.filter(l => l.game_id === row.id)));
+}
+
+export function loadGame(id: string): Game | null {
+  const row = db.prepare('SELECT * FROM games WHERE id = ?').get(id) as GameRow | undefined;
+  if (!row) return null;
+  return toGame(row, db.prepare('SELECT * FROM stat_lines WHERE game_id = ? ORDER BY rowid').all(id) as StatLineRow[]);
+}
+
+// Players only get their own lines, like their injuries and attendance; the
+// games themselves (dates, opponents, scores) are for everyone
+export function visibleGame(user: User | undefined, game: Game): Game {
+  if (can(user, 'view_all_stats')) return game;
+  return { ...game, lines: game.lines.filter(l => l.playerId === user?.playerId) };
+}
+
+export const publishGame = (req: Request, game: Game) =>
+  publishEach(req, user => ({ type: 'game', game: visibleGame(user, game) }));
+
+// Validates a game payload; returns an error message for the client when invalid.
+function parseGameInput(body: any): GameInput | string {
+  if (!body.date) return 'Date du match requise';
+  if (!isDate(String(body.date))) return 'Date du match invalide';
+  if (!loadSeason(String(body.seasonId ?? ''))) return 'Saison inconnue';
+  if (!loadTeam(String(body.teamId ?? ''))) return 'Catégorie inconnue';
+  if (body.venue !== undefined && body.venue !== 'home' && body.venue !== 'away') return 'Lieu invalide';
+
+  const rawLines: any[] = Array.isArray(body.lines) ? body.lines : [];
+  const lines: StatLine[] = [];
+  for (const raw of rawLines) {
+    const playerId = String(raw?.playerId ?? '');
+    const player = loadPlayer(playerId);
+    if (!player) return `Joueur inconnu : ${playerId}`;
+    if (lines.some(l => l.playerId === playerId)) return `Ligne en double pour ${playerName(player)}`;
+
+    const dnp = raw?.dnp ?? null;
+    if (dnp !== null && !isDnpReason(dnp)) return `${playerName(player)} : motif de non-participation invalide`;
+    const line = { playerId, dnp } as StatLine;
+    LINE_KEYS.forEach(key => {
+      line[key] = toInt(raw[key]);
+    });
+    if (dnp && LINE_KEYS.some(key => line[key] !== 0)) return `${playerName(player)} : statistiques saisies sans avoir joué`;
+    const error = validateBoxScore(line);
+    if (error) return `${playerName(player)} : ${error}`;
+    lines.push(line);
+  }
+
+  return {
+    seasonId: String(body.seasonId),
+    teamId: String(body.teamId),
+    date: String(body.date),
+    opponent: String(body.opponent ?? '').trim(),
+    venue: body.venue ?? 'home',
+    competition: String(body.competition ?? '').trim(),
+    teamScore: toScore(body.teamScore),
+    opponentScore: toScore(body.opponentScore),
+    lines,
+  };
+}
+
+// Play-by-play from live tracking; malformed entries reject the whole game.
+// Every player involved has a line in the game, as the app derives the lines
+// from the events.
+function parseEvents(body: any, lines: StatLine[]): LiveEvent[] | string {
+  if (body.events === undefined || body.events === null) return [];
+  if (!Array.isArray(body.events)) return 'Play-by-play invalide';
+  const players = new Set(lines.map(l => l.playerId));
+  const events: LiveEvent[] = [];
+  for (const raw of body.events) {
+    if (!LIVE_EVENT_TYPES.includes(raw?.type)) return `Événement inconnu : ${raw?.type}`;
+    const event: LiveEvent = {
+      seq: toInt(raw.seq),
+      type: raw.type,
+      period: toInt(raw.period),
+      clock: toInt(raw.clock),
+      playerId: raw.playerId ? String(raw.playerId) : null,
+      subIn: raw.subIn ? String(raw.subIn) : null,
+      value: toInt(raw.value),
+    };
+    if (event.type === 'sub' && (!event.playerId || !event.subIn)) return `Événement n° ${event.seq} : remplacement incomplet`;
+    if (events.some(e => e.seq === event.seq)) return `Événement en double (n° ${event.seq})`;
+    if ([event.playerId, event.subIn].some(id => id !== null && !players.has(id))) {
+      return `Événement n° ${event.seq} : joueur absent de la feuille de match`;
+    }
+    events.push(event);
+  }
+  return events;
+}
+
+const saveEvents = (id: string, events: LiveEvent[]) => {
+  const insert = db.prepare(`INSERT INTO game_events (game_id, seq, type, period, clock, player_id, sub_in, value)
+    VALUES (@game_id, @seq, @type, @period, @clock, @playerId, @subIn, @value)`);
+  events.forEach(e => insert.run({ game_id: id, ...e }));
+};
+
+export const saveGame = db.transaction((id: string, input: GameInput, isNew: boolean) => {
+  const params = {
+    id,
+    season_id: input.seasonId,
+    team_id: input.teamId,
+    date: input.date,
+    opponent: input.opponent,
+    venue: input.venue,
+    competition: input.competition,
+    team_score: input.teamScore,
+    opponent_score: input.opponentScore,
+  };
+  if (isNew) {
+    db.prepare(`INSERT INTO games (id, season_id, team_id, date, opponent, venue, competition, team_score, opponent_score, created_at)
+      VALUES (@id, @season_id, @team_id, @date, @opponent, @venue, @competition, @team_score, @opponent_score, @created_at)`)
+      .run({ ...params, created_at: new Date().toISOString() });
+  } else {
+    db.prepare(`UPDATE games SET season_id = @season_id, team_id = @team_id, date = @date, opponent = @opponent,
+      venue = @venue, competition = @competition, team_score = @team_score, opponent_score = @opponent_score, version = version + 1 WHERE id = @id`).run(params);
+    db.prepare('DELETE FROM stat_lines WHERE game_id = ?').run(id);
+  }
+  const columns = LINE_KEYS.map(key => LINE_COLUMNS[key]);
+  const insertLine = db.prepare(`INSERT INTO stat_lines (game_id, player_id, dnp, ${columns.join(', ')})
+    VALUES (?, ?, ?, ${columns.map(() => '?').join(', ')})`);
+  // Lines from older backups have no DNP reason
+  input.lines.forEach(l => insertLine.run(id, l.playerId, l.dnp ?? null, ...LINE_KEYS.map(key => l[key])));
+});
+
+gamesRouter.get('/', (req, res) => {
+  res.json(loadGames().map(game => visibleGame(req.user, game)));
+});
+
+gamesRouter.get('/:id', (req, res) => {
+  const game = loadGame(req.params.id);
+  if (!game) return res.status(404).json({ error: 'Match introuvable' });
+  res.json(visibleGame(req.user, game));
+});
+
+gamesRouter.get('/:id/events', (req, res) => {
+  if (!loadGame(req.params.id)) return res.status(404).json({ error: 'Match introuvable' });
+  const rows = db.prepare('SELECT * FROM game_events WHERE game_id = ? ORDER BY seq').all(req.params.id) as any[];
+  const events = rows.map((r): LiveEvent => ({
+    seq: r.seq, type: r.type, period: r.period, clock: r.clock, playerId: r.player_id, subIn: r.sub_in, value: r.value,
+  }));
+  // The play-by-play is detailed stats as well
+  const own = (id: string | null) => id !== null && id === req.user!.playerId;
+  res.json(can(req.user, 'view_all_stats') ? events : events.filter(e => own(e.playerId) || own(e.subIn)));
+});
+
+// Offline clients send the version they last saw; a mismatch means someone
+// else changed the game in the meantime. Requests without a version always win.
+export function checkVersion(game: Game, expected: unknown) {
+  return expected === undefined || expected === null || expected === '' || Number(expected) === game.version;
+}
+
+const conflict = (game: Game) => ({ error: 'Ce match a été modifié sur un autre appareil', current: game });
+
+gamesRouter.post('/', requirePermission('edit_stats'), (req, res) => {
+  const input = parseGameInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+  const events = parseEvents(req.body, input.lines);
+  if (typeof events === 'string') return res.status(400).json({ error: events });
+
+  // Clients may pick the id themselves so that a replayed request is idempotent
+  const id = clientId(req.body.id);
+  const existing = loadGame(id);
+  if (existing) return res.json(existing);
+  // Stats entered for a game of the schedule mark it as played
+  const scheduleError = checkScheduledGame(req.body.scheduleEventId);
+  if (scheduleError) return res.status(400).json({ error: scheduleError });
+
+  db.transaction(() => {
+    saveGame(id, input, true);
+    saveEvents(id, events);
+    if (req.body.scheduleEventId) linkScheduledGame(String(req.body.scheduleEventId), id);
+  })();
+  const game = loadGame(id)!;
+  audit(req, 'create', 'game', gameLabel(game), null, game);
+  publishGame(req, game);
+  notifyGame(req, game);
+  res.status(201).json(game);
+});
+
+gamesRouter.put('/:id', requirePermission('edit_stats'), (req, res) => {
+  const game = loadGame(req.params.id);
+  if (!game) return res.status(404).json({ error: 'Match introuvable' });
+  if (!checkVersion(game, req.body.version)) return res.status(409).json(conflict(game));
+  const input = parseGameInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  saveGame(req.params.id, input, false);
+  const saved = loadGame(req.params.id)!;
+  audit(req, 'update', 'game', gameLabel(saved), game, saved);
+  publishGame(req, saved);
+  res.json(saved);
+});
+
+gamesRouter.delete('/:id', requirePermission('edit_stats'), (req, res) => {
+  const game = loadGame(req.params.id);
+  if (!game) return res.status(404).json({ error: 'Match introuvable' });
+  if (!checkVersion(game, req.query.version)) return res.status(409).json(conflict(game));
+
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'game', gameLabel(game), gamesSnapshot([game.id]));
+    audit(req, 'delete', 'game', gameLabel(game), game, null);
+    db.prepare('DELETE FROM games WHERE id = ?').run(game.id);
+    return id;
+  })();
+  publish(req, { type: 'game-deleted', id: game.id });
+  // The trash entry, for the app's undo button
+  res.json({ trashId });
+});
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { clientId, db } from './db';
+import { requirePermission } from './auth';
+import { loadPlayer } from './players';
+import { injurySnapshot, toTrash } from './trash';
+import { can } from '../src/auth';
+import { parseInjuryInput } from '../src/injuries';
+import { playerName } from '../src/players';
+import type { Injury, InjuryInput } from '../src/types';
+
+export const injuriesRouter = Router();
+
+const INJURY_COLUMNS = `id, player_id AS playerId, date, body_part AS bodyPart, description,
+  expected_return AS expectedReturn, cleared_date AS clearedDate`;
+
+export function loadInjury(id: string): Injury | null {
+  return (db.prepare(`SELECT ${INJURY_COLUMNS} FROM injuries WHERE id = ?`).get(id) as Injury | undefined) ?? null;
+}
+
+export function loadPlayerInjuries(playerId: string): Injury[] {
+  return db.prepare(`SELECT ${INJURY_COLUMNS} FROM injuries WHERE player_id = ? ORDER BY date, rowid`).all(playerId) as Injury[];
+}
+
+function parseInput(body: any): InjuryInput | string {
+  const input = parseInjuryInput(body);
+  if (typeof input === 'string') return input;
+  if (!loadPlayer(input.playerId)) return `Joueur inconnu : ${input.playerId}`;
+  return input;
+}
+
+const toParams = (id: string, injury: InjuryInput) => ({
+  id,
+  player_id: injury.playerId,
+  date: injury.date,
+  body_part: injury.bodyPart,
+  description: injury.description,
+  expected_return: injury.expectedReturn,
+  cleared_date: injury.clearedDate,
+});
+
+// Medical details are for the staff: players only get their own, like their stats
+injuriesRouter.get('/', (req, res) => {
+  if (can(req.user, 'view_all_stats')) {
+    return res.json(db.prepare(`SELECT ${INJURY_COLUMNS} FROM injuries ORDER BY date, rowid`).all() as Injury[]);
+  }
+  res.json(loadPlayerInjuries(req.user!.playerId ?? ''));
+});
+
+injuriesRouter.post('/', requirePermission('manage_roster'), (req, res) => {
+  const input = parseInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  // Clients may pick the id themselves so that a replayed request is idempotent
+  const id = clientId(req.body.id);
+  const existing = loadInjury(id);
+  if (existing) return res.json(existing);
+
+  db.prepare(`INSERT INTO injuries (id, player_id, date, body_part, description, expected_return, cleared_date, created_at)
+    VALUES (@id, @player_id, @date, @body_part, @description, @expected_return, @cleared_date, @created_at)`)
+    .run({ ...toParams(id, input), created_at: new Date().toISOString() });
+  res.status(201).json(loadInjury(id));
+});
+
+injuriesRouter.put('/:id', requirePermission('manage_roster'), (req, res) => {
+  if (!loadInjury(req.params.id)) return res.status(404).json({ error: 'Blessure introuvable' });
+  const input = parseInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  db.prepare(`UPDATE injuries SET player_id = @player_id, date = @date, body_part = @body_part, description = @description,
+    expected_return = @expected_return, cleared_date = @cleared_date WHERE id = @id`).run(toParams(req.params.id, input));
+  res.json(loadInjury(req.params.id));
+});
+
+injuriesRouter.delete('/:id', requirePermission('manage_roster'), (req, res) => {
+  const injury = loadInjury(req.params.id);
+  if (!injury) return res.status(404).json({ error: 'Blessure introuvable' });
+  const player = loadPlayer(injury.playerId);
+  const label = `Blessure de ${player ? playerName(player) : 'joueur inconnu'} (${injury.bodyPart})`;
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'injury', label, injurySnapshot(injury.id));
+    db.prepare('DELETE FROM injuries WHERE id = ?').run(injury.id);
+    return id;
+  })();
+  // The trash entry, for the app's undo button
+  res.json({ trashId });
+});
@@ -0,0 +1,190 @@
+import { Router } from 'express';
+import { clientId, db } from './db';
+import { requirePermission } from './auth';
+import { publish } from './events';
+import { notifyAnnouncement } from './notifications';
+import { loadPlayer } from './players';
+import { messageSnapshot, toTrash } from './trash';
+import { authorName, can } from '../src/auth';
+import { parseMessageInput, REACTIONS } from '../src/messages';
+import type { Message, MessageEdit, Reaction } from '../src/types';
+
+export const messagesRouter = Router();
+
+interface MessageRow {
+  id: string;
+  author: string;
+  content: string;
+  timestamp: string;
+  user_id: string | null;
+  parent_id: string | null;
+  pinned: number;
+  edited_at: string | null;
+  image: string | null;
+}
+
+function toMessage(row: MessageRow, reactions: Reaction[]): Message {
+  return {
+    id: row.id,
+    author: row.author,
+    content: row.content,
+    timestamp: row.timestamp,
+    userId: row.user_id,
+    parentId: row.parent_id,
+    pinned: row.pinned === 1,
+    editedAt: row.edited_at,
+    image: row.image,
+    reactions,
+  };
+}
+
+function reactionsOf(rows: { emoji: string, user_id: string }[]): Reaction[] {
+  return REACTIONS
+    .map(emoji => ({ emoji, userIds: rows.filter(r => r.emoji === emoji).map(r => r.user_id) }))
+    .filter(r => r.userIds.length > 0);
+}
+
+export function loadMessages(): Message[] {
+  const rows = db.prepare('SELECT * FROM messages ORDER BY timestamp DESC').all() as MessageRow[];
+  const reactions = db.prepare('SELECT message_id, user_id, emoji FROM message_reactions ORDER BY rowid').all() as
+    { message_id: string, user_id: string, emoji: string }[];
+  return rows.map(row => toMessage(row, reactionsOf(reactions.filter(r => r.message_id === row.id))));
+}
+
+function loadMessage(id: string): Message | null {
+  const row = db.prepare('SELECT * FROM messages WHERE id = ?').get(id) as MessageRow | undefined;
+  if (!row) return null;
+  return toMessage(row, reactionsOf(db.prepare('SELECT user_id, emoji FROM message_reactions WHERE message_id = ? ORDER BY rowid').all(id) as
+    { user_id: string, emoji: string }[]));
+}
+
+messagesRouter.get('/', (_req, res) => {
+  res.json(loadMessages());
+});
+
+// When the account last opened the feed; later messages count as unread
+messagesRouter.get('/read', (req, res) => {
+  const row = db.prepare('SELECT feed_read_at FROM users WHERE id = ?').get(req.user!.id) as { feed_read_at: string | null };
+  res.json({ readAt: row.feed_read_at });
+});
+
+// Only moves forward, so that a late replay from another device cannot mark
+// messages unread again
+messagesRouter.put('/read', (req, res) => {
+  const readAt = new Date(req.body.readAt);
+  if (Number.isNaN(readAt.getTime())) return res.status(400).json({ error: 'Date de lecture invalide' });
+  db.prepare('UPDATE users SET feed_read_at = MAX(COALESCE(feed_read_at, \'\'), ?) WHERE id = ?').run(readAt.toISOString(), req.user!.id);
+  const row = db.prepare('SELECT feed_read_at FROM users WHERE id = ?').get(req.user!.id) as { feed_read_at: string };
+  res.json({ readAt: row.feed_read_at });
+});
+
+// The author is always the signed-in account, whatever the client sends
+messagesRouter.post('/', requirePermission('post_messages'), (req, res) => {
+  const input = parseMessageInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  // Messages written offline keep their client id (idempotent replay) and time
+  const id = clientId(req.body.id);
+  const existing = loadMessage(id);
+  if (existing) return res.json(existing);
+  const sentAt = new Date(req.body.timestamp);
+  const timestamp = Number.isNaN(sentAt.getTime()) || sentAt.getTime() > Date.now() ? new Date().toISOString() : sentAt.toISOString();
+
+  // Threads are one level deep: answering a reply answers its thread
+  let parentId: string | null = null;
+  if (req.body.parentId) {
+    const parent = loadMessage(String(req.body.parentId));
+    if (!parent) return res.status(400).json({ error: 'Message introuvable' });
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  const user = req.user!;
+  db.prepare(`INSERT INTO messages (id, author, content, timestamp, user_id, parent_id, image)
+    VALUES (@id, @author, @content, @timestamp, @userId, @parentId, @image)`).run({
+    id,
+    author: authorName(user, user.playerId && loadPlayer(user.playerId)),
+    content: input.content,
+    timestamp,
+    userId: user.id,
+    parentId,
+    image: input.image,
+  });
+  const message = loadMessage(id)!;
+  publish(req, { type: 'message', message, created: true });
+  if (!parentId) notifyAnnouncement(req, message);
+  res.status(201).json(message);
+});
+
+// Only the author edits a message; the previous text is kept in its history
+messagesRouter.put('/:id', requirePermission('post_messages'), (req, res) => {
+  const message = loadMessage(req.params.id);
+  if (!message) return res.status(404).json({ error: 'Message introuvable' });
+  if (message.userId !== req.user!.id) return res.status(403).json({ error: 'Seul son auteur peut modifier un message' });
+  const input = parseMessageInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+  // A replayed edit changes nothing
+  if (input.content === message.content && input.image === message.image) return res.json(message);
+
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    if (input.content !== message.content) {
+      db.prepare('INSERT INTO message_edits (message_id, content, edited_at) VALUES (?, ?, ?)').run(message.id, message.content, now);
+    }
+    db.prepare('UPDATE messages SET content = ?, image = ?, edited_at = ? WHERE id = ?').run(input.content, input.image, now, message.id);
+  })();
+  const edited = loadMessage(message.id)!;
+  publish(req, { type: 'message', message: edited, created: false });
+  res.json(edited);
+});
+
+// Earlier versions of the message, most recent first
+messagesRouter.get('/:id/edits', (req, res) => {
+  if (!loadMessage(req.params.id)) return res.status(404).json({ error: 'Message introuvable' });
+  res.json(db.prepare('SELECT content, edited_at AS editedAt FROM message_edits WHERE message_id = ? ORDER BY rowid DESC')
+    .all(req.params.id) as MessageEdit[]);
+});
+
+// Sets or clears the account's reaction rather than toggling it, so that a
+// replayed request leaves the same result
+messagesRouter.put('/:id/reactions', requirePermission('post_messages'), (req, res) => {
+  if (!loadMessage(req.params.id)) return res.status(404).json({ error: 'Message introuvable' });
+  const emoji = String(req.body.emoji ?? '');
+  if (!REACTIONS.includes(emoji)) return res.status(400).json({ error: 'Réaction invalide' });
+
+  if (req.body.active) {
+    db.prepare('INSERT OR IGNORE INTO message_reactions (message_id, user_id, emoji) VALUES (?, ?, ?)').run(req.params.id, req.user!.id, emoji);
+  } else {
+    db.prepare('DELETE FROM message_reactions WHERE message_id = ? AND user_id = ? AND emoji = ?').run(req.params.id, req.user!.id, emoji);
+  }
+  const message = loadMessage(req.params.id)!;
+  publish(req, { type: 'message', message, created: false });
+  res.json(message);
+});
+
+messagesRouter.put('/:id/pin', requirePermission('pin_messages'), (req, res) => {
+  const message = loadMessage(req.params.id);
+  if (!message) return res.status(404).json({ error: 'Message introuvable' });
+  if (message.parentId) return res.status(400).json({ error: 'Seuls les messages du fil peuvent être épinglés' });
+  db.prepare('UPDATE messages SET pinned = ? WHERE id = ?').run(req.body.pinned ? 1 : 0, message.id);
+  const pinned = loadMessage(message.id)!;
+  publish(req, { type: 'message', message: pinned, created: false });
+  res.json(pinned);
+});
+
+// Authors can remove their own messages; moderators can remove any. Replies
+// go with the message they answer.
+messagesRouter.delete('/:id', (req, res) => {
+  const message = loadMessage(req.params.id);
+  if (!message) return res.status(404).json({ error: 'Message introuvable' });
+  if (message.userId !== req.user!.id && !can(req.user, 'moderate_messages')) {
+    return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+  }
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'message', `Message de ${message.author}`, messageSnapshot(message.id));
+    db.prepare('DELETE FROM messages WHERE id = ?').run(message.id);
+    return id;
+  })();
+  publish(req, { type: 'message-deleted', id: message.id });
+  // The trash entry, for the app's undo button
+  res.json({ trashId });
+});
@@ -0,0 +1,275 @@
+import { Router, type Request } from 'express';
+import webpush from 'web-push';
+import { db, newId } from './db';
+import { publishTo } from './events';
+import { loadGames } from './games';
+import { loadPlayer } from './players';
+import { loadTeams } from './teams';
+import { canViewPlayer } from '../src/auth';
+import { brokenRecords, defaultChannels, NOTIFICATION_KINDS, parseNotificationSettings } from '../src/notifications';
+import { playerName } from '../src/players';
+import { scheduleTitle } from '../src/schedule';
+import type { Game, Message, NotificationKind, NotificationSettings, ScheduleEvent, UserNotification } from '../src/types';
+
+export const notificationsRouter = Router();
+
+// Notifications kept in the center, most recent first
+const CENTER_SIZE = 50;
+
+interface NotificationRow {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  view: UserNotification['view'];
+  player_id: string | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+const toNotification = (row: NotificationRow): UserNotification => ({
+  id: row.id,
+  kind: row.kind,
+  title: row.title,
+  body: row.body,
+  view: row.view,
+  playerId: row.player_id,
+  createdAt: row.created_at,
+  readAt: row.read_at,
+});
+
+// VAPID keys identify this server to the browsers' push services. They come
+// from the environment, or are generated on first use and kept in the
+// database so that local runs need no setup.
+function vapidKeys(): { publicKey: string, privateKey: string } {
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    return { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+  }
+  const row = db.prepare("SELECT value FROM app_settings WHERE key = 'vapid'").get() as { value: string } | undefined;
+  if (row) return JSON.parse(row.value);
+  const keys = webpush.generateVAPIDKeys();
+  db.prepare("INSERT INTO app_settings (key, value) VALUES ('vapid', ?)").run(JSON.stringify(keys));
+  return keys;
+}
+
+let vapidReady = false;
+
+function setUpPush() {
+  if (vapidReady) return;
+  const { publicKey, privateKey } = vapidKeys();
+  webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:admin@ibaa.local', publicKey, privateKey);
+  vapidReady = true;
+}
+
+// Sends to every device where the account enabled push, and resolves with
+// the number of devices reached; it never rejects, as notifications are sent
+// without waiting. Subscriptions the push service no longer knows are dropped.
+async function push(userId: string, notification: UserNotification) {
+  const subscriptions = db.prepare('SELECT endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = ?').all(userId) as
+    { endpoint: string, p256dh: string, auth: string }[];
+  if (subscriptions.length === 0) return 0;
+  try {
+    setUpPush();
+  } catch (err) {
+    // Malformed VAPID keys in the environment
+    console.error('Push notifications are not configured:', err);
+    return 0;
+  }
+  const payload = JSON.stringify(notification);
+  const results = await Promise.all(subscriptions.map(s =>
+    // A malformed subscription throws before sending: it fails like the others
+    Promise.resolve()
+      .then(() => webpush.sendNotification({ endpoint: s.endpoint, keys: { p256dh: s.p256dh, auth: s.auth } }, payload))
+      .then(() => true)
+      .catch(err => {
+        if (err.statusCode === 404 || err.statusCode === 410) {
+          db.prepare('DELETE FROM push_subscriptions WHERE endpoint = ?').run(s.endpoint);
+        } else {
+          console.error('Push notification failed:', err);
+        }
+        return false;
+      })));
+  return results.filter(Boolean).length;
+}
+
+export function loadSettings(userId: string): NotificationSettings {
+  const channels = defaultChannels();
+  (db.prepare('SELECT kind, in_app, push FROM notification_settings WHERE user_id = ?').all(userId) as
+    { kind: NotificationKind, in_app: number, push: number }[])
+    .filter(row => NOTIFICATION_KINDS.includes(row.kind))
+    .forEach(row => {
+      channels[row.kind] = { inApp: row.in_app === 1, push: row.push === 1 };
+    });
+  const followed = (db.prepare('SELECT player_id FROM player_follows WHERE user_id = ?').all(userId) as { player_id: string }[])
+    .map(row => row.player_id);
+  return { channels, followed };
+}
+
+type NotificationInput = Pick<UserNotification, 'kind' | 'title' | 'body' | 'view' | 'playerId'>;
+
+// Notifies the accounts, except the one making the request, through the
+// channels each of them chose for this kind of notification
+function notify(req: Request, userIds: string[], input: NotificationInput) {
+  const createdAt = new Date().toISOString();
+  new Set(userIds).forEach(userId => {
+    if (userId === req.user!.id) return;
+    const channels = loadSettings(userId).channels[input.kind];
+    const notification: UserNotification = { ...input, id: newId(), createdAt, readAt: null };
+    if (channels.inApp) {
+      db.prepare(`INSERT INTO notifications (id, user_id, kind, title, body, view, player_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`).run(notification.id, userId, input.kind, input.title, input.body, input.view, input.playerId, createdAt);
+      publishTo(userId, { type: 'notification', notification }, req.user!.id);
+    }
+    if (channels.push) push(userId, notification);
+  });
+}
+
+const allUsers = () => (db.prepare('SELECT id FROM users').all() as { id: string }[]).map(row => row.id);
+
+// Accounts following the player, including the player's own account
+const followersOf = (playerId: string) =>
+  (db.prepare('SELECT user_id AS id FROM player_follows WHERE player_id = ? UNION SELECT id FROM users WHERE player_id = ?')
+    .all(playerId, playerId) as { id: string }[]).map(row => row.id);
+
+const day = (date: string) => new Date(date).toLocaleDateString('fr-FR');
+
+// New stats for the followed players of a game just entered, and the
+// personal records they broke
+export function notifyGame(req: Request, game: Game) {
+  const heading = `${day(game.date)} ${game.venue === 'home' ? 'vs' : '@'} ${game.opponent || 'adversaire inconnu'}`;
+  const earlier = loadGames().filter(g => g.id !== game.id);
+  game.lines.filter(l => !l.dnp).forEach(line => {
+    const player = loadPlayer(line.playerId);
+    if (!player) return;
+    const followers = followersOf(player.id);
+    if (followers.length === 0) return;
+    const name = playerName(player);
+    notify(req, followers, {
+      kind: 'game_stats',
+      title: `Stats de ${name}`,
+      body: `${heading} : ${line.points} pts, ${line.rebounds} reb, ${line.assists} pd`,
+      view: 'stats',
+      playerId: player.id,
+    });
+
+    const previous = earlier.flatMap(g => g.lines.filter(l => l.playerId === player.id && !l.dnp));
+    const records = brokenRecords(line, previous);
+    if (records.length > 0) {
+      notify(req, followers, {
+        kind: 'record',
+        title: `Record personnel pour ${name}`,
+        body: records.map(r => `${r.value} ${r.label} (précédent : ${r.best})`).join(', '),
+        view: 'stats',
+        playerId: player.id,
+      });
+    }
+  });
+}
+
+export function notifyAnnouncement(req: Request, message: Message) {
+  const text = message.content.length > 140 ? `${message.content.slice(0, 140)}…` : message.content;
+  notify(req, allUsers(), {
+    kind: 'announcement',
+    title: `Nouveau message de ${message.author}`,
+    body: text || 'Image',
+    view: 'feed',
+    playerId: null,
+  });
+}
+
+// Changes to past events concern nobody
+export function notifySchedule(req: Request, event: ScheduleEvent, change: 'created' | 'updated' | 'deleted') {
+  if (event.date < new Date().toISOString().split('T')[0]) return;
+  const titles = { created: 'Nouveau rendez-vous', updated: 'Rendez-vous modifié', deleted: 'Rendez-vous annulé' };
+  notify(req, allUsers(), {
+    kind: 'schedule',
+    title: titles[change],
+    body: `${scheduleTitle(event, loadTeams())} · ${day(event.date)}${event.time ? ` à ${event.time}` : ''}`,
+    view: 'schedule',
+    playerId: null,
+  });
+}
+
+notificationsRouter.get('/', (req, res) => {
+  const rows = db.prepare('SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?')
+    .all(req.user!.id, CENTER_SIZE) as NotificationRow[];
+  res.json(rows.map(toNotification));
+});
+
+// Marks the given notifications as read, or all of them without `ids`
+notificationsRouter.put('/read', (req, res) => {
+  const now = new Date().toISOString();
+  if (Array.isArray(req.body.ids)) {
+    const mark = db.prepare('UPDATE notifications SET read_at = ? WHERE id = ? AND user_id = ? AND read_at IS NULL');
+    db.transaction(() => req.body.ids.forEach((id: unknown) => mark.run(now, String(id), req.user!.id)))();
+  } else {
+    db.prepare('UPDATE notifications SET read_at = ? WHERE user_id = ? AND read_at IS NULL').run(now, req.user!.id);
+  }
+  res.status(204).end();
+});
+
+notificationsRouter.get('/settings', (req, res) => {
+  res.json(loadSettings(req.user!.id));
+});
+
+notificationsRouter.put('/settings', (req, res) => {
+  const settings = parseNotificationSettings(req.body);
+  if (typeof settings === 'string') return res.status(400).json({ error: settings });
+  const unknown = settings.followed.find(id => !loadPlayer(id));
+  if (unknown) return res.status(400).json({ error: `Joueur inconnu : ${unknown}` });
+  // Following a player means receiving their stats
+  if (!settings.followed.every(id => canViewPlayer(req.user, id))) return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+
+  const userId = req.user!.id;
+  db.transaction(() => {
+    db.prepare('DELETE FROM notification_settings WHERE user_id = ?').run(userId);
+    db.prepare('DELETE FROM player_follows WHERE user_id = ?').run(userId);
+    const saveChannels = db.prepare('INSERT INTO notification_settings (user_id, kind, in_app, push) VALUES (?, ?, ?, ?)');
+    NOTIFICATION_KINDS.forEach(kind =>
+      saveChannels.run(userId, kind, Number(settings.channels[kind].inApp), Number(settings.channels[kind].push)));
+    const follow = db.prepare('INSERT INTO player_follows (user_id, player_id) VALUES (?, ?)');
+    settings.followed.forEach(playerId => follow.run(userId, playerId));
+  })();
+  res.json(loadSettings(userId));
+});
+
+// Public key the browser subscribes with
+notificationsRouter.get('/push', (_req, res) => {
+  res.json({ publicKey: vapidKeys().publicKey });
+});
+
+// Registers this device's push subscription (PushSubscription.toJSON())
+notificationsRouter.post('/push', (req, res) => {
+  const { endpoint, keys } = req.body ?? {};
+  if (typeof endpoint !== 'string' || !endpoint.startsWith('https://') || typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') {
+    return res.status(400).json({ error: 'Abonnement push invalide' });
+  }
+  db.prepare(`INSERT INTO push_subscriptions (endpoint, user_id, p256dh, auth, created_at) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (endpoint) DO UPDATE SET user_id = excluded.user_id, p256dh = excluded.p256dh, auth = excluded.auth`)
+    .run(endpoint, req.user!.id, keys.p256dh, keys.auth, new Date().toISOString());
+  res.status(204).end();
+});
+
+notificationsRouter.delete('/push', (req, res) => {
+  db.prepare('DELETE FROM push_subscriptions WHERE endpoint = ? AND user_id = ?').run(String(req.body?.endpoint ?? ''), req.user!.id);
+  res.status(204).end();
+});
+
+// Sends a push notification to the account's own devices, to check the setup
+notificationsRouter.post('/push/test', async (req, res) => {
+  if (!db.prepare('SELECT 1 FROM push_subscriptions WHERE user_id = ?').get(req.user!.id)) {
+    return res.status(400).json({ error: 'Aucun appareil abonné aux notifications push' });
+  }
+  const sent = await push(req.user!.id, {
+    id: newId(),
+    kind: 'announcement',
+    title: 'Notifications IBAA',
+    body: 'Les notifications push fonctionnent sur cet appareil.',
+    view: null,
+    playerId: null,
+    createdAt: new Date().toISOString(),
+    readAt: null,
+  });
+  if (sent === 0) return res.status(502).json({ error: "Le service de notifications push n'a pas accepté l'envoi" });
+  res.json({ sent });
+});
@@ -0,0 +1,214 @@
+import { Router } from 'express';
+import { clientId, db, newId } from './db';
+import { requirePermission } from './auth';
+import { audit } from './audit';
+import { publish } from './events';
+import { checkVersion, loadGame, publishGame } from './games';
+import { loadSeason, setRosterEntry } from './seasons';
+import { loadTeam } from './teams';
+import { linesSnapshot, playersSnapshot, toTrash } from './trash';
+import { gameLabel } from '../src/games';
+import { findByName, fromLegacyName, parsePlayerInput, playerName } from '../src/players';
+import type { Player, PlayerInput } from '../src/types';
+
+export const playersRouter = Router();
+
+interface PlayerRow {
+  id: string;
+  first_name: string;
+  last_name: string;
+  jersey_number: number | null;
+  position: Player['position'];
+  birth_date: string | null;
+  height: number | null;
+  photo: string | null;
+  hand: Player['hand'];
+  status: Player['status'];
+}
+
+function toPlayer(row: PlayerRow): Player {
+  return {
+    id: row.id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    jerseyNumber: row.jersey_number,
+    position: row.position,
+    birthDate: row.birth_date,
+    height: row.height,
+    photo: row.photo,
+    hand: row.hand,
+    status: row.status,
+  };
+}
+
+export function loadPlayers(): Player[] {
+  return (db.prepare('SELECT * FROM players ORDER BY last_name, first_name').all() as PlayerRow[]).map(toPlayer);
+}
+
+export function loadPlayer(id: string): Player | null {
+  const row = db.prepare('SELECT * FROM players WHERE id = ?').get(id) as PlayerRow | undefined;
+  return row ? toPlayer(row) : null;
+}
+
+const playerParams = (id: string, p: PlayerInput) => ({
+  id,
+  first_name: p.firstName,
+  last_name: p.lastName,
+  jersey_number: p.jerseyNumber,
+  position: p.position,
+  birth_date: p.birthDate,
+  height: p.height,
+  photo: p.photo,
+  hand: p.hand,
+  status: p.status,
+});
+
+export function insertPlayer(id: string, p: PlayerInput, ignoreExisting = false) {
+  return db.prepare(`INSERT ${ignoreExisting ? 'OR IGNORE ' : ''}INTO players
+    (id, first_name, last_name, jersey_number, position, birth_date, height, photo, hand, status, created_at)
+    VALUES (@id, @first_name, @last_name, @jersey_number, @position, @birth_date, @height, @photo, @hand, @status, @created_at)`)
+    .run({ ...playerParams(id, p), created_at: new Date().toISOString() });
+}
+
+playersRouter.get('/', (_req, res) => {
+  res.json(loadPlayers());
+});
+
+playersRouter.post('/', requirePermission('manage_roster'), (req, res) => {
+  const input = parsePlayerInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  // New players can join a team for a season right away
+  const { seasonId, teamId } = req.body;
+  if (seasonId && (!loadSeason(seasonId) || !loadTeam(teamId))) return res.status(400).json({ error: 'Saison ou catégorie inconnue' });
+
+  // Clients may pick the id themselves so that a replayed request is idempotent
+  const id = clientId(req.body.id);
+  const existing = loadPlayer(id);
+  if (existing) return res.json(existing);
+  db.transaction(() => {
+    insertPlayer(id, input);
+    if (seasonId) setRosterEntry(seasonId, id, teamId);
+  })();
+  const player = loadPlayer(id)!;
+  audit(req, 'create', 'player', playerName(player), null, player);
+  publish(req, { type: 'player', player });
+  if (seasonId) publish(req, { type: 'season', season: loadSeason(seasonId)! });
+  res.status(201).json(player);
+});
+
+// Adds a profile for every name of the list that is not on the roster yet.
+// With a season and team, players without a team that season join this one.
+playersRouter.post('/batch', requirePermission('manage_roster'), (req, res) => {
+  const names: unknown[] = Array.isArray(req.body.names) ? req.body.names : [];
+  const { seasonId, teamId } = req.body;
+  if (seasonId && (!loadSeason(seasonId) || !loadTeam(teamId))) return res.status(400).json({ error: 'Saison ou catégorie inconnue' });
+
+  db.transaction(() => {
+    names.map(n => String(n).trim()).filter(Boolean).forEach(name => {
+      const id = findByName(loadPlayers(), name)?.id ?? newId();
+      if (!loadPlayer(id)) {
+        insertPlayer(id, fromLegacyName(name));
+        audit(req, 'create', 'player', name, null, loadPlayer(id));
+      }
+      if (seasonId) {
+        db.prepare('INSERT OR IGNORE INTO season_players (season_id, player_id, team_id) VALUES (?, ?, ?)').run(seasonId, id, teamId);
+      }
+    });
+  })();
+  publish(req, { type: 'reload' });
+  res.json(loadPlayers());
+});
+
+playersRouter.put('/:id', requirePermission('manage_roster'), (req, res) => {
+  const before = loadPlayer(req.params.id);
+  if (!before) return res.status(404).json({ error: 'Joueur introuvable' });
+  const input = parsePlayerInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  db.prepare(`UPDATE players SET first_name = @first_name, last_name = @last_name, jersey_number = @jersey_number,
+    position = @position, birth_date = @birth_date, height = @height, photo = @photo, hand = @hand, status = @status
+    WHERE id = @id`).run(playerParams(req.params.id, input));
+  const player = loadPlayer(req.params.id)!;
+  // A replayed edit changes nothing
+  if (JSON.stringify(player) !== JSON.stringify(before)) audit(req, 'update', 'player', playerName(player), before, player);
+  publish(req, { type: 'player', player });
+  res.json(player);
+});
+
+// Deletions go to the trash; the response carries the trash entry, for undo
+playersRouter.delete('/', requirePermission('manage_roster'), (req, res) => {
+  const players = loadPlayers();
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'players', `Effectif complet (${players.length} joueurs)`, playersSnapshot(players.map(p => p.id)));
+    players.forEach(p => audit(req, 'delete', 'player', playerName(p), p, null));
+    db.prepare('DELETE FROM players').run();
+    return id;
+  })();
+  publish(req, { type: 'reload' });
+  res.json({ trashId });
+});
+
+// Removing lines changes the games they belonged to. Returns their ids.
+function touchGamesOf(playerId: string) {
+  const ids = (db.prepare('SELECT DISTINCT game_id FROM stat_lines WHERE player_id = ?').all(playerId) as { game_id: string }[])
+    .map(r => r.game_id);
+  db.prepare('UPDATE games SET version = version + 1 WHERE id IN (SELECT game_id FROM stat_lines WHERE player_id = ?)').run(playerId);
+  return ids;
+}
+
+playersRouter.delete('/:id', requirePermission('manage_roster'), (req, res) => {
+  const player = loadPlayer(req.params.id);
+  if (!player) return res.status(404).json({ error: 'Joueur introuvable' });
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'player', playerName(player), playersSnapshot([player.id]));
+    audit(req, 'delete', 'player', playerName(player), player, null);
+    touchGamesOf(player.id);
+    db.prepare('DELETE FROM players WHERE id = ?').run(player.id);
+    return id;
+  })();
+  // Apps drop the player's lines themselves
+  publish(req, { type: 'player-deleted', id: player.id });
+  res.json({ trashId });
+});
+
+// Removes the player's line from one game; the game and other lines are kept.
+playersRouter.delete('/:id/matches/:gameId', requirePermission('edit_stats'), (req, res) => {
+  const game = loadGame(req.params.gameId);
+  const player = loadPlayer(req.params.id);
+  if (!game || !player || !game.lines.some(l => l.playerId === player.id)) {
+    return res.status(404).json({ error: 'Match introuvable' });
+  }
+  if (!checkVersion(game, req.query.version)) {
+    return res.status(409).json({ error: 'Ce match a été modifié sur un autre appareil', current: game });
+  }
+
+  const label = `${playerName(player)} · ${gameLabel(game)}`;
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'lines', label, linesSnapshot(player.id, game.id));
+    db.prepare('DELETE FROM stat_lines WHERE game_id = ? AND player_id = ?').run(game.id, player.id);
+    db.prepare('UPDATE games SET version = version + 1 WHERE id = ?').run(game.id);
+    audit(req, 'update', 'game', label, game, loadGame(game.id));
+    return id;
+  })();
+  publishGame(req, loadGame(game.id)!);
+  res.json({ trashId });
+});
+
+// Resets a player's stats: removes all of their lines but keeps the profile.
+playersRouter.delete('/:id/matches', requirePermission('edit_stats'), (req, res) => {
+  const player = loadPlayer(req.params.id);
+  if (!player) return res.status(404).json({ error: 'Joueur introuvable' });
+  const label = `Statistiques de ${playerName(player)}`;
+  const { trashId, gameIds } = db.transaction(() => {
+    const id = toTrash(req, 'lines', label, linesSnapshot(player.id));
+    const before = (db.prepare('SELECT DISTINCT game_id FROM stat_lines WHERE player_id = ?').all(player.id) as { game_id: string }[])
+      .map(r => loadGame(r.game_id)!);
+    const ids = touchGamesOf(player.id);
+    db.prepare('DELETE FROM stat_lines WHERE player_id = ?').run(player.id);
+    before.forEach(game => audit(req, 'update', 'game', label, game, loadGame(game.id)));
+    return { trashId: id, gameIds: ids };
+  })();
+  gameIds.forEach(id => publishGame(req, loadGame(id)!));
+  res.json({ trashId });
+});
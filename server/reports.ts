@@ -0,0 +1,146 @@
+import { Router, type Response } from 'express';
+import { requirePermission } from './auth';
+import { getProvider, type TextRequest } from './ai';
+import { loadGame, loadGames } from './games';
+import { loadPlayerInjuries } from './injuries';
+import { loadPlayer, loadPlayers } from './players';
+import { loadSeason } from './seasons';
+import { loadTeam } from './teams';
+import { analyzePlayer, formatPercentage, sumBoxScores } from '../src/analytics';
+import { canViewPlayer } from '../src/auth';
+import { percentage } from '../src/boxScore';
+import { buildPlayersData, gameResult, missedGames } from '../src/games';
+import { DNP_LABELS, openInjury } from '../src/injuries';
+import { playerAge, playerName, POSITION_LABELS } from '../src/players';
+import type { BoxScore, Game, Match, Player, Report, Season } from '../src/types';
+
+export const reportsRouter = Router();
+
+// Games listed one by one in a progress report
+const RECENT_GAMES = 5;
+
+const PLAYER_INSTRUCTIONS = `Tu es l'assistant des entraîneurs d'un club de basket-ball (IBAA).
+Rédige en français un rapport de progression sur le joueur à partir des statistiques fournies,
+en 150 à 250 mots : points forts, axes de progression, tendance sur les derniers matchs.
+Appuie-toi uniquement sur les chiffres donnés, n'invente aucune donnée.
+Ton bienveillant et concret, en texte brut sans Markdown.`;
+
+const GAME_INSTRUCTIONS = `Tu es l'assistant des entraîneurs d'un club de basket-ball (IBAA).
+Rédige en français le résumé d'après-match destiné au fil d'actualité du club, en 100 à 200 mots :
+le résultat, le déroulé que suggèrent les chiffres et les meilleures performances individuelles.
+Appuie-toi uniquement sur les chiffres donnés, n'invente aucune donnée (ni action, ni citation).
+Texte brut sans Markdown.`;
+
+const day = (date: string) => new Date(date).toLocaleDateString('fr-FR');
+const decimal = (value: number) => value.toFixed(1);
+
+const shooting = (label: string, made: number, attempted: number) =>
+  attempted > 0 ? `${label} ${made}/${attempted} (${formatPercentage(percentage(made, attempted))})` : null;
+
+// "18 PTS, 7 REB, 3 AST, FG 6/12 (50.0%), 28 MIN", leaving out empty figures
+function lineSummary(b: BoxScore) {
+  return [
+    `${b.points} PTS`,
+    `${b.rebounds} REB`,
+    `${b.assists} AST`,
+    b.steals > 0 && `${b.steals} STL`,
+    b.blocks > 0 && `${b.blocks} BLK`,
+    b.turnovers > 0 && `${b.turnovers} TOV`,
+    b.fouls > 0 && `${b.fouls} PF`,
+    shooting('FG', b.fieldGoalsMade, b.fieldGoalsAttempted),
+    shooting('3P', b.threePointersMade, b.threePointersAttempted),
+    shooting('LF', b.freeThrowsMade, b.freeThrowsAttempted),
+    b.minutes > 0 && `${b.minutes} MIN`,
+  ].filter(Boolean).join(', ');
+}
+
+const gameHeading = (game: { date: string, venue: Game['venue'], opponent: string }) =>
+  `${day(game.date)} ${game.venue === 'home' ? 'vs' : '@'} ${game.opponent || 'adversaire inconnu'}`;
+
+function playerPrompt(player: Player, matches: Match[], games: Game[], season: Season | null) {
+  const stats = analyzePlayer(matches, games);
+  const a = stats.averages;
+  const recent = analyzePlayer(matches.slice(-RECENT_GAMES)).averages;
+  const missed = missedGames(games, player.id);
+  const injury = openInjury(loadPlayerInjuries(player.id), player.id);
+
+  return [
+    `Joueur : ${playerName(player)}${[
+      player.jerseyNumber !== null && `#${player.jerseyNumber}`,
+      player.position && POSITION_LABELS[player.position],
+      player.birthDate && `${playerAge(player.birthDate)} ans`,
+    ].filter(Boolean).map(part => `, ${part}`).join('')}`,
+    `Période : ${season ? `saison ${season.name}` : 'carrière'}`,
+    `Matchs joués : ${stats.games}${missed.length > 0 ? ` (${missed.length} manqués)` : ''}`,
+    `Moyennes par match : ${decimal(a.points)} PTS, ${decimal(a.rebounds)} REB, ${decimal(a.assists)} AST, ${decimal(a.steals)} STL, ${decimal(a.blocks)} BLK, ${decimal(a.turnovers)} TOV, ${decimal(a.minutes)} MIN`,
+    `Adresse : ${[
+      shooting('FG', stats.totals.fieldGoalsMade, stats.totals.fieldGoalsAttempted),
+      shooting('3P', stats.totals.threePointersMade, stats.totals.threePointersAttempted),
+      shooting('LF', stats.totals.freeThrowsMade, stats.totals.freeThrowsAttempted),
+    ].filter(Boolean).join(', ') || 'non renseignée'}`,
+    `Efficacité : PIR ${decimal(stats.efficiency)}, TS% ${formatPercentage(stats.trueShooting)}`,
+    `Moyennes sur les ${Math.min(RECENT_GAMES, matches.length)} derniers matchs : ${decimal(recent.points)} PTS, ${decimal(recent.rebounds)} REB, ${decimal(recent.assists)} AST`,
+    'Derniers matchs :',
+    ...matches.slice(-RECENT_GAMES).reverse().map(m => `- ${gameHeading(m)} : ${lineSummary(m)}`),
+    ...(injury ? [`Blessure en cours : ${injury.bodyPart}${injury.expectedReturn ? `, retour prévu le ${day(injury.expectedReturn)}` : ''}`] : []),
+  ].join('\n');
+}
+
+function gamePrompt(game: Game) {
+  const players = new Map(loadPlayers().map(p => [p.id, p]));
+  const name = (id: string) => (players.has(id) ? playerName(players.get(id)!) : 'Joueur inconnu');
+  const played = game.lines.filter(l => !l.dnp).sort((a, b) => b.points - a.points);
+  const benched = game.lines.filter(l => l.dnp);
+  const result = gameResult(game);
+
+  return [
+    `Match : IBAA ${loadTeam(game.teamId)?.name ?? ''} ${game.venue === 'home' ? 'vs' : '@'} ${game.opponent || 'adversaire inconnu'} (${game.venue === 'home' ? 'domicile' : 'extérieur'})`,
+    `Date : ${day(game.date)}${game.competition ? `, ${game.competition}` : ''}`,
+    result
+      ? `Score : IBAA ${game.teamScore} - ${game.opponentScore} ${game.opponent || 'adversaire'} (${result === 'W' ? 'victoire' : result === 'L' ? 'défaite' : 'match nul'})`
+      : 'Score : non renseigné',
+    'Box score IBAA :',
+    ...played.map(l => `- ${name(l.playerId)} : ${lineSummary(l)}`),
+    `Total équipe : ${lineSummary(sumBoxScores(played))}`,
+    ...(benched.length > 0 ? [`N'ont pas joué : ${benched.map(l => `${name(l.playerId)} (${DNP_LABELS[l.dnp!]})`).join(', ')}`] : []),
+  ].join('\n');
+}
+
+async function sendReport(res: Response, title: string, request: TextRequest) {
+  const provider = getProvider();
+  if (!provider) return res.status(503).json({ error: 'Génération de rapports non configurée (GEMINI_API_KEY manquante)' });
+  try {
+    const text = await provider.generate(request);
+    const report: Report = { title, text, provider: provider.name, generatedAt: new Date().toISOString() };
+    res.json(report);
+  } catch (err) {
+    console.error('Report generation failed:', err);
+    res.status(502).json({ error: 'Le service de génération ne répond pas, réessayez plus tard' });
+  }
+}
+
+// Progress report over a season (`seasonId`) or the whole career. Players may
+// ask for their own, like their stats.
+reportsRouter.post('/player/:id', async (req, res) => {
+  const player = loadPlayer(req.params.id);
+  if (!player) return res.status(404).json({ error: 'Joueur introuvable' });
+  if (!canViewPlayer(req.user, player.id)) return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+  const season = req.body.seasonId ? loadSeason(String(req.body.seasonId)) : null;
+  if (req.body.seasonId && !season) return res.status(400).json({ error: 'Saison inconnue' });
+
+  const games = loadGames().filter(g => !season || g.seasonId === season.id);
+  const matches = buildPlayersData([player], games)[player.id];
+  if (matches.length === 0) return res.status(400).json({ error: 'Aucun match joué sur la période' });
+  await sendReport(res, `Rapport de progression · ${playerName(player)}`, {
+    instructions: PLAYER_INSTRUCTIONS,
+    prompt: playerPrompt(player, matches, games, season),
+  });
+});
+
+// Recap of a game from its box score, to post on the feed
+reportsRouter.post('/game/:id', requirePermission('view_all_stats'), async (req, res) => {
+  const game = loadGame(req.params.id);
+  if (!game) return res.status(404).json({ error: 'Match introuvable' });
+  if (!game.lines.some(l => !l.dnp)) return res.status(400).json({ error: 'Aucune statistique pour ce match' });
+  await sendReport(res, `Résumé · ${gameHeading(game)}`, { instructions: GAME_INSTRUCTIONS, prompt: gamePrompt(game) });
+});
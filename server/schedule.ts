@@ -0,0 +1,165 @@
+import { randomBytes } from 'crypto';
+import { Router } from 'express';
+import { clientId, db } from './db';
+import { requirePermission } from './auth';
+import { notifySchedule } from './notifications';
+import { loadTeam, loadTeams } from './teams';
+import { eventSnapshot, toTrash } from './trash';
+import { parseScheduleEventInput, scheduleTitle, toIcs } from '../src/schedule';
+import type { ScheduleEvent, ScheduleEventInput } from '../src/types';
+
+export const scheduleRouter = Router();
+
+// Public: calendar apps cannot sign in, the secret token in the URL stands
+// for the account
+export const calendarRouter = Router();
+
+interface ScheduleRow {
+  id: string;
+  team_id: string | null;
+  kind: ScheduleEvent['kind'];
+  title: string;
+  date: string;
+  time: string | null;
+  duration: number | null;
+  location: string;
+  opponent: string;
+  venue: ScheduleEvent['venue'];
+  competition: string;
+  notes: string;
+  game_id: string | null;
+}
+
+function toScheduleEvent(row: ScheduleRow): ScheduleEvent {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    kind: row.kind,
+    title: row.title,
+    date: row.date,
+    time: row.time,
+    duration: row.duration,
+    location: row.location,
+    opponent: row.opponent,
+    venue: row.venue,
+    competition: row.competition,
+    notes: row.notes,
+    gameId: row.game_id,
+  };
+}
+
+export function loadSchedule(): ScheduleEvent[] {
+  return (db.prepare('SELECT * FROM schedule_events ORDER BY date, time, rowid').all() as ScheduleRow[]).map(toScheduleEvent);
+}
+
+export function loadScheduleEvent(id: string): ScheduleEvent | null {
+  const row = db.prepare('SELECT * FROM schedule_events WHERE id = ?').get(id) as ScheduleRow | undefined;
+  return row ? toScheduleEvent(row) : null;
+}
+
+const toParams = (id: string, event: ScheduleEventInput) => ({
+  id,
+  team_id: event.teamId,
+  kind: event.kind,
+  title: event.title,
+  date: event.date,
+  time: event.time,
+  duration: event.duration,
+  location: event.location,
+  opponent: event.opponent,
+  venue: event.venue,
+  competition: event.competition,
+  notes: event.notes,
+});
+
+// Marks a scheduled game as played, once its stats are saved
+export function linkScheduledGame(id: string, gameId: string) {
+  db.prepare("UPDATE schedule_events SET game_id = ? WHERE id = ? AND kind = 'game'").run(gameId, id);
+}
+
+// Checks the scheduled game that stats are being entered for, if any
+export function checkScheduledGame(id: unknown): string | null {
+  if (id === undefined || id === null || id === '') return null;
+  const event = loadScheduleEvent(String(id));
+  if (!event || event.kind !== 'game') return 'Match prévu introuvable';
+  if (event.gameId) return 'Les statistiques de ce match sont déjà saisies';
+  return null;
+}
+
+function parseInput(body: any): ScheduleEventInput | string {
+  const input = parseScheduleEventInput(body);
+  if (typeof input === 'string') return input;
+  if (input.teamId !== null && !loadTeam(input.teamId)) return 'Catégorie inconnue';
+  return input;
+}
+
+scheduleRouter.get('/', (_req, res) => {
+  res.json(loadSchedule());
+});
+
+// Secret URL of the account's calendar feed, created on first use
+scheduleRouter.get('/feed', (req, res) => {
+  const row = db.prepare('SELECT calendar_token FROM users WHERE id = ?').get(req.user!.id) as { calendar_token: string | null };
+  let token = row.calendar_token;
+  if (!token) {
+    token = randomBytes(24).toString('hex');
+    db.prepare('UPDATE users SET calendar_token = ? WHERE id = ?').run(token, req.user!.id);
+  }
+  res.json({ token });
+});
+
+// Revokes the feed secret: subscriptions using the old URL stop updating and
+// the next request for the feed creates a new one
+scheduleRouter.delete('/feed', (req, res) => {
+  db.prepare('UPDATE users SET calendar_token = NULL WHERE id = ?').run(req.user!.id);
+  res.status(204).end();
+});
+
+scheduleRouter.post('/', requirePermission('manage_schedule'), (req, res) => {
+  const input = parseInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  const id = clientId(req.body.id);
+  const existing = loadScheduleEvent(id);
+  if (existing) return res.json(existing);
+
+  db.prepare(`INSERT INTO schedule_events (id, team_id, kind, title, date, time, duration, location, opponent, venue, competition, notes, created_at)
+    VALUES (@id, @team_id, @kind, @title, @date, @time, @duration, @location, @opponent, @venue, @competition, @notes, @created_at)`)
+    .run({ ...toParams(id, input), created_at: new Date().toISOString() });
+  const event = loadScheduleEvent(id)!;
+  notifySchedule(req, event, 'created');
+  res.status(201).json(event);
+});
+
+scheduleRouter.put('/:id', requirePermission('manage_schedule'), (req, res) => {
+  if (!loadScheduleEvent(req.params.id)) return res.status(404).json({ error: 'Rendez-vous introuvable' });
+  const input = parseInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+
+  db.prepare(`UPDATE schedule_events SET team_id = @team_id, kind = @kind, title = @title, date = @date, time = @time,
+    duration = @duration, location = @location, opponent = @opponent, venue = @venue, competition = @competition, notes = @notes
+    WHERE id = @id`).run(toParams(req.params.id, input));
+  const event = loadScheduleEvent(req.params.id)!;
+  notifySchedule(req, event, 'updated');
+  res.json(event);
+});
+
+scheduleRouter.delete('/:id', requirePermission('manage_schedule'), (req, res) => {
+  const event = loadScheduleEvent(req.params.id);
+  if (!event) return res.status(404).json({ error: 'Rendez-vous introuvable' });
+  const label = `${scheduleTitle(event, loadTeams())} (${new Date(event.date).toLocaleDateString('fr-FR')})`;
+  const trashId = db.transaction(() => {
+    const id = toTrash(req, 'event', label, eventSnapshot(event.id));
+    db.prepare('DELETE FROM schedule_events WHERE id = ?').run(event.id);
+    return id;
+  })();
+  notifySchedule(req, event, 'deleted');
+  // The trash entry, for the app's undo button
+  res.json({ trashId });
+});
+
+calendarRouter.get('/:token.ics', (req, res) => {
+  const user = db.prepare('SELECT id FROM users WHERE calendar_token = ?').get(req.params.token);
+  if (!user) return res.status(404).json({ error: 'Calendrier introuvable' });
+  res.type('text/calendar; charset=utf-8').send(toIcs(loadSchedule(), loadTeams(), 'IBAA'));
+});
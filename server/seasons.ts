@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import { db, newId } from './db';
+import { requirePermission } from './auth';
+import { publish } from './events';
+import { loadPlayer } from './players';
+import { loadTeam } from './teams';
+import { parseSeasonInput } from '../src/seasons';
+import type { RosterEntry, Season, SeasonInput } from '../src/types';
+
+export const seasonsRouter = Router();
+
+interface SeasonRow {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface RosterRow {
+  season_id: string;
+  player_id: string;
+  team_id: string;
+}
+
+function toSeason(row: SeasonRow, roster: RosterRow[]): Season {
+  return {
+    id: row.id,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    roster: roster.map((r): RosterEntry => ({ playerId: r.player_id, teamId: r.team_id })),
+  };
+}
+
+export function loadSeasons(): Season[] {
+  const rows = db.prepare('SELECT * FROM seasons ORDER BY start_date').all() as SeasonRow[];
+  const roster = db.prepare('SELECT * FROM season_players ORDER BY rowid').all() as RosterRow[];
+  return rows.map(row => toSeason(row, roster.filter(r => r.season_id === row.id)));
+}
+
+export function loadSeason(id: string): Season | null {
+  const row = db.prepare('SELECT * FROM seasons WHERE id = ?').get(id) as SeasonRow | undefined;
+  if (!row) return null;
+  return toSeason(row, db.prepare('SELECT * FROM season_players WHERE season_id = ? ORDER BY rowid').all(id) as RosterRow[]);
+}
+
+// Season with the same name (ignoring case), used to merge imported seasons
+export function findSeasonByName(name: string): Season | null {
+  const row = db.prepare('SELECT id FROM seasons WHERE name = ?').get(name) as { id: string } | undefined;
+  return row ? loadSeason(row.id) : null;
+}
+
+export function insertSeason(id: string, season: SeasonInput) {
+  db.prepare('INSERT INTO seasons (id, name, start_date, end_date, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(id, season.name, season.startDate, season.endDate, new Date().toISOString());
+}
+
+// Registers the player with a team for the season, or moves them to it
+export function setRosterEntry(seasonId: string, playerId: string, teamId: string) {
+  db.prepare(`INSERT INTO season_players (season_id, player_id, team_id) VALUES (?, ?, ?)
+    ON CONFLICT (season_id, player_id) DO UPDATE SET team_id = excluded.team_id`).run(seasonId, playerId, teamId);
+}
+
+seasonsRouter.get('/', (_req, res) => {
+  res.json(loadSeasons());
+});
+
+// Opens a season. With `copyFrom`, players still at the club keep their team
+// from that season; their stats stay attached to the season they were made in.
+seasonsRouter.post('/', requirePermission('manage_roster'), (req, res) => {
+  const input = parseSeasonInput(req.body);
+  if (typeof input === 'string') return res.status(400).json({ error: input });
+  if (findSeasonByName(input.name)) return res.status(409).json({ error: 'Cette saison existe déjà' });
+  if (req.body.copyFrom && !loadSeason(req.body.copyFrom)) return res.status(404).json({ error: 'Saison introuvable' });
+
+  const id = newId();
+  db.transaction(() => {
+    insertSeason(id, input);
+    if (req.body.copyFrom) {
+      db.prepare(`INSERT INTO season_players (season_id, player_id, team_id)
+        SELECT ?, sp.player_id, sp.team_id FROM season_players sp JOIN players p ON p.id = sp.player_id
+        WHERE sp.season_id = ? AND p.status != 'left'`).run(id, req.body.copyFrom);
+    }
+  })();
+  const season = loadSeason(id)!;
+  publish(req, { type: 'season', season });
+  res.status(201).json(season);
+});
+
+seasonsRouter.put('/:id/roster/:playerId', requirePermission('manage_roster'), (req, res) => {
+  if (!loadSeason(req.params.id)) return res.status(404).json({ error: 'Saison introuvable' });
+  if (!loadPlayer(req.params.playerId)) return res.status(404).json({ error: 'Joueur introuvable' });
+  if (!loadTeam(String(req.body.teamId ?? ''))) return res.status(400).json({ error: 'Catégorie inconnue' });
+
+  setRosterEntry(req.params.id, req.params.playerId, req.body.teamId);
+  const season = loadSeason(req.params.id)!;
+  publish(req, { type: 'season', season });
+  res.json(season);
+});
+
+// Takes the player off the season's roster; games they played are kept
+seasonsRouter.delete('/:id/roster/:playerId', requirePermission('manage_roster'), (req, res) => {
+  if (!loadSeason(req.params.id)) return res.status(404).json({ error: 'Saison introuvable' });
+  db.prepare('DELETE FROM season_players WHERE season_id = ? AND player_id = ?').run(req.params.id, req.params.playerId);
+  const season = loadSeason(req.params.id)!;
+  publish(req, { type: 'season', season });
+  res.json(season);
+});
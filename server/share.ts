@@ -0,0 +1,103 @@
+import { randomBytes } from 'crypto';
+import { Router } from 'express';
+import { db } from './db';
+import { requirePermission } from './auth';
+import { loadGames } from './games';
+import { loadPlayers } from './players';
+import { loadSeason } from './seasons';
+import { loadTeam } from './teams';
+import { can } from '../src/auth';
+import type { PublicTeam, ShareLink } from '../src/types';
+
+// Share links and the players' opt-out, for signed-in accounts
+export const shareRouter = Router();
+
+// Public: families and fans have no account, the secret token in the URL
+// stands for the link
+export const publicRouter = Router();
+
+interface ShareLinkRow {
+  token: string;
+  season_id: string;
+  team_id: string;
+  created_at: string;
+}
+
+const toShareLink = (row: ShareLinkRow): ShareLink => ({
+  token: row.token,
+  seasonId: row.season_id,
+  teamId: row.team_id,
+  createdAt: row.created_at,
+});
+
+function loadShareLink(token: string): ShareLink | null {
+  const row = db.prepare('SELECT * FROM share_links WHERE token = ?').get(token) as ShareLinkRow | undefined;
+  return row ? toShareLink(row) : null;
+}
+
+const hiddenPlayers = () =>
+  (db.prepare('SELECT player_id FROM public_opt_outs').all() as { player_id: string }[]).map(r => r.player_id);
+
+shareRouter.get('/links', requirePermission('manage_roster'), (_req, res) => {
+  res.json((db.prepare('SELECT * FROM share_links ORDER BY created_at').all() as ShareLinkRow[]).map(toShareLink));
+});
+
+shareRouter.post('/links', requirePermission('manage_roster'), (req, res) => {
+  const { seasonId, teamId } = req.body;
+  if (!loadSeason(String(seasonId ?? '')) || !loadTeam(String(teamId ?? ''))) {
+    return res.status(400).json({ error: 'Saison ou catégorie inconnue' });
+  }
+  const token = randomBytes(24).toString('hex');
+  db.prepare('INSERT INTO share_links (token, season_id, team_id, created_by, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(token, seasonId, teamId, req.user!.id, new Date().toISOString());
+  res.status(201).json(loadShareLink(token));
+});
+
+// Revoking a link makes its pages unreachable at once
+shareRouter.delete('/links/:token', requirePermission('manage_roster'), (req, res) => {
+  db.prepare('DELETE FROM share_links WHERE token = ?').run(req.params.token);
+  res.status(204).end();
+});
+
+// Players left out of the public pages
+shareRouter.get('/hidden', (_req, res) => {
+  res.json(hiddenPlayers());
+});
+
+// Coaches decide for the roster; a player account decides for itself
+shareRouter.put('/hidden/:playerId', (req, res) => {
+  const playerId = req.params.playerId;
+  if (!can(req.user, 'manage_roster') && req.user!.playerId !== playerId) {
+    return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+  }
+  if (!db.prepare('SELECT 1 FROM players WHERE id = ?').get(playerId)) return res.status(404).json({ error: 'Joueur introuvable' });
+  if (req.body.hidden) db.prepare('INSERT OR IGNORE INTO public_opt_outs (player_id) VALUES (?)').run(playerId);
+  else db.prepare('DELETE FROM public_opt_outs WHERE player_id = ?').run(playerId);
+  res.json(hiddenPlayers());
+});
+
+// The team's players for the season (registered or who played for it) and
+// its games, without what the public must not see
+publicRouter.get('/:token', (req, res) => {
+  const link = loadShareLink(req.params.token);
+  const season = link && loadSeason(link.seasonId);
+  const team = link && loadTeam(link.teamId);
+  if (!link || !season || !team) return res.status(404).json({ error: 'Lien de partage introuvable ou révoqué' });
+
+  const hidden = new Set(hiddenPlayers());
+  const games = loadGames().filter(g => g.seasonId === season.id && g.teamId === team.id);
+  const ids = new Set([
+    ...season.roster.filter(r => r.teamId === team.id).map(r => r.playerId),
+    ...games.flatMap(g => g.lines.filter(l => !l.dnp).map(l => l.playerId)),
+  ]);
+  const players = loadPlayers().filter(p => ids.has(p.id) && !hidden.has(p.id));
+  const shown = new Set(players.map(p => p.id));
+
+  const page: PublicTeam = {
+    team: team.name,
+    season: season.name,
+    players: players.map(({ id, firstName, lastName, jerseyNumber, position, photo }) => ({ id, firstName, lastName, jerseyNumber, position, photo })),
+    games: games.map(g => ({ ...g, lines: g.lines.filter(l => !l.dnp && shown.has(l.playerId)) })),
+  };
+  res.json(page);
+});
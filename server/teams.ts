@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { db, newId } from './db';
+import { requirePermission } from './auth';
+import type { Team } from '../src/types';
+
+export const teamsRouter = Router();
+
+export function loadTeams(): Team[] {
+  return db.prepare('SELECT id, name FROM teams ORDER BY created_at, rowid').all() as Team[];
+}
+
+export function loadTeam(id: string): Team | null {
+  return (db.prepare('SELECT id, name FROM teams WHERE id = ?').get(id) as Team | undefined) ?? null;
+}
+
+// Team with the same name (ignoring case), used to merge imported categories
+export function findTeamByName(name: string): Team | null {
+  return (db.prepare('SELECT id, name FROM teams WHERE name = ?').get(name) as Team | undefined) ?? null;
+}
+
+export function insertTeam(id: string, name: string) {
+  db.prepare('INSERT INTO teams (id, name, created_at) VALUES (?, ?, ?)').run(id, name, new Date().toISOString());
+}
+
+teamsRouter.get('/', (_req, res) => {
+  res.json(loadTeams());
+});
+
+teamsRouter.post('/', requirePermission('manage_roster'), (req, res) => {
+  const name = String(req.body.name ?? '').trim();
+  if (!name) return res.status(400).json({ error: 'Nom de la catégorie requis' });
+  if (findTeamByName(name)) return res.status(409).json({ error: 'Cette catégorie existe déjà' });
+
+  const id = newId();
+  insertTeam(id, name);
+  res.status(201).json(loadTeam(id));
+});
+
+teamsRouter.put('/:id', requirePermission('manage_roster'), (req, res) => {
+  if (!loadTeam(req.params.id)) return res.status(404).json({ error: 'Catégorie introuvable' });
+  const name = String(req.body.name ?? '').trim();
+  if (!name) return res.status(400).json({ error: 'Nom de la catégorie requis' });
+  const existing = findTeamByName(name);
+  if (existing && existing.id !== req.params.id) return res.status(409).json({ error: 'Cette catégorie existe déjà' });
+
+  db.prepare('UPDATE teams SET name = ? WHERE id = ?').run(name, req.params.id);
+  res.json(loadTeam(req.params.id));
+});
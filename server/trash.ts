@@ -0,0 +1,242 @@
+import { Router, type Request } from 'express';
+import { db, newId } from './db';
+import { requirePermission } from './auth';
+import { audit } from './audit';
+import { publish } from './events';
+import { loadGame } from './games';
+import { loadPlayer } from './players';
+import { can } from '../src/auth';
+import { TRASH_PERMISSIONS } from '../src/audit';
+import { playerName } from '../src/players';
+import type { TrashEntry, TrashKind } from '../src/types';
+
+export const trashRouter = Router();
+
+// Deleted items can be restored for this long
+const TRASH_DAYS = 30;
+
+// The rows a deletion removed, table by table, and the references it cleared
+// (ON DELETE SET NULL) that a restore puts back
+interface Snapshot {
+  rows: Record<string, Record<string, unknown>[]>;
+  links: { table: 'users' | 'schedule_events', column: 'player_id' | 'game_id', id: string, value: string }[];
+  // State wiped by a replacing import: restoring it replaces the current data
+  // (see replacedSnapshot), instead of adding to it
+  replaces?: { messages: boolean };
+}
+
+// Parents first, so that restored rows find what they reference
+const RESTORE_ORDER = [
+  'teams', 'seasons', 'players', 'games', 'season_players', 'schedule_events', 'stat_lines', 'game_events', 'attendance', 'injuries',
+  'player_follows', 'public_opt_outs', 'share_links', 'messages', 'message_edits', 'message_reactions',
+];
+
+const rowsWhere = (table: string, column: string, ids: string[]) =>
+  db.prepare(`SELECT * FROM ${table} WHERE ${column} IN (SELECT value FROM json_each(?))`).all(JSON.stringify(ids)) as
+    Record<string, unknown>[];
+
+function merge(...snapshots: Snapshot[]): Snapshot {
+  const rows: Snapshot['rows'] = {};
+  snapshots.forEach(s => Object.entries(s.rows).forEach(([table, list]) => {
+    rows[table] = [...(rows[table] ?? []), ...list];
+  }));
+  return { rows, links: snapshots.flatMap(s => s.links) };
+}
+
+// Players with everything that goes when they are deleted
+export function playersSnapshot(ids: string[]): Snapshot {
+  const rows: Snapshot['rows'] = { players: rowsWhere('players', 'id', ids) };
+  ['season_players', 'stat_lines', 'attendance', 'injuries', 'player_follows', 'public_opt_outs'].forEach(table => {
+    rows[table] = rowsWhere(table, 'player_id', ids);
+  });
+  const accounts = rowsWhere('users', 'player_id', ids) as { id: string, player_id: string }[];
+  return { rows, links: accounts.map(a => ({ table: 'users', column: 'player_id', id: a.id, value: a.player_id })) };
+}
+
+// Games with their lines and play-by-play
+export function gamesSnapshot(ids: string[]): Snapshot {
+  const events = rowsWhere('schedule_events', 'game_id', ids) as { id: string, game_id: string }[];
+  return {
+    rows: { games: rowsWhere('games', 'id', ids), stat_lines: rowsWhere('stat_lines', 'game_id', ids), game_events: rowsWhere('game_events', 'game_id', ids) },
+    links: events.map(e => ({ table: 'schedule_events', column: 'game_id', id: e.id, value: e.game_id })),
+  };
+}
+
+// Some lines of a player, e.g. before a stats reset
+export function linesSnapshot(playerId: string, gameId?: string): Snapshot {
+  const lines = rowsWhere('stat_lines', 'player_id', [playerId]);
+  return { rows: { stat_lines: gameId ? lines.filter(l => l.game_id === gameId) : lines }, links: [] };
+}
+
+// A schedule entry with its attendance sheet
+export const eventSnapshot = (id: string): Snapshot => ({
+  rows: { schedule_events: rowsWhere('schedule_events', 'id', [id]), attendance: rowsWhere('attendance', 'event_id', [id]) },
+  links: [],
+});
+
+export const injurySnapshot = (id: string): Snapshot => ({ rows: { injuries: rowsWhere('injuries', 'id', [id]) }, links: [] });
+
+// A message with the replies under it, their earlier versions and reactions.
+// The deleted message comes first, each reply after the one it answers.
+export function messageSnapshot(id: string): Snapshot {
+  const thread = db.prepare(`WITH RECURSIVE thread (id, depth) AS (
+      SELECT ?, 0 UNION ALL SELECT m.id, t.depth + 1 FROM messages m JOIN thread t ON m.parent_id = t.id
+    ) SELECT m.* FROM messages m JOIN thread t ON t.id = m.id ORDER BY t.depth, m.timestamp`).all(id) as Record<string, unknown>[];
+  const ids = thread.map(m => m.id as string);
+  return {
+    rows: { messages: thread, message_edits: rowsWhere('message_edits', 'message_id', ids), message_reactions: rowsWhere('message_reactions', 'message_id', ids) },
+    links: [],
+  };
+}
+
+export const everythingSnapshot = () => merge(
+  gamesSnapshot((db.prepare('SELECT id FROM games').all() as { id: string }[]).map(r => r.id)),
+  playersSnapshot((db.prepare('SELECT id FROM players').all() as { id: string }[]).map(r => r.id)),
+);
+
+const all = (sql: string) => db.prepare(sql).all() as Record<string, unknown>[];
+
+// What a replacing import wipes: on top of players and games, the seasons and
+// categories with the schedule and share links that go with them, and the
+// messages when the backup brings its own
+export function replacedSnapshot(messages: boolean): Snapshot {
+  const events = all('SELECT * FROM schedule_events WHERE team_id IS NOT NULL');
+  const setup: Snapshot = {
+    rows: {
+      teams: all('SELECT * FROM teams'),
+      seasons: all('SELECT * FROM seasons'),
+      share_links: all('SELECT * FROM share_links'),
+      schedule_events: events,
+      attendance: rowsWhere('attendance', 'event_id', events.map(e => e.id as string)),
+    },
+    links: [],
+  };
+  const feed: Snapshot = {
+    rows: messages ? {
+      // Threads first, so that replies find the message they answer
+      messages: all('SELECT * FROM messages ORDER BY parent_id IS NOT NULL, rowid'),
+      message_edits: all('SELECT * FROM message_edits'),
+      message_reactions: all('SELECT * FROM message_reactions'),
+    } : {},
+    links: [],
+  };
+  return { ...merge(everythingSnapshot(), setup, feed), replaces: { messages } };
+}
+
+// Empties what replacedSnapshot keeps
+export function wipeForReplace(messages: boolean) {
+  db.prepare('DELETE FROM games').run();
+  db.prepare('DELETE FROM players').run();
+  db.prepare('DELETE FROM seasons').run();
+  db.prepare('DELETE FROM teams').run();
+  if (messages) db.prepare('DELETE FROM messages').run();
+}
+
+// Keeps what is about to be deleted; call before deleting, in the same
+// transaction. Returns the id of the trash entry, for the app's undo button.
+export function toTrash(req: Request, kind: TrashKind, label: string, snapshot: Snapshot) {
+  const id = newId();
+  const cutoff = new Date(Date.now() - TRASH_DAYS * 24 * 3600 * 1000).toISOString();
+  db.prepare('DELETE FROM trash WHERE deleted_at < ?').run(cutoff);
+  db.prepare('INSERT INTO trash (id, kind, label, data, deleted_by, deleted_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(id, kind, label, JSON.stringify(snapshot), req.user!.displayName, new Date().toISOString());
+  return id;
+}
+
+// Puts the rows back. Rows that already exist again (a player re-created
+// with the same id, a line entered since) are kept as they are, and rows
+// whose game or season has been deleted since are skipped. A replaced state
+// first sends the current data to the trash, then takes its place.
+function restore(req: Request, snapshot: Snapshot) {
+  if (snapshot.replaces) {
+    const { messages } = snapshot.replaces;
+    toTrash(req, 'system', 'Données remplacées par une restauration', replacedSnapshot(messages));
+    wipeForReplace(messages);
+  }
+  const insert = (table: string, row: Record<string, unknown>) => {
+    const columns = Object.keys(row);
+    try {
+      db.prepare(`INSERT OR IGNORE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`).run(row);
+    } catch (err) {
+      if ((err as { code?: string }).code !== 'SQLITE_CONSTRAINT_FOREIGNKEY') throw err;
+    }
+  };
+  RESTORE_ORDER.forEach(table => (snapshot.rows[table] ?? []).forEach(row => insert(table, row)));
+  snapshot.links.forEach(link => {
+    db.prepare(`UPDATE ${link.table} SET ${link.column} = ? WHERE id = ? AND ${link.column} IS NULL AND EXISTS
+      (SELECT 1 FROM ${link.column === 'player_id' ? 'players' : 'games'} WHERE id = ?)`).run(link.value, link.id, link.value);
+  });
+  // Games whose lines changed must not match the version offline apps saw
+  const touched = [...new Set((snapshot.rows.stat_lines ?? []).map(l => l.game_id as string))];
+  db.prepare('UPDATE games SET version = version + 1 WHERE id IN (SELECT value FROM json_each(?))').run(JSON.stringify(touched));
+}
+
+interface TrashRow {
+  id: string;
+  kind: TrashKind;
+  label: string;
+  data: string;
+  deleted_by: string;
+  deleted_at: string;
+}
+
+const toTrashEntry = (row: TrashRow): TrashEntry => ({
+  id: row.id,
+  kind: row.kind,
+  label: row.label,
+  deletedAt: row.deleted_at,
+  deletedBy: row.deleted_by,
+});
+
+const loadTrashRow = (id: string) => db.prepare('SELECT * FROM trash WHERE id = ?').get(id) as TrashRow | undefined;
+
+// The permission of the deletion, or for a message, being its author: authors
+// may delete their own messages, and so undo that
+function mayHandle(req: Request, row: TrashRow) {
+  if (can(req.user, TRASH_PERMISSIONS[row.kind])) return true;
+  const snapshot: Snapshot = JSON.parse(row.data);
+  return row.kind === 'message' && snapshot.rows.messages?.[0]?.user_id === req.user!.id;
+}
+
+// Restoring and emptying only need the permission of the deletion, so that
+// the undo button works for everyone who can delete
+trashRouter.get('/', requirePermission('view_audit'), (_req, res) => {
+  res.json((db.prepare('SELECT * FROM trash ORDER BY deleted_at DESC').all() as TrashRow[]).map(toTrashEntry));
+});
+
+trashRouter.post('/:id/restore', (req, res) => {
+  const row = loadTrashRow(req.params.id);
+  if (!row) return res.status(404).json({ error: 'Élément introuvable dans la corbeille' });
+  if (!mayHandle(req, row)) return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+
+  const snapshot: Snapshot = JSON.parse(row.data);
+  db.transaction(() => {
+    const lineGames = [...new Set((snapshot.rows.stat_lines ?? []).map(l => l.game_id as string))];
+    const before = lineGames.map(loadGame);
+    restore(req, snapshot);
+    db.prepare('DELETE FROM trash WHERE id = ?').run(row.id);
+
+    const restoredId = (table: string) => (snapshot.rows[table]?.[0]?.id as string | undefined) ?? '';
+    if (row.kind === 'player') audit(req, 'restore', 'player', row.label, null, loadPlayer(restoredId('players')));
+    else if (row.kind === 'game') audit(req, 'restore', 'game', row.label, null, loadGame(restoredId('games')));
+    else if (row.kind === 'players') {
+      (snapshot.rows.players ?? []).forEach(p => {
+        const player = loadPlayer(p.id as string);
+        if (player) audit(req, 'restore', 'player', playerName(player), null, player);
+      });
+    } else if (row.kind === 'lines') lineGames.forEach((id, i) => before[i] && audit(req, 'restore', 'game', row.label, before[i], loadGame(id)));
+    else if (row.kind === 'system') audit(req, 'restore', 'system', row.label, null, null);
+    // Schedule entries, injuries and messages are not in the history
+  })();
+  publish(req, { type: 'reload' });
+  res.status(204).end();
+});
+
+// Empties one entry for good
+trashRouter.delete('/:id', (req, res) => {
+  const row = loadTrashRow(req.params.id);
+  if (!row) return res.status(404).json({ error: 'Élément introuvable dans la corbeille' });
+  if (!mayHandle(req, row)) return res.status(403).json({ error: 'Action non autorisée pour votre rôle' });
+  db.prepare('DELETE FROM trash WHERE id = ?').run(row.id);
+  res.status(204).end();
+});
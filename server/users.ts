@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { db, newId } from './db';
+import { bearerToken, hashPassword, toUser, validatePassword, type UserRow } from './auth';
+import { loadPlayer } from './players';
+import { ROLES } from '../src/auth';
+import { playerName } from '../src/players';
+import type { Player, Role, User } from '../src/types';
+
+export const usersRouter = Router();
+
+function loadUsers(): User[] {
+  return (db.prepare('SELECT * FROM users ORDER BY username').all() as UserRow[]).map(toUser);
+}
+
+function loadUser(id: string): User | null {
+  const row = db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+// Checks role and linked player; a 'player' account must be linked to a roster entry.
+function parseAccess(body: { role?: unknown, playerId?: unknown }, current?: User): {
+  error?: string, role?: Role, player?: Player | null
+} {
+  const role = (body.role ?? current?.role) as Role;
+  if (!ROLES.includes(role)) return { error: 'Rôle invalide' };
+  if (role !== 'player') return { role, player: null };
+
+  const playerId = body.playerId === undefined ? current?.playerId : body.playerId;
+  if (typeof playerId !== 'string' || !playerId) return { error: 'Un compte joueur doit être lié à un profil du roster' };
+  const player = loadPlayer(playerId);
+  if (!player) return { error: 'Joueur introuvable' };
+  return { role, player };
+}
+
+usersRouter.get('/', (_req, res) => {
+  res.json(loadUsers());
+});
+
+usersRouter.post('/', (req, res) => {
+  const username = String(req.body.username ?? '').trim();
+  if (!username) return res.status(400).json({ error: "Nom d'utilisateur requis" });
+  const passwordError = validatePassword(req.body.password);
+  if (passwordError) return res.status(400).json({ error: passwordError });
+  const access = parseAccess(req.body);
+  if (access.error) return res.status(400).json({ error: access.error });
+  if (db.prepare('SELECT 1 FROM users WHERE username = ?').get(username)) {
+    return res.status(409).json({ error: "Ce nom d'utilisateur est déjà pris" });
+  }
+
+  const user: User = {
+    id: newId(),
+    username,
+    displayName: String(req.body.displayName ?? '').trim() || (access.player ? playerName(access.player) : username),
+    role: access.role!,
+    playerId: access.player?.id ?? null,
+  };
+  db.prepare(`INSERT INTO users (id, username, display_name, password_hash, role, player_id, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)`)
+    .run(user.id, user.username, user.displayName, hashPassword(req.body.password), user.role, user.playerId, new Date().toISOString());
+  res.status(201).json(user);
+});
+
+// Updates role, linked player, display name and/or password. An administrator
+// cannot change their own role, so there is always one left.
+usersRouter.put('/:id', (req, res) => {
+  const current = loadUser(req.params.id);
+  if (!current) return res.status(404).json({ error: 'Utilisateur introuvable' });
+  const access = parseAccess(req.body, current);
+  if (access.error) return res.status(400).json({ error: access.error });
+  if (current.id === req.user!.id && access.role !== current.role) {
+    return res.status(400).json({ error: 'Vous ne pouvez pas modifier votre propre rôle' });
+  }
+  if (req.body.password !== undefined) {
+    const passwordError = validatePassword(req.body.password);
+    if (passwordError) return res.status(400).json({ error: passwordError });
+  }
+
+  const displayName = String(req.body.displayName ?? '').trim() || current.displayName;
+  db.transaction(() => {
+    db.prepare('UPDATE users SET display_name = ?, role = ?, player_id = ? WHERE id = ?')
+      .run(displayName, access.role, access.player?.id ?? null, current.id);
+    if (req.body.password !== undefined) {
+      db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(hashPassword(req.body.password), current.id);
+      // A new password signs the account out everywhere else
+      db.prepare('DELETE FROM sessions WHERE user_id = ? AND token != ?').run(current.id, bearerToken(req));
+    }
+  })();
+  res.json(loadUser(current.id));
+});
+
+usersRouter.delete('/:id', (req, res) => {
+  if (req.params.id === req.user!.id) return res.status(400).json({ error: 'Vous ne pouvez pas supprimer votre propre compte' });
+  const { changes } = db.prepare('DELETE FROM users WHERE id = ?').run(req.params.id);
+  if (!changes) return res.status(404).json({ error: 'Utilisateur introuvable' });
+  res.status(204).end();
+});
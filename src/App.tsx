@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Trophy, 
   Plus, 
@@ -12,6 +12,10 @@ import {
   TrendingDown, 
   Minus, 
   Calendar, 
+  CalendarDays,
+  ClipboardCheck,
+  Link,
+  MapPin,
   BarChart2,
   ChevronRight,
   ArrowRight,
@@ -22,7 +26,19 @@ import {
   MessageSquare,
   Send,
   Download,
+  FileText,
   Share2,
+  Pencil,
+  Pin,
+  Reply,
+  Timer,
+  Database,
+  Upload,
+  CloudOff,
+  Shield,
+  Sparkles,
+  History,
+  RotateCcw,
   X
 } from 'lucide-react';
 import { 
@@ -31,263 +47,1301 @@ import {
   CartesianGrid, 
   Tooltip, 
   ResponsiveContainer,
-  AreaChart,
-  Area
+  LineChart,
+  Line,
+  RadarChart,
+  Radar,
+  PolarGrid,
+  PolarAngleAxis,
+  Legend,
+  ComposedChart,
+  Bar
 } from 'recharts';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
 import { motion, AnimatePresence } from 'motion/react';
 import { Toaster, toast } from 'sonner';
+import { api, loadSession, saveSession, subscribe, type UserInput } from './api';
+import { can, canViewPlayer, authorName, ROLES, ROLE_LABELS, type Permission } from './auth';
+import { DEFAULT_ROSTER, ROLLING_WINDOW } from './constants';
+import { AUDIT_ACTION_LABELS, auditChanges, TRASH_PERMISSIONS, UNDO_MS } from './audit';
+import { BOX_SCORE_FIELDS, BOX_SCORE_KEYS, emptyBoxScore, percentage, pointsFromShots, validateBoxScore } from './boxScore';
+import { analyzePlayer, calculateStats, formatPercentage, rollingAverage, sumBoxScores } from './analytics';
+import { buildThreads, parseMessageInput, REACTIONS, unreadMessages } from './messages';
+import { createBackup, fromLegacyData, parseBackupFile, previewImport, toCsv, type ImportPreview } from './backup';
+import { buildPlayersData, byDate, gameResult, missedGames } from './games';
+import { cn, downloadFile, newId, shareFile, upsertById } from './utils';
+import { followsFilter, parseRoute, publicUrl, routeUrl, samePage, type StatsScope, type View } from './routes';
+import { drawPlayerCard } from './playerCard';
+import { playerReportHtml, printReport, teamReportHtml } from './seasonReport';
+import { byPlayerName, emptyPlayer, findByName, HAND_LABELS, initials, playerAge, playerName, POSITION_LABELS, POSITIONS, STATUS_LABELS } from './players';
+import { CHART_COLORS, compareSeries, radarProfile, statLabel, statSeries } from './charts';
+import { EMPTY_FILTER, filterGameLines, filterGames, filterPlayersData, isFilterActive } from './filters';
+import { availability, byInjuryDate, DNP_LABELS, DNP_REASONS, emptyInjury, isInjuryOpen, openInjury } from './injuries';
+import { attendanceSummary, ATTENDANCE_LABELS, ATTENDANCE_STATUSES, weeklyLoads } from './attendance';
+import { formatStat, RANKED_STATS, rankPlayers, statValue, type RankingMode, type StatKey } from './leaderboard';
+import { NOTIFICATION_KIND_LABELS, NOTIFICATION_KINDS } from './notifications';
+import { currentSubscription, pushSupported, subscribePush } from './push';
+import { clearOutbox, dropOtherAccounts, flushOutbox, loadOutbox, loadSelection, loadSnapshot, saveSelection, saveSnapshot } from './offline';
+import { emptyScheduleEvent, gamesToRecord, SCHEDULE_KIND_LABELS, scheduleTitle, toIcs, upcomingEvents } from './schedule';
+import { bySeasonStart, currentSeason, nextSeason, seasonOf, teamName, teamOf } from './seasons';
+import { clearLegacyData, clearRecovered, loadLegacyData, loadRecovered } from './storage';
+import GameFilterBar from './components/GameFilterBar';
+import LiveGame from './components/LiveGame';
+import PlayerForm from './components/PlayerForm';
+import ScheduleForm from './components/ScheduleForm';
+import AttendanceSheet from './components/AttendanceSheet';
+import InjuryForm from './components/InjuryForm';
+import MessageForm from './components/MessageForm';
+import type { AttendanceRecord, AuditEntry, Backup, BoxScore, ChangeEvent, DnpReason, Game, GameDetails, GameFilter, ImportMode, Injury, InjuryInput, LiveEvent, Match, Message, MessageEdit, NotificationKind, NotificationSettings, Player, PlayerInput, Position, Report, Role, RosterEntry, ScheduleEvent, ScheduleEventInput, Season, Session, ShareLink, StatLine, Team, TrashEntry, User, UserNotification, Venue } from './types';
 
-// Utility for tailwind class merging
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
+// Parses a sheet line; blank PTS and REB are derived from the shots and rebound split.
+function toBoxScore(line: LineForm): BoxScore {
+  const box = emptyBoxScore();
+  BOX_SCORE_KEYS.forEach(key => {
+    box[key] = parseInt(line[key]) || 0;
+  });
+  if (line.points === '') box.points = pointsFromShots(box);
+  if (line.rebounds === '') box.rebounds = box.offensiveRebounds + box.defensiveRebounds;
+  return box;
 }
 
-interface Match {
-  id: string;
+// Switcher entry that creates a season or a team instead of selecting one
+const NEW_OPTION = '__new__';
+
+// Views that need more than a signed-in account
+const VIEW_PERMISSIONS: Partial<Record<View, Permission>> = {
+  'add-match': 'edit_stats',
+  'add-player': 'manage_roster',
+  leaders: 'view_all_stats',
+  live: 'edit_stats',
+  users: 'manage_users',
+  trash: 'view_audit',
+};
+
+// Page the app was opened on, e.g. from a link to a player's stats
+const startRoute = parseRoute(window.location);
+
+// Season averages shown as roster columns
+const ROSTER_COLUMNS: StatKey[] = ['points', 'rebounds', 'assists', 'steals', 'blocks', 'efficiency', 'minutes', 'fgPct', 'tpPct', 'ftPct', 'turnovers'];
+type RosterSortKey = StatKey | 'name' | 'games' | 'attendance';
+
+// Stats given a top-3 card on the home screen
+const LEADER_CARDS: StatKey[] = ['points', 'rebounds', 'assists'];
+
+// A player on the sheet either played, or sat out for the `dnp` reason
+type LineForm = { played: boolean, dnp: DnpReason | null } & Record<keyof BoxScore, string>;
+
+interface GameForm {
   date: string;
-  points: number;
-  rebounds: number;
-  assists: number;
+  opponent: string;
+  venue: Venue;
+  competition: string;
+  teamScore: string;
+  opponentScore: string;
+  lines: { [playerId: string]: LineForm };
 }
 
-interface PlayersData {
-  [name: string]: Match[];
+function emptyLine(): LineForm {
+  const line = { played: false, dnp: null } as LineForm;
+  BOX_SCORE_KEYS.forEach(key => {
+    line[key] = '';
+  });
+  return line;
 }
 
-interface Message {
-  id: string;
-  author: string;
-  content: string;
-  timestamp: string;
+// A scheduled game, when given, fills in the details of a new sheet
+function toGameForm(game: Game | null, scheduled?: ScheduleEvent | null): GameForm {
+  const lines: GameForm['lines'] = {};
+  game?.lines.forEach(l => {
+    const line = { played: !l.dnp, dnp: l.dnp } as LineForm;
+    BOX_SCORE_KEYS.forEach(key => {
+      line[key] = l.dnp ? '' : l[key].toString();
+    });
+    lines[l.playerId] = line;
+  });
+  return {
+    date: game?.date ?? scheduled?.date ?? new Date().toISOString().split('T')[0],
+    opponent: game?.opponent ?? scheduled?.opponent ?? '',
+    venue: game?.venue ?? scheduled?.venue ?? 'home',
+    competition: game?.competition ?? scheduled?.competition ?? '',
+    teamScore: game?.teamScore?.toString() ?? '',
+    opponentScore: game?.opponentScore?.toString() ?? '',
+    lines
+  };
 }
 
-type View = 'landing' | 'home' | 'roster' | 'add-match' | 'add-player' | 'stats' | 'feed';
+// State and actions of the app, shared with its pages through contexts
+type AppState = ReturnType<typeof useAppState>;
 
-export default function App() {
-  const [view, setView] = useState<View>('landing');
-  const [messages, setMessages] = useState<Message[]>(() => {
-    const saved = localStorage.getItem('ibaa_messages_v1');
-    if (saved) return JSON.parse(saved);
-    return [
-      { id: '1', author: 'ADMIN', content: 'Bienvenue sur IBAA ESPOIRS ! Utilisez cet espace pour échanger des infos sur les entraînements et matchs.', timestamp: new Date().toISOString() }
-    ];
-  });
-  const [unreadCount, setUnreadCount] = useState(0);
-  const [players, setPlayers] = useState<PlayersData>(() => {
-    const saved = localStorage.getItem('ibaa_espoirs_v2');
-    if (saved) return JSON.parse(saved);
-    
-    // Roster Officiel par défaut
-    const defaultRoster = [
-      "VEH ELIE", "COULIBALY ISMAEL", "KOFFI DANIEL", "KOUADIO STEVEN", 
-      "YAYA", "KOUAKOU MALLY", "KOUMAN CHRIST", "EBOH EVRAD", 
-      "KOUASSI MOISE", "KADIO SAMUEL", "KONAN KONAN", "ANAS", 
-      "SOUALIO", "AUREL", "PAUL"
-    ];
-    const initial: PlayersData = {};
-    defaultRoster.forEach(name => {
-      initial[name] = [];
-    });
-    return initial;
-  });
+const SessionContext = createContext<AppState['sessionState'] | null>(null);
+const StatusContext = createContext<AppState['statusState'] | null>(null);
+const ClubContext = createContext<AppState['clubState'] | null>(null);
+const FeedContext = createContext<AppState['feedState'] | null>(null);
+const UiContext = createContext<AppState['uiState'] | null>(null);
+const ActionsContext = createContext<AppState['actions'] | null>(null);
 
-  const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
+const useSession = () => useContext(SessionContext)!;
+const useStatus = () => useContext(StatusContext)!;
+const useClub = () => useContext(ClubContext)!;
+const useFeed = () => useContext(FeedContext)!;
+const useUi = () => useContext(UiContext)!;
+const useActions = () => useContext(ActionsContext)!;
+
+// Keeps the same object while none of its fields change
+const useGroup = <T extends object>(group: T): T => useMemo(() => group, Object.values(group));
+
+// Handlers are recreated on each render to see the latest state; the ones
+// handed out keep their identity and call the latest version
+function useStableActions<T extends Record<string, (...args: any[]) => unknown>>(handlers: T): T {
+  const latest = useRef(handlers);
+  latest.current = handlers;
+  return useMemo(() => Object.fromEntries(
+    Object.keys(handlers).map(key => [key, (...args: unknown[]) => latest.current[key](...args)])
+  ) as T, []);
+}
+
+function useAppState() {
+  const [snapshot] = useState(loadSnapshot);
+  const [session, setSession] = useState<Session | null>(loadSession);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [users, setUsers] = useState<User[]>([]);
+  const [view, setView] = useState<View>(startRoute.view);
+  const [messages, setMessages] = useState<Message[]>(snapshot?.messages ?? []);
+  // Messages posted after this time are unread; `newSince` keeps the previous
+  // value while the feed is open, to highlight what was new on arrival
+  const [feedReadAt, setFeedReadAt] = useState<string | null>(snapshot?.feedReadAt ?? null);
+  const [newSince, setNewSince] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  // Loaded when the notification center is first opened
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
+  // Push subscription of this device, if any
+  const [pushEndpoint, setPushEndpoint] = useState<string | null>(null);
+  // Public pages: players left out of them, and the share links (loaded
+  // when the roster is first opened by someone who manages them)
+  const [hiddenPlayers, setHiddenPlayers] = useState<string[]>([]);
+  const [shareLinks, setShareLinks] = useState<ShareLink[] | null>(null);
+  // Trash and change log, reloaded each time their screen is opened
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[] | null>(null);
+  const [seasons, setSeasons] = useState<Season[]>(snapshot?.seasons ?? []);
+  const [teams, setTeams] = useState<Team[]>(snapshot?.teams ?? []);
+  const [selection, setSelection] = useState(loadSelection);
+  const [roster, setRoster] = useState<Player[]>(snapshot?.roster ?? []);
+  const [games, setGames] = useState<Game[]>(snapshot?.games ?? []);
+  const [schedule, setSchedule] = useState<ScheduleEvent[]>(snapshot?.schedule ?? []);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>(snapshot?.attendance ?? []);
+  const [injuries, setInjuries] = useState<Injury[]>(snapshot?.injuries ?? []);
+  // Scheduled game whose stats are being entered on AddMatchPage
+  const [scheduledGame, setScheduledGame] = useState<ScheduleEvent | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(() => loadOutbox().length);
+
+  const [selectedPlayer, setSelectedPlayer] = useState<string | null>(startRoute.playerId ?? session?.user.playerId ?? null);
   const [isDeleteMode, setIsDeleteMode] = useState(false);
   const [isMatchDeleteMode, setIsMatchDeleteMode] = useState(false);
-  const [editingMatch, setEditingMatch] = useState<{ playerName: string, match: Match } | null>(null);
-  
-  // Form State
-  const [formData, setFormData] = useState({
-    name: '',
-    selectedName: '',
-    date: new Date().toISOString().split('T')[0],
-    points: '',
-    rebounds: '',
-    assists: ''
-  });
+  const [editingGame, setEditingGame] = useState<Game | null>(null);
+  // `legacy` for the data of the first version found on this device
+  const [pendingImport, setPendingImport] = useState<{ fileName: string, backup: Backup, preview: ImportPreview, legacy?: boolean } | null>(null);
+  const [legacyData, setLegacyData] = useState(loadLegacyData);
+  const [editingPlayerId, setEditingPlayerId] = useState<string | null>(null);
+  const [statsScope, setStatsScope] = useState<StatsScope>(startRoute.scope);
+  const [leaderStat, setLeaderStat] = useState<StatKey>('points');
+  // StatsPage chart options; compared players are drawn next to the selected one
+  const [chartStats, setChartStats] = useState<StatKey[]>(['points']);
+  const [showRolling, setShowRolling] = useState(false);
+  const [comparedPlayers, setComparedPlayers] = useState<string[]>([]);
+  const [gameFilter, setGameFilter] = useState<GameFilter>(startRoute.filter);
+  // Last generated report, with the player or game it is about
+  const [report, setReport] = useState<(Report & { subject: string }) | null>(null);
+  const [generatingReport, setGeneratingReport] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (editingMatch) {
-      setFormData({
-        name: '',
-        selectedName: editingMatch.playerName,
-        date: editingMatch.match.date,
-        points: editingMatch.match.points.toString(),
-        rebounds: editingMatch.match.rebounds.toString(),
-        assists: editingMatch.match.assists.toString()
+  const user = session?.user ?? null;
+
+  const loadData = () =>
+    Promise.all([
+      api.getSeasons(), api.getTeams(), api.getPlayers(), api.getGames(), api.getSchedule(), api.getAttendance(), api.getInjuries(),
+      api.getMessages(), api.getFeedRead(), api.getNotifications(), api.getHiddenPlayers(),
+      can(user, 'manage_users') ? api.getUsers() : []
+    ])
+      .then(([loadedSeasons, loadedTeams, loadedRoster, loadedGames, loadedSchedule, loadedAttendance, loadedInjuries, loadedMessages, feedRead, loadedNotifications, loadedHidden, loadedUsers]) => {
+        setSeasons(loadedSeasons);
+        setTeams(loadedTeams);
+        setRoster(loadedRoster);
+        setGames(loadedGames);
+        setSchedule(loadedSchedule);
+        setAttendance(loadedAttendance);
+        setInjuries(loadedInjuries);
+        setMessages(loadedMessages);
+        setFeedReadAt(feedRead.readAt);
+        setNotifications(loadedNotifications);
+        setHiddenPlayers(loadedHidden);
+        setUsers(loadedUsers);
+      })
+      .catch(() => {
+        if (snapshot) toast.warning("Serveur injoignable : données hors ligne affichées");
+        else toast.error("Impossible de joindre le serveur");
       });
+
+  // Replays the outbox, then reloads from the server once nothing is pending
+  // (reloading earlier would drop the optimistic changes still queued).
+  const sync = async () => {
+    const remaining = await flushOutbox({
+      send: api.replay,
+      onConflict: (entry, err) => {
+        toast.warning(`${entry.label} : ${err.message}`, {
+          duration: 15000,
+          action: {
+            label: 'Écraser',
+            onClick: () => api.forceReplay(entry).then(loadData).catch(e => toast.error((e as Error).message))
+          }
+        });
+      },
+      onRejected: (entry, err) => toast.error(`${entry.label} : ${err.message}`)
+    });
+    if (remaining === 0) await loadData();
+  };
+
+  // Applies a change pushed by the server, made in this app or another one
+  const handleChange = (event: ChangeEvent) => {
+    switch (event.type) {
+      case 'player':
+        setRoster(prev => upsertById(prev, event.player));
+        break;
+      case 'player-deleted':
+        setRoster(prev => prev.filter(p => p.id !== event.id));
+        dropFromRosters(e => e.playerId !== event.id);
+        removeLines(l => l.playerId !== event.id);
+        setAttendance(prev => prev.filter(r => r.playerId !== event.id));
+        setInjuries(prev => prev.filter(i => i.playerId !== event.id));
+        setSelectedPlayer(prev => (prev === event.id ? null : prev));
+        break;
+      case 'season':
+        setSeasons(prev => upsertById(prev, event.season).sort(bySeasonStart));
+        break;
+      case 'game':
+        setGames(prev => upsertById(prev, event.game).sort(byDate));
+        break;
+      case 'game-deleted':
+        setGames(prev => prev.filter(g => g.id !== event.id));
+        break;
+      case 'message': {
+        const { message } = event;
+        setMessages(prev => (prev.some(m => m.id === message.id)
+          ? prev.map(m => (m.id === message.id ? message : m))
+          : [message, ...prev]));
+        if (event.created && event.by !== session?.user.id) {
+          toast(message.parentId ? `${message.author} a répondu` : `Nouveau message de ${message.author}`, {
+            description: message.content || 'Image',
+            action: { label: 'Voir', onClick: () => setView('feed') }
+          });
+        }
+        break;
+      }
+      case 'message-deleted':
+        setMessages(prev => prev.filter(m => m.id !== event.id && m.parentId !== event.id));
+        break;
+      case 'notification': {
+        const { notification } = event;
+        setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+        // New messages already get their own toast
+        if (notification.kind !== 'announcement') {
+          toast(notification.title, {
+            description: notification.body,
+            action: { label: 'Voir', onClick: () => handleOpenNotification(notification) }
+          });
+        }
+        break;
+      }
+      case 'reload':
+        if (event.by !== session?.user.id) sync();
+        break;
+    }
+  };
+
+  useEffect(() => {
+    if (!session) {
+      api.getAuthStatus().then(status => setNeedsSetup(status.needsSetup)).catch(() => {});
+      return;
     }
-  }, [editingMatch]);
+    sync();
+    // Changes made while the feed was down were missed: catch up on reconnection
+    let connected = false;
+    const unsubscribe = subscribe(handleChange, () => {
+      if (connected) sync();
+      connected = true;
+    });
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleOutboxChange = () => setPendingCount(loadOutbox().length);
+    // Background Sync: the service worker asks open pages to flush
+    const handleWorkerMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'flush-outbox') sync();
+      // A push notification was clicked
+      if (e.data?.type === 'open-notification') handleOpenNotification(e.data.notification);
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('outbox-change', handleOutboxChange);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('outbox-change', handleOutboxChange);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [session]);
+
+  // The URL follows the page, the player shown and the stats options. Opening
+  // another page adds a history entry; changing filters only updates the URL.
+  useEffect(() => {
+    const route = { view, playerId: view === 'stats' ? selectedPlayer : null, scope: statsScope, filter: gameFilter };
+    const url = routeUrl(route);
+    if (url === window.location.pathname + window.location.search) return;
+    if (samePage(route, parseRoute(window.location))) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+  }, [view, selectedPlayer, statsScope, gameFilter]);
+
+  // Back and forward buttons
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location);
+      setView(route.view);
+      if (route.view === 'stats') {
+        setSelectedPlayer(route.playerId);
+        setStatsScope(route.scope);
+      }
+      // Pages without filters in their URL leave the current ones alone
+      if (followsFilter(route.view)) setGameFilter(route.filter);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Device data that could not be read was set aside when loaded: offer it
+  // as a file until it is downloaded
+  useEffect(() => {
+    const recovered = loadRecovered();
+    if (recovered.length === 0) return;
+    toast.warning(`${recovered.length} donnée(s) locale(s) illisible(s) mise(s) de côté`, {
+      description: recovered.map(item => `${item.key} : ${item.reason}`).join(' · '),
+      duration: Infinity,
+      action: {
+        label: 'Télécharger',
+        onClick: () => {
+          downloadFile(`ibaa-recuperation-${new Date().toISOString().split('T')[0]}.json`, JSON.stringify(recovered, null, 2), 'application/json');
+          clearRecovered();
+        }
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      saveSession(null);
+      setSession(null);
+      setView('landing');
+      toast.error("Session expirée : veuillez vous reconnecter");
+    };
+    window.addEventListener('session-expired', handleSessionExpired);
+    return () => window.removeEventListener('session-expired', handleSessionExpired);
+  }, []);
+
+  useEffect(() => {
+    saveSnapshot({ seasons, teams, roster, games, schedule, attendance, injuries, messages, feedReadAt });
+  }, [seasons, teams, roster, games, schedule, attendance, injuries, messages, feedReadAt]);
 
   useEffect(() => {
-    localStorage.setItem('ibaa_espoirs_v2', JSON.stringify(players));
-  }, [players]);
+    saveSelection(selection);
+  }, [selection]);
 
+  // Opening the feed reads it up to its latest message (the server's times,
+  // not this device's clock); messages arriving meanwhile are read as well
   useEffect(() => {
-    localStorage.setItem('ibaa_messages_v1', JSON.stringify(messages));
-  }, [messages]);
+    if (view !== 'feed' || !user) return;
+    const latest = messages.reduce((max, m) => (m.timestamp > max ? m.timestamp : max), '');
+    if (!latest || (feedReadAt !== null && latest <= feedReadAt)) return;
+    setFeedReadAt(latest);
+    api.markFeedRead(latest).catch(() => {});
+  }, [view, messages]);
 
   useEffect(() => {
-    if (view === 'feed') setUnreadCount(0);
+    if (view === 'feed') setNewSince(feedReadAt);
   }, [view]);
 
-  const playerNames = useMemo(() => Object.keys(players).sort(), [players]);
+  useEffect(() => {
+    if (view !== 'notifications') return;
+    if (!notificationSettings) api.getNotificationSettings().then(setNotificationSettings).catch(err => toast.error(err.message));
+    currentSubscription().then(subscription => setPushEndpoint(subscription?.endpoint ?? null)).catch(() => {});
+  }, [view]);
 
-  const handleAddMatch = (e: React.FormEvent) => {
-    e.preventDefault();
-    const name = formData.selectedName;
-    if (!name || !formData.date) {
-      toast.error("Veuillez sélectionner un joueur et une date");
+  useEffect(() => {
+    if (view !== 'trash' || !can(user, 'view_audit')) return;
+    Promise.all([api.getTrash(), api.getAudit()])
+      .then(([loadedTrash, loadedAudit]) => {
+        setTrash(loadedTrash);
+        setAuditLog(loadedAudit);
+      })
+      .catch(err => toast.error(err.message));
+  }, [view]);
+
+  useEffect(() => {
+    if (view === 'roster' && !shareLinks && can(user, 'manage_roster')) api.getShareLinks().then(setShareLinks).catch(() => {});
+  }, [view]);
+
+  // Falls back to the season in progress and the first team when nothing
+  // (or something since deleted) was picked on this device
+  const season = seasons.find(s => s.id === selection.seasonId) ?? currentSeason(seasons);
+  const team = teams.find(t => t.id === selection.teamId) ?? teams[0] ?? null;
+  const seasonGames = useMemo(() => games.filter(g => g.seasonId === season?.id), [games, season?.id]);
+  const teamGames = useMemo(() => seasonGames.filter(g => g.teamId === team?.id), [seasonGames, team?.id]);
+
+  const sortedPlayers = useMemo(() => [...roster].sort(byPlayerName), [roster]);
+  const playerById = useMemo(() => new Map(roster.map(p => [p.id, p])), [roster]);
+  const unreadCount = user ? unreadMessages(messages, user.id, feedReadAt).length : 0;
+  const unreadNotifications = notifications.filter(n => !n.readAt).length;
+  const teamPlayers = useMemo(() => sortedPlayers.filter(p => team && teamOf(season, p.id) === team.id), [sortedPlayers, season, team]);
+  // Stats of the selected season (all teams: a player moved mid-season keeps
+  // their lines), and of every season for career views
+  const players = useMemo(() => buildPlayersData(roster, seasonGames), [roster, seasonGames]);
+  const careers = useMemo(() => buildPlayersData(roster, games), [roster, games]);
+  // Lines played for the selected team only, for rankings and roster averages
+  const teamStats = useMemo(() => buildPlayersData(roster, teamGames), [roster, teamGames]);
+  // Practice attendance recorded during the selected season
+  const seasonAttendance = useMemo(() => {
+    const sessions = new Set(schedule.filter(e => season && e.date >= season.startDate && e.date <= season.endDate).map(e => e.id));
+    return attendance.filter(r => sessions.has(r.eventId));
+  }, [attendance, schedule, season]);
+  // The same three views narrowed by the stats filters
+  const filteredPlayers = useMemo(() => filterPlayersData(players, seasonGames, gameFilter), [players, seasonGames, gameFilter]);
+  const filteredCareers = useMemo(() => filterPlayersData(careers, games, gameFilter), [careers, games, gameFilter]);
+  const filteredTeamStats = useMemo(() => filterPlayersData(teamStats, teamGames, gameFilter), [teamStats, teamGames, gameFilter]);
+  const placement = season && team ? { seasonId: season.id, teamId: team.id } : undefined;
+
+  // Server responses for one season replace the local copy
+  const replaceSeason = (updated: Season) => setSeasons(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+  const dropFromRosters = (keep: (entry: RosterEntry) => boolean) =>
+    setSeasons(prev => prev.map(s => ({ ...s, roster: s.roster.filter(keep) })));
+
+  // Mirrors the server: a game whose lines change gets a new version
+  const removeLines = (keep: (line: StatLine, game: Game) => boolean) =>
+    setGames(prev => prev.map(g => {
+      const lines = g.lines.filter(l => keep(l, g));
+      return lines.length === g.lines.length ? g : { ...g, lines, version: g.version + 1 };
+    }));
+
+  // UI guard in front of each handler; the server enforces the same rules
+  const allowed = (permission: Permission) => {
+    if (can(user, permission)) return true;
+    toast.error("Action non autorisée pour votre rôle");
+    return false;
+  };
+
+  const handleLogin = async (username: string, password: string, displayName: string) => {
+    try {
+      const opened = needsSetup
+        ? await api.setup(username.trim(), displayName.trim(), password)
+        : await api.login(username.trim(), password);
+      const dropped = dropOtherAccounts(opened.user.id);
+      if (dropped > 0) toast.warning(`${dropped} modification(s) hors ligne d'un autre compte abandonnée(s)`);
+      saveSession(opened);
+      setSession(opened);
+      setNeedsSetup(false);
+      // A link opened before signing in leads to its page
+      setSelectedPlayer(prev => prev ?? opened.user.playerId);
+      setView(prev => (prev === 'landing' ? 'home' : prev));
+      toast.success(`Bienvenue ${opened.user.displayName}`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // Signing out also drops this account's cached data and unsent changes
+  const handleLogout = () => {
+    const pending = loadOutbox().length;
+    if (pending > 0 && !window.confirm(`${pending} modification(s) non synchronisée(s) seront perdues. Se déconnecter quand même ?`)) return;
+    // Offline, the server session simply expires on its own
+    api.logout().catch(() => {});
+    // The next account on this device must not get this one's notifications;
+    // the server drops the subscription once the push service rejects it
+    currentSubscription().then(subscription => subscription?.unsubscribe()).catch(() => {});
+    clearOutbox();
+    saveSession(null);
+    setSession(null);
+    setSeasons([]);
+    setTeams([]);
+    setRoster([]);
+    setGames([]);
+    setSchedule([]);
+    setAttendance([]);
+    setInjuries([]);
+    setMessages([]);
+    setFeedReadAt(null);
+    setNotifications([]);
+    setNotificationSettings(null);
+    setUsers([]);
+    setSelectedPlayer(null);
+    setEditingGame(null);
+    setScheduledGame(null);
+    setPendingImport(null);
+    setView('landing');
+  };
+
+  const handleAddUser = async (input: UserInput) => {
+    if (!allowed('manage_users')) return false;
+    try {
+      const created = await api.addUser(input);
+      setUsers(prev => [...prev, created].sort((a, b) => a.username.localeCompare(b.username)));
+      toast.success(`Compte créé pour ${created.displayName}`);
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+  };
+
+  const handleUpdateUser = async (id: string, changes: UserInput) => {
+    if (!allowed('manage_users')) return;
+    try {
+      const updated = await api.updateUser(id, changes);
+      setUsers(prev => prev.map(u => u.id === id ? updated : u));
+      toast.success(`Compte de ${updated.displayName} mis à jour`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleDeleteUser = async (target: User) => {
+    if (!allowed('manage_users')) return;
+    if (!window.confirm(`Supprimer le compte de ${target.displayName} ?`)) return;
+    try {
+      await api.deleteUser(target.id);
+    } catch (err) {
+      toast.error((err as Error).message);
       return;
     }
+    setUsers(prev => prev.filter(u => u.id !== target.id));
+    toast.success("Compte supprimé");
+  };
+
+  // New games go to the selected season and team; edited games stay where they are
+  const handleSaveGame = async (input: GameDetails) => {
+    if (!allowed('edit_stats')) return false;
+    if (!input.date) {
+      toast.error("Veuillez renseigner la date du match");
+      return false;
+    }
+    if (!input.lines.some(l => !l.dnp)) {
+      toast.error("Sélectionnez au moins un joueur ayant joué");
+      return false;
+    }
 
-    if (editingMatch) {
-      setPlayers(prev => {
-        const updated = { ...prev };
-        updated[name] = updated[name].map(m => 
-          m.id === editingMatch.match.id 
-            ? { ...m, date: formData.date, points: parseInt(formData.points) || 0, rebounds: parseInt(formData.rebounds) || 0, assists: parseInt(formData.assists) || 0 }
-            : m
-        ).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        return updated;
-      });
-      toast.success("Match mis à jour");
-      setEditingMatch(null);
-    } else {
-      const newMatch: Match = {
-        id: Math.random().toString(36).substr(2, 9),
-        date: formData.date,
-        points: parseInt(formData.points) || 0,
-        rebounds: parseInt(formData.rebounds) || 0,
-        assists: parseInt(formData.assists) || 0,
-      };
-
-      setPlayers(prev => {
-        const updated = { ...prev };
-        updated[name] = [...(updated[name] || []), newMatch].sort((a, b) => 
-          new Date(a.date).getTime() - new Date(b.date).getTime()
-        );
-        return updated;
-      });
-      toast.success(`Match enregistré pour ${name}`);
+    try {
+      if (editingGame) {
+        const saved = await api.updateGame({ ...editingGame, ...input });
+        setGames(prev => prev.map(g => g.id === saved.id ? saved : g).sort(byDate));
+        toast.success("Match mis à jour");
+        setEditingGame(null);
+      } else {
+        if (!placement) {
+          toast.error("Choisissez une saison et une catégorie");
+          return false;
+        }
+        const saved = await api.addGame({ ...input, ...placement, id: newId(), version: 1 }, undefined, scheduledGame?.id);
+        setGames(prev => upsertById(prev, saved).sort(byDate));
+        if (scheduledGame) {
+          setSchedule(prev => prev.map(e => (e.id === scheduledGame.id ? { ...e, gameId: saved.id } : e)));
+          setScheduledGame(null);
+        }
+        toast.success(`Match enregistré (${saved.lines.filter(l => !l.dnp).length} joueurs)`);
+      }
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
     }
-    setFormData(prev => ({
-      ...prev,
-      points: '',
-      rebounds: '',
-      assists: ''
-    }));
   };
 
-  const handleAddPlayer = (e: React.FormEvent) => {
-    e.preventDefault();
-    const name = formData.name.trim();
-    if (!name) return;
+  const handleFinishLiveGame = async (input: GameDetails, events: LiveEvent[]) => {
+    if (!allowed('edit_stats')) return false;
+    if (!placement) {
+      toast.error("Choisissez une saison et une catégorie");
+      return false;
+    }
+    try {
+      const saved = await api.addGame({ ...input, ...placement, id: newId(), version: 1 }, events);
+      setGames(prev => upsertById(prev, saved).sort(byDate));
+      toast.success(`Match enregistré (${saved.teamScore}-${saved.opponentScore})`);
+      setView('home');
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+  };
 
-    if (players[name]) {
-      toast.error("Ce joueur existe déjà");
+  // Puts back what a deletion moved to the trash, from the undo button of its
+  // toast or from the trash screen. Deletions can cascade to any list, so
+  // everything is reloaded.
+  const handleRestore = async (trashId: string) => {
+    try {
+      await api.restoreTrash(trashId);
+      await loadData();
+      setTrash(prev => prev.filter(e => e.id !== trashId));
+      toast.success("Élément restauré");
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handlePurgeTrash = async (entry: TrashEntry) => {
+    if (!window.confirm(`Supprimer définitivement « ${entry.label} » ? Il ne pourra plus être restauré.`)) return;
+    try {
+      await api.purgeTrash(entry.id);
+      setTrash(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // A deletion made offline is only queued: it has nothing to undo yet
+  const toastDeletion = (message: string, deletion: { trashId: string } | undefined) =>
+    toast.success(message, deletion && {
+      duration: UNDO_MS,
+      action: { label: 'Annuler', onClick: () => handleRestore(deletion.trashId) },
+    });
+
+  const handleDeleteGame = async (game: Game) => {
+    if (!allowed('edit_stats')) return;
+    if (window.confirm(`Supprimer le match du ${new Date(game.date).toLocaleDateString()} et toutes ses statistiques ?`)) {
+      let deletion;
+      try {
+        deletion = await api.deleteGame(game);
+      } catch (err) {
+        toast.error((err as Error).message);
+        return;
+      }
+      setGames(prev => prev.filter(g => g.id !== game.id));
+      setSchedule(prev => prev.map(e => (e.gameId === game.id ? { ...e, gameId: null } : e)));
+      if (editingGame?.id === game.id) setEditingGame(null);
+      toastDeletion("Match supprimé avec succès", deletion);
+    }
+  };
+
+  const handleSaveScheduleEvent = async (input: ScheduleEventInput, existing?: ScheduleEvent) => {
+    if (!allowed('manage_schedule')) return false;
+    try {
+      if (existing) {
+        const saved = await api.updateScheduleEvent({ ...existing, ...input });
+        setSchedule(prev => prev.map(e => (e.id === saved.id ? saved : e)));
+        toast.success("Rendez-vous mis à jour");
+      } else {
+        const saved = await api.addScheduleEvent({ ...input, id: newId(), gameId: null });
+        setSchedule(prev => [...prev, saved]);
+        toast.success("Rendez-vous ajouté au calendrier");
+      }
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+  };
+
+  const handleDeleteScheduleEvent = async (event: ScheduleEvent) => {
+    if (!allowed('manage_schedule')) return;
+    if (!window.confirm(`Retirer « ${scheduleTitle(event, teams)} » du calendrier ?`)) return;
+    let deletion;
+    try {
+      deletion = await api.deleteScheduleEvent(event);
+    } catch (err) {
+      toast.error((err as Error).message);
       return;
     }
+    setSchedule(prev => prev.filter(e => e.id !== event.id));
+    setAttendance(prev => prev.filter(r => r.eventId !== event.id));
+    toastDeletion("Rendez-vous supprimé", deletion);
+  };
+
+  const handleSaveAttendance = async (event: ScheduleEvent, records: AttendanceRecord[]) => {
+    if (!allowed('manage_schedule')) return false;
+    try {
+      const saved = await api.saveAttendance(event, records);
+      setAttendance(prev => [...prev.filter(r => r.eventId !== event.id), ...saved]);
+      toast.success(`Présences enregistrées (${saved.length} joueurs)`);
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+  };
 
-    setPlayers(prev => ({
-      ...prev,
-      [name]: []
-    }));
+  const handleSaveInjury = async (input: InjuryInput, existing?: Injury) => {
+    if (!allowed('manage_roster')) return false;
+    try {
+      if (existing) {
+        const saved = await api.updateInjury({ ...existing, ...input });
+        setInjuries(prev => prev.map(i => (i.id === saved.id ? saved : i)));
+        toast.success("Blessure mise à jour");
+      } else {
+        const saved = await api.addInjury({ ...input, id: newId() });
+        setInjuries(prev => [...prev, saved]);
+        toast.success("Blessure enregistrée");
+      }
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+  };
+
+  const handleDeleteInjury = async (injury: Injury) => {
+    if (!allowed('manage_roster')) return;
+    if (!window.confirm(`Supprimer la blessure du ${new Date(injury.date).toLocaleDateString('fr-FR')} de l'historique ?`)) return;
+    let deletion;
+    try {
+      deletion = await api.deleteInjury(injury);
+    } catch (err) {
+      toast.error((err as Error).message);
+      return;
+    }
+    setInjuries(prev => prev.filter(i => i.id !== injury.id));
+    toastDeletion("Blessure supprimée", deletion);
+  };
+
+  // Opens the match sheet prefilled with a scheduled game
+  const handleRecordScheduledGame = (event: ScheduleEvent) => {
+    if (!allowed('edit_stats')) return;
+    setEditingGame(null);
+    setScheduledGame(event);
+    setView('add-match');
+  };
+
+  const handleExportCalendar = () => {
+    downloadFile('ibaa-calendrier.ics', toIcs(schedule, teams, 'IBAA'), 'text/calendar');
+    toast.success("Calendrier téléchargé");
+  };
+
+  // Copies the subscription URL; `revoke` first invalidates the previous one
+  const handleCalendarFeed = async (revoke = false) => {
+    try {
+      if (revoke) await api.revokeCalendarFeed();
+      const { token } = await api.getCalendarFeed();
+      const url = `${window.location.origin}/api/calendar/${token}.ics`;
+      await navigator.clipboard?.writeText(url).catch(() => {});
+      toast.success(revoke ? "Nouveau lien d'abonnement copié" : "Lien d'abonnement copié", { description: url });
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const copyShareLink = async (token: string) => {
+    const url = publicUrl(token);
+    await navigator.clipboard?.writeText(url).catch(() => {});
+    toast.success("Lien public copié", { description: url });
+  };
+
+  const handleCreateShareLink = async () => {
+    if (!allowed('manage_roster') || !season || !team) return;
+    try {
+      const link = await api.createShareLink(season.id, team.id);
+      setShareLinks(prev => [...(prev ?? []), link]);
+      await copyShareLink(link.token);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // Pages opened from the link stop working at once
+  const handleRevokeShareLink = async (token: string) => {
+    if (!allowed('manage_roster') || !window.confirm("Révoquer ce lien ? Les personnes qui l'ont reçu n'auront plus accès.")) return;
+    try {
+      await api.revokeShareLink(token);
+      setShareLinks(prev => prev?.filter(l => l.token !== token) ?? null);
+      toast.success("Lien révoqué");
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleSetPlayerHidden = async (playerId: string, hidden: boolean) => {
+    try {
+      setHiddenPlayers(await api.setPlayerHidden(playerId, hidden));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
 
+  const handleAddPlayer = async (input: PlayerInput) => {
+    if (!allowed('manage_roster')) return false;
+    const name = playerName(input);
+    if (findByName(roster, name)) {
+      toast.error("Ce joueur existe déjà");
+      return false;
+    }
+
+    const player = { ...input, id: newId() };
+    try {
+      await api.addPlayer(player, placement);
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+    setRoster(prev => upsertById(prev, player));
+    if (placement) {
+      setSeasons(prev => prev.map(s => (s.id === placement.seasonId ? { ...s, roster: [...s.roster.filter(e => e.playerId !== player.id), { playerId: player.id, teamId: placement.teamId }] } : s)));
+    }
     toast.success(`Profil créé pour ${name}`);
-    setFormData(prev => ({ ...prev, name: '', selectedName: name }));
+    return true;
   };
 
-  const handleDeletePlayer = (name: string) => {
-    if (window.confirm(`ATTENTION : Voulez-vous vraiment supprimer définitivement le profil et toutes les statistiques de ${name} ?`)) {
-      setPlayers(prev => {
-        const next = { ...prev };
-        delete next[name];
-        return next;
-      });
-      if (selectedPlayer === name) setSelectedPlayer(null);
-      if (formData.selectedName === name) setFormData(prev => ({ ...prev, selectedName: '' }));
-      toast.success(`Profil de ${name} supprimé avec succès`);
+  const handleUpdatePlayer = async (player: Player) => {
+    if (!allowed('manage_roster')) return false;
+    try {
+      await api.updatePlayer(player);
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+    setRoster(prev => prev.map(p => (p.id === player.id ? player : p)));
+    toast.success(`Profil de ${playerName(player)} mis à jour`);
+    return true;
+  };
+
+  const handleLoadDefaultRoster = async (message: string) => {
+    if (!allowed('manage_roster')) return;
+    try {
+      setRoster(await api.addPlayers(DEFAULT_ROSTER, placement));
+      setSeasons(await api.getSeasons());
+      toast.success(message);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleClearRoster = async () => {
+    if (!allowed('manage_roster')) return;
+    if (!window.confirm("Vider tout ?")) return;
+    try {
+      const deletion = await api.clearPlayers();
+      setRoster([]);
+      dropFromRosters(() => false);
+      removeLines(() => false);
+      toastDeletion("Effectif vidé", deletion);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // Registers the player with a team for the selected season, moves them to
+  // another team, or (without a team) takes them off the season's roster.
+  // Games already played keep the team they were played for.
+  const handleMovePlayer = async (player: Player, teamId: string | null) => {
+    if (!allowed('manage_roster') || !season) return;
+    try {
+      replaceSeason(teamId
+        ? await api.setRosterEntry(season.id, player.id, teamId)
+        : await api.removeRosterEntry(season.id, player.id));
+    } catch (err) {
+      toast.error((err as Error).message);
+      return;
+    }
+    toast.success(teamId
+      ? `${playerName(player)} : ${teamName(teams, teamId)} (${season.name})`
+      : `${playerName(player)} retiré de la saison ${season.name}`);
+  };
+
+  // A new season starts with the current roster (minus players who left) and
+  // no games; previous seasons stay available in the switcher.
+  const handleAddSeason = async () => {
+    if (!allowed('manage_roster')) return;
+    const latest = [...seasons].sort(bySeasonStart).at(-1);
+    const bounds = latest ? nextSeason(latest) : seasonOf(new Date().toISOString().split('T')[0]);
+    const name = window.prompt("Nom de la nouvelle saison :", bounds.name);
+    if (!name) return;
+    const copyFrom = season && window.confirm(`Reconduire l'effectif de la saison ${season.name} ?`) ? season.id : undefined;
+    try {
+      const created = await api.addSeason({ ...bounds, name }, copyFrom);
+      setSeasons(prev => upsertById(prev, created).sort(bySeasonStart));
+      setSelection(prev => ({ ...prev, seasonId: created.id }));
+      toast.success(`Saison ${created.name} créée`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleAddTeam = async () => {
+    if (!allowed('manage_roster')) return;
+    const name = window.prompt("Nom de la nouvelle catégorie (U18, Seniors...) :");
+    if (!name) return;
+    try {
+      const created = await api.addTeam(name);
+      setTeams(prev => [...prev, created]);
+      setSelection(prev => ({ ...prev, teamId: created.id }));
+      toast.success(`Catégorie ${created.name} créée`);
+    } catch (err) {
+      toast.error((err as Error).message);
     }
   };
 
-  const handleDeleteMatch = (playerName: string, matchId: string) => {
-    if (!playerName) return;
+  const handleDeletePlayer = async (player: Player) => {
+    if (!allowed('manage_roster')) return;
+    const name = playerName(player);
+    if (window.confirm(`ATTENTION : Voulez-vous vraiment supprimer le profil et toutes les statistiques de ${name} ?`)) {
+      let deletion;
+      try {
+        deletion = await api.deletePlayer(player);
+      } catch (err) {
+        toast.error((err as Error).message);
+        return;
+      }
+      setRoster(prev => prev.filter(p => p.id !== player.id));
+      dropFromRosters(e => e.playerId !== player.id);
+      removeLines(l => l.playerId !== player.id);
+      setAttendance(prev => prev.filter(r => r.playerId !== player.id));
+      setInjuries(prev => prev.filter(i => i.playerId !== player.id));
+      if (selectedPlayer === player.id) setSelectedPlayer(null);
+      toastDeletion(`Profil de ${name} supprimé avec succès`, deletion);
+    }
+  };
+
+  const handleDeleteMatch = async (playerId: string, gameId: string) => {
+    if (!allowed('edit_stats')) return;
+    const player = playerById.get(playerId);
+    const game = games.find(g => g.id === gameId);
+    if (!player || !game) return;
     
     if (window.confirm("Voulez-vous vraiment supprimer ce match de l'historique ?")) {
-      setPlayers(prev => {
-        const updatedMatches = (prev[playerName] || []).filter(m => m.id !== matchId);
-        return {
-          ...prev,
-          [playerName]: updatedMatches
-        };
-      });
-      toast.success("Match supprimé avec succès");
+      let deletion;
+      try {
+        deletion = await api.deleteMatch(player, game);
+      } catch (err) {
+        toast.error((err as Error).message);
+        return;
+      }
+      removeLines((l, g) => g.id !== gameId || l.playerId !== playerId);
+      toastDeletion("Match supprimé avec succès", deletion);
     }
   };
 
-  const handleResetPlayerStats = (name: string) => {
+  const handleResetPlayerStats = async (player: Player) => {
+    if (!allowed('edit_stats')) return;
+    const name = playerName(player);
     if (window.confirm(`Réinitialiser toutes les statistiques de ${name} ? Tous les matchs seront supprimés.`)) {
-      setPlayers(prev => ({
-        ...prev,
-        [name]: []
-      }));
-      toast.success(`Statistiques de ${name} réinitialisées`);
+      let deletion;
+      try {
+        deletion = await api.resetPlayerStats(player);
+      } catch (err) {
+        toast.error((err as Error).message);
+        return;
+      }
+      removeLines(l => l.playerId !== player.id);
+      toastDeletion(`Statistiques de ${name} réinitialisées`, deletion);
     }
   };
 
-  const handleAddMessage = (author: string, content: string) => {
-    if (!author.trim() || !content.trim()) return;
-    const newMessage: Message = {
-      id: Math.random().toString(36).substr(2, 9),
-      author: author.trim(),
-      content: content.trim(),
-      timestamp: new Date().toISOString()
-    };
-    setMessages(prev => [newMessage, ...prev]);
-    toast.success("Message publié");
+  // Posts to the feed, or answers the thread of `parentId`. Resolves to
+  // whether the message went out, so that the form can be cleared.
+  const handleAddMessage = async (content: string, extra: { parentId?: string, image?: string | null } = {}) => {
+    if (!user || !allowed('post_messages')) return false;
+    const input = parseMessageInput({ content, image: extra.image });
+    if (typeof input === 'string') {
+      toast.error(input);
+      return false;
+    }
+    try {
+      const newMessage = await api.addMessage({
+        id: newId(),
+        author: authorName(user, user.playerId ? playerById.get(user.playerId) : null),
+        ...input,
+        timestamp: new Date().toISOString(),
+        userId: user.id,
+        parentId: extra.parentId ?? null,
+        pinned: false,
+        editedAt: null,
+        reactions: []
+      });
+      setMessages(prev => [newMessage, ...prev.filter(m => m.id !== newMessage.id)]);
+      toast.success(extra.parentId ? "Réponse publiée" : "Message publié");
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+  };
+
+  const handleEditMessage = async (message: Message, content: string, image: string | null) => {
+    const input = parseMessageInput({ content, image });
+    if (typeof input === 'string') {
+      toast.error(input);
+      return false;
+    }
+    try {
+      const saved = await api.updateMessage({ ...message, ...input });
+      setMessages(prev => prev.map(m => (m.id === saved.id ? saved : m)));
+      toast.success("Message modifié");
+      return true;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return false;
+    }
+  };
+
+  const handleReact = async (message: Message, emoji: string) => {
+    if (!user || !allowed('post_messages')) return;
+    const active = !message.reactions?.some(r => r.emoji === emoji && r.userIds.includes(user.id));
+    try {
+      const saved = await api.setReaction(message, emoji, user.id, active);
+      setMessages(prev => prev.map(m => (m.id === saved.id ? saved : m)));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handlePinMessage = async (message: Message) => {
+    if (!allowed('pin_messages')) return;
+    try {
+      const saved = await api.pinMessage(message, !message.pinned);
+      setMessages(prev => prev.map(m => (m.id === saved.id ? saved : m)));
+      toast.success(saved.pinned ? "Message épinglé" : "Message désépinglé");
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // Reports are written by the server on demand; they need a connection
+  // Opens what a notification is about and marks it as read
+  const handleOpenNotification = (notification: UserNotification) => {
+    if (!notification.readAt) {
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n)));
+      api.markNotificationsRead([notification.id]).catch(() => {});
+    }
+    if (notification.playerId) setSelectedPlayer(notification.playerId);
+    setView(notification.view ?? 'notifications');
+  };
+
+  const handleMarkNotificationsRead = async () => {
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.readAt ? n : { ...n, readAt: now })));
+    try {
+      await api.markNotificationsRead();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleSaveNotificationSettings = async (settings: NotificationSettings) => {
+    try {
+      setNotificationSettings(await api.saveNotificationSettings(settings));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // Subscribes this device to push notifications, or unsubscribes it
+  const handleTogglePush = async () => {
+    try {
+      const subscription = await currentSubscription();
+      if (subscription) {
+        await api.removePushSubscription(subscription.endpoint);
+        await subscription.unsubscribe();
+        setPushEndpoint(null);
+        toast.success("Notifications push désactivées sur cet appareil");
+      } else {
+        const { publicKey } = await api.getPushKey();
+        const created = await subscribePush(publicKey);
+        await api.addPushSubscription(created.toJSON());
+        setPushEndpoint(created.endpoint);
+        toast.success("Notifications push activées sur cet appareil");
+      }
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleTestPush = async () => {
+    try {
+      await api.testPush();
+      toast.success("Notification de test envoyée");
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleGenerateReport = async (subject: string, generate: () => Promise<Report>) => {
+    setGeneratingReport(subject);
+    try {
+      setReport({ ...(await generate()), subject });
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setGeneratingReport(null);
+    }
+  };
+
+  const handleDeleteMessage = async (id: string) => {
+    let deletion;
+    try {
+      deletion = await api.deleteMessage(id);
+    } catch (err) {
+      toast.error((err as Error).message);
+      return;
+    }
+    // Replies go with the message they answer
+    setMessages(prev => prev.filter(m => m.id !== id && m.parentId !== id));
+    toastDeletion("Message supprimé", deletion);
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!allowed('export_data')) return;
+    const stamp = new Date().toISOString().split('T')[0];
+    if (format === 'json') {
+      downloadFile(`ibaa-sauvegarde-${stamp}.json`, JSON.stringify(createBackup(seasons, teams, roster, games, messages), null, 2), 'application/json');
+    } else {
+      // The backup stays complete; the stats sheet has the lines the views
+      // show: selected season and team, narrowed by the filters
+      downloadFile(`ibaa-stats-${stamp}.csv`, toCsv(filterGameLines(teamGames, gameFilter), roster), 'text/csv');
+    }
+    toast.success("Export téléchargé");
+  };
+
+  // The card and the reports follow the period and filters of the stats shown
+  const handleShareCard = async (player: Player, matches: Match[], period: string) => {
+    try {
+      const card = await drawPlayerCard(player, matches, period);
+      const slug = playerName(player).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const fileName = `ibaa-${slug}.png`;
+      await shareFile(new File([card], fileName, { type: 'image/png' }), `${playerName(player)} · ${period}`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handlePrintReport = (html: () => string) => {
+    try {
+      printReport(html());
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    if (!allowed('import_data')) return;
+    if (!team) {
+      toast.error("Choisissez une catégorie");
+      return;
+    }
+    try {
+      const backup = parseBackupFile(file.name, await file.text(), { players: roster, seasons, team });
+      setPendingImport({ fileName: file.name, backup, preview: previewImport(backup, roster, games) });
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  // The roster and feed of the first version stay on the device until they
+  // are imported, through the same preview as a file
+  const handleImportLegacy = () => {
+    if (!legacyData || !allowed('import_data')) return;
+    if (!team) {
+      toast.error("Choisissez une catégorie");
+      return;
+    }
+    try {
+      const backup = fromLegacyData(legacyData, { players: roster, seasons, team });
+      setPendingImport({ fileName: "Données de la première version", backup, preview: previewImport(backup, roster, games), legacy: true });
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
   };
 
-  const handleDeleteMessage = (id: string) => {
-    setMessages(prev => prev.filter(m => m.id !== id));
-    toast.error("Message supprimé");
+  const handleConfirmImport = async (mode: ImportMode) => {
+    if (!pendingImport || !allowed(mode === 'replace' ? 'reset_system' : 'import_data')) return;
+    if (mode === 'replace' && !window.confirm("Remplacer toutes les données actuelles par le contenu du fichier ?")) return;
+    try {
+      const summary = await api.importBackup(pendingImport.backup, mode);
+      if (pendingImport.legacy) {
+        clearLegacyData();
+        setLegacyData(null);
+      }
+      await loadData();
+      setPendingImport(null);
+      toastDeletion(`Import terminé : ${summary.players} joueurs, ${summary.games} matchs ajoutés`, summary.trashId ? { trashId: summary.trashId } : undefined);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
   };
 
-  const handleResetSystem = () => {
-    if (window.confirm("ALERTE : Voulez-vous vraiment réinitialiser TOUT le système ? Toutes les données seront définitivement perdues.")) {
-      localStorage.removeItem('ibaa_espoirs_v2');
-      setPlayers({});
+  const handleResetSystem = async () => {
+    if (!allowed('reset_system')) return;
+    if (window.confirm("ALERTE : Voulez-vous vraiment réinitialiser TOUT le système ? Joueurs, matchs et statistiques seront effacés (restaurables depuis la corbeille pendant 30 jours).")) {
+      let deletion;
+      try {
+        deletion = await api.resetSystem();
+      } catch (err) {
+        toast.error((err as Error).message);
+        return;
+      }
+      setRoster([]);
+      setGames([]);
+      setAttendance([]);
+      setInjuries([]);
+      // The schedule is kept, its games go back to unplayed
+      setSchedule(prev => prev.map(e => ({ ...e, gameId: null })));
+      dropFromRosters(() => false);
       setSelectedPlayer(null);
+      setEditingGame(null);
       setIsDeleteMode(false);
       setIsMatchDeleteMode(false);
-      toast.error("Système réinitialisé à zéro");
+      toastDeletion("Système réinitialisé à zéro", deletion);
     }
   };
 
-  const calculateStats = (matches: Match[]) => {
-    if (matches.length === 0) return { pts: 0, reb: 0, ast: 0, trend: 'none' };
-    
-    const total = matches.reduce((acc, m) => ({
-      pts: acc.pts + m.points,
-      reb: acc.reb + m.rebounds,
-      ast: acc.ast + m.assists
-    }), { pts: 0, reb: 0, ast: 0 });
-
-    const trend = matches.length >= 2 
-      ? matches[matches.length - 1].points >= matches[matches.length - 2].points ? 'up' : 'down'
-      : 'none';
+  // Club players with no team this season, e.g. after opening a new season
+  const unregistered = useMemo(() => sortedPlayers.filter(p => p.status !== 'left' && !teamOf(season, p.id)), [sortedPlayers, season]);
 
-    return {
-      pts: (total.pts / matches.length).toFixed(1),
-      reb: (total.reb / matches.length).toFixed(1),
-      ast: (total.ast / matches.length).toFixed(1),
-      trend
-    };
+  // One context per group, so that a state change only re-renders the
+  // components reading its group; actions keep their identity
+  return {
+    sessionState: useGroup({ session, needsSetup, users, view, user }),
+    statusState: useGroup({ isOnline, pendingCount, legacyData, unreadCount, unreadNotifications }),
+    clubState: useGroup({
+      hiddenPlayers, shareLinks, seasons, teams, roster, games, schedule, attendance, injuries, season, team, seasonGames, teamGames,
+      sortedPlayers, playerById, teamPlayers, players, teamStats, seasonAttendance, filteredPlayers, filteredCareers, filteredTeamStats,
+      unregistered,
+    }),
+    feedState: useGroup({ messages, newSince, notifications, notificationSettings, pushEndpoint, trash, auditLog }),
+    uiState: useGroup({
+      scheduledGame, selectedPlayer, isDeleteMode, editingGame, pendingImport, editingPlayerId, statsScope, leaderStat, chartStats,
+      showRolling, comparedPlayers, gameFilter, report, generatingReport,
+    }),
+    actions: useStableActions({
+      setView, setSelection, setScheduledGame, setSelectedPlayer, setIsDeleteMode, setEditingGame, setPendingImport, setEditingPlayerId,
+      setStatsScope, setLeaderStat, setChartStats, setShowRolling, setComparedPlayers, setGameFilter, setReport, handleLogin, handleLogout,
+      handleAddUser, handleUpdateUser, handleDeleteUser, handleSaveGame, handleFinishLiveGame, handleRestore, handlePurgeTrash,
+      handleDeleteGame, handleSaveScheduleEvent, handleDeleteScheduleEvent, handleSaveAttendance, handleSaveInjury, handleDeleteInjury,
+      handleRecordScheduledGame, handleExportCalendar, handleCalendarFeed, copyShareLink, handleCreateShareLink, handleRevokeShareLink,
+      handleSetPlayerHidden, handleAddPlayer, handleUpdatePlayer, handleLoadDefaultRoster, handleClearRoster, handleMovePlayer,
+      handleAddSeason, handleAddTeam, handleDeletePlayer, handleDeleteMatch, handleResetPlayerStats, handleAddMessage, handleEditMessage,
+      handleReact, handlePinMessage, handleOpenNotification, handleMarkNotificationsRead, handleSaveNotificationSettings, handleTogglePush,
+      handleTestPush, handleGenerateReport, handleDeleteMessage, handleExport, handleShareCard, handlePrintReport, handleImportFile,
+      handleImportLegacy, handleConfirmImport, handleResetSystem,
+    }),
   };
+}
 
-  const LandingPage = () => (
+function LandingPage() {
+  const { session, needsSetup } = useSession();
+  const { roster, games } = useClub();
+  const { setView, handleLogin } = useActions();
+  const [credentials, setCredentials] = useState({ username: '', displayName: '', password: '' });
+  const setCredential = (field: keyof typeof credentials, value: string) =>
+    setCredentials(prev => ({ ...prev, [field]: value }));
+
+  return (
     <motion.div 
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
@@ -335,24 +1389,71 @@ export default function App() {
           transition={{ delay: 0.5 }}
           className="flex flex-col sm:flex-row items-center justify-center gap-6"
         >
-          <button 
-            onClick={() => setView('home')}
-            className="group relative px-8 py-4 bg-white text-black font-bold rounded-full overflow-hidden transition-all hover:scale-105 active:scale-95"
-          >
-            <span className="relative z-10 flex items-center gap-2">
-              Accéder au Dashboard <ArrowRight className="w-5 h-5 transition-transform group-hover:translate-x-1" />
-            </span>
-          </button>
-          
+          {session ? (
+            <button 
+              onClick={() => setView('home')}
+              className="group relative px-8 py-4 bg-white text-black font-bold rounded-full overflow-hidden transition-all hover:scale-105 active:scale-95"
+            >
+              <span className="relative z-10 flex items-center gap-2">
+                Accéder au Dashboard <ArrowRight className="w-5 h-5 transition-transform group-hover:translate-x-1" />
+              </span>
+            </button>
+          ) : (
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                handleLogin(credentials.username, credentials.password, credentials.displayName);
+              }}
+              className="w-full max-w-xs space-y-3 text-left"
+            >
+              {needsSetup && (
+                <p className="text-[10px] font-bold text-emerald-500 uppercase tracking-widest text-center">
+                  Première connexion : créez le compte administrateur
+                </p>
+              )}
+              <input 
+                type="text" 
+                placeholder="Nom d'utilisateur" 
+                autoComplete="username"
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                value={credentials.username}
+                onChange={e => setCredential('username', e.target.value)}
+              />
+              {needsSetup && (
+                <input 
+                  type="text" 
+                  placeholder="Nom affiché" 
+                  className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  value={credentials.displayName}
+                  onChange={e => setCredential('displayName', e.target.value)}
+                />
+              )}
+              <input 
+                type="password" 
+                placeholder="Mot de passe" 
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                value={credentials.password}
+                onChange={e => setCredential('password', e.target.value)}
+              />
+              <button 
+                type="submit"
+                className="group w-full px-8 py-4 bg-white text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95 flex items-center justify-center gap-2"
+              >
+                {needsSetup ? "Créer le compte" : "Se connecter"} <ArrowRight className="w-5 h-5 transition-transform group-hover:translate-x-1" />
+              </button>
+            </form>
+          )}
+        
           <div className="flex items-center gap-8 text-white/60 text-sm font-medium">
             <div className="flex flex-col items-center">
-              <span className="text-white font-bold text-xl">{playerNames.length}</span>
+              <span className="text-white font-bold text-xl">{roster.length}</span>
               <span className="text-[10px] uppercase tracking-widest opacity-50">Joueurs</span>
             </div>
             <div className="w-px h-8 bg-white/10" />
             <div className="flex flex-col items-center">
               <span className="text-white font-bold text-xl">
-                {(Object.values(players) as Match[][]).reduce((acc, m) => acc + m.length, 0)}
+                {games.length}
               </span>
               <span className="text-[10px] uppercase tracking-widest opacity-50">Matchs</span>
             </div>
@@ -370,8 +1471,14 @@ export default function App() {
       </motion.div>
     </motion.div>
   );
+}
 
-  const DashboardLayout = ({ children, title, subtitle }: { children: React.ReactNode, title: string, subtitle?: string }) => (
+function DashboardLayout({ children, title, subtitle }: { children: React.ReactNode, title: string, subtitle?: string }) {
+  const { view, user } = useSession();
+  const { isOnline, pendingCount, unreadCount, unreadNotifications } = useStatus();
+  const { seasons, teams, season, team } = useClub();
+  const { setView, setSelection, handleLogout, handleAddSeason, handleAddTeam } = useActions();
+  return (
     <motion.div 
       initial={{ opacity: 0, x: 20 }}
       animate={{ opacity: 1, x: 0 }}
@@ -395,14 +1502,71 @@ export default function App() {
             </div>
           </div>
           
-          <button 
-            onClick={() => setView('landing')}
-            className="p-2 text-white/40 hover:text-white transition-colors"
-          >
-            <LogOut className="w-5 h-5" />
-          </button>
-        </div>
-      </header>
+          <div className="flex items-center gap-2">
+            {(!isOnline || pendingCount > 0) && (
+              <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-orange-500/10 border border-orange-500/20 text-orange-500">
+                <CloudOff className="w-3.5 h-3.5" />
+                <span className="text-[9px] font-black uppercase tracking-widest">
+                  {isOnline ? 'Synchro' : 'Hors ligne'}{pendingCount > 0 && ` · ${pendingCount}`}
+                </span>
+              </div>
+            )}
+            {user && (
+              <button
+                onClick={() => setView('notifications')}
+                title="Notifications"
+                className="relative p-2 text-white/40 hover:text-white transition-colors"
+              >
+                <Bell className="w-5 h-5" />
+                {unreadNotifications > 0 && (
+                  <span className="absolute top-0 right-0 min-w-4 h-4 px-1 bg-rose-500 rounded-full border-2 border-black text-[8px] font-black text-white flex items-center justify-center">
+                    {unreadNotifications > 99 ? '99+' : unreadNotifications}
+                  </span>
+                )}
+              </button>
+            )}
+            {user && (
+              <div className="hidden sm:block text-right">
+                <div className="text-xs font-black text-white">{user.displayName}</div>
+                <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">{ROLE_LABELS[user.role]}</div>
+              </div>
+            )}
+            <button 
+              onClick={handleLogout}
+              title="Se déconnecter"
+              className="p-2 text-white/40 hover:text-white transition-colors"
+            >
+              <LogOut className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        {season && team && (
+          <div className="max-w-7xl mx-auto px-6 pb-3 flex items-center gap-2">
+            <select
+              className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black text-white/60 uppercase tracking-widest focus:outline-none"
+              value={season.id}
+              onChange={e => {
+                if (e.target.value === NEW_OPTION) handleAddSeason();
+                else setSelection(prev => ({ ...prev, seasonId: e.target.value }));
+              }}
+            >
+              {seasons.map(s => <option key={s.id} value={s.id} className="bg-slate-900">Saison {s.name}</option>)}
+              {can(user, 'manage_roster') && <option value={NEW_OPTION} className="bg-slate-900">+ Nouvelle saison…</option>}
+            </select>
+            <select
+              className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black text-white/60 uppercase tracking-widest focus:outline-none"
+              value={team.id}
+              onChange={e => {
+                if (e.target.value === NEW_OPTION) handleAddTeam();
+                else setSelection(prev => ({ ...prev, teamId: e.target.value }));
+              }}
+            >
+              {teams.map(t => <option key={t.id} value={t.id} className="bg-slate-900">{t.name}</option>)}
+              {can(user, 'manage_roster') && <option value={NEW_OPTION} className="bg-slate-900">+ Nouvelle catégorie…</option>}
+            </select>
+          </div>
+        )}
+      </header>
 
       <main className="max-w-4xl mx-auto px-6 py-8">
         {children}
@@ -412,12 +1576,16 @@ export default function App() {
         <div className="max-w-lg mx-auto flex items-center justify-between">
           <NavButton icon={<Activity className="w-6 h-6" />} label="Home" active={view === 'home'} onClick={() => setView('home')} />
           <NavButton icon={<Users className="w-6 h-6" />} label="Roster" active={view === 'roster'} onClick={() => setView('roster')} />
-          <NavButton icon={<Plus className="w-6 h-6" />} label="Match" active={view === 'add-match'} onClick={() => setView('add-match')} />
+          {can(user, 'edit_stats') && (
+            <NavButton icon={<Plus className="w-6 h-6" />} label="Match" active={view === 'add-match'} onClick={() => setView('add-match')} />
+          )}
           <NavButton icon={
             <div className="relative">
               <MessageSquare className="w-6 h-6" />
               {unreadCount > 0 && (
-                <span className="absolute -top-1 -right-1 w-3 h-3 bg-rose-500 rounded-full border-2 border-black" />
+                <span className="absolute -top-2 -right-2 min-w-4 h-4 px-1 bg-rose-500 rounded-full border-2 border-black text-[8px] font-black text-white flex items-center justify-center">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
               )}
             </div>
           } label="Infos" active={view === 'feed'} onClick={() => setView('feed')} />
@@ -426,8 +1594,10 @@ export default function App() {
       </nav>
     </motion.div>
   );
+}
 
-  const NavButton = ({ icon, label, active, onClick }: { icon: React.ReactNode, label: string, active: boolean, onClick: () => void }) => (
+function NavButton({ icon, label, active, onClick }: { icon: React.ReactNode, label: string, active: boolean, onClick: () => void }) {
+  return (
     <button 
       onClick={onClick}
       className={cn(
@@ -439,41 +1609,283 @@ export default function App() {
       <span className="text-[9px] font-black uppercase tracking-widest">{label}</span>
     </button>
   );
+}
+
+function NextGameCard() {
+  const { user } = useSession();
+  const { teams, schedule, team } = useClub();
+  const { setView } = useActions();
+  const teamSchedule = schedule.filter(e => e.teamId === null || e.teamId === team?.id);
+  const next = upcomingEvents(teamSchedule).find(e => e.kind === 'game');
+  const toRecord = can(user, 'edit_stats') ? gamesToRecord(teamSchedule).length : 0;
+  return (
+    <section className="bg-emerald-500/10 border border-emerald-500/20 rounded-3xl p-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <CalendarDays className="w-5 h-5 text-emerald-500" />
+          <h3 className="text-sm font-black text-white uppercase tracking-tight">Prochain Match</h3>
+        </div>
+        <button
+          onClick={() => setView('schedule')}
+          className="flex items-center gap-1 text-[9px] font-black text-emerald-500 uppercase tracking-widest"
+        >
+          Calendrier <ChevronRight className="w-3 h-3" />
+        </button>
+      </div>
+      {next ? (
+        <div className="space-y-1">
+          <div className="text-lg font-black text-white">{scheduleTitle(next, teams)}</div>
+          <div className="flex flex-wrap gap-x-3 text-[10px] font-bold text-white/40 uppercase tracking-widest">
+            <span>{scheduleDay(next.date)}{next.time && ` · ${next.time.replace(':', 'h')}`}</span>
+            {next.location && <span className="flex items-center gap-1"><MapPin className="w-3 h-3" />{next.location}</span>}
+            {next.competition && <span>{next.competition}</span>}
+          </div>
+        </div>
+      ) : (
+        <p className="text-[10px] font-bold text-white/30 uppercase tracking-widest">Aucun match programmé</p>
+      )}
+      {toRecord > 0 && (
+        <button onClick={() => setView('schedule')} className="text-[9px] font-black text-orange-500 uppercase tracking-widest">
+          {toRecord} match(s) joué(s) sans statistiques
+        </button>
+      )}
+    </section>
+  );
+}
 
-  const HomeHub = () => (
+function HomeHub() {
+  const { users, user } = useSession();
+  const { legacyData } = useStatus();
+  const { team, teamGames, playerById, teamPlayers, teamStats } = useClub();
+  const { pendingImport, gameFilter } = useUi();
+  const {
+    setView, setPendingImport, setLeaderStat, setGameFilter, handleExport, handleImportFile, handleImportLegacy, handleConfirmImport,
+    handleResetSystem,
+  } = useActions();
+  return (
     <DashboardLayout title="IBAA ESPOIRS" subtitle="Performance Hub">
       <div className="grid grid-cols-2 gap-4">
         <HubCard 
           icon={<Users className="w-8 h-8" />} 
           title="Roster" 
-          desc={`${playerNames.length} Athlètes`} 
+          desc={`${teamPlayers.length} Athlètes · ${teamGames.length} Matchs`} 
           color="emerald"
           onClick={() => setView('roster')}
         />
-        <HubCard 
-          icon={<Plus className="w-8 h-8" />} 
-          title="Match" 
-          desc="Enregistrer" 
-          color="blue"
-          onClick={() => setView('add-match')}
-        />
+        {can(user, 'edit_stats') && (
+          <HubCard 
+            icon={<Plus className="w-8 h-8" />} 
+            title="Match" 
+            desc="Enregistrer" 
+            color="blue"
+            onClick={() => setView('add-match')}
+          />
+        )}
         <HubCard 
           icon={<BarChart2 className="w-8 h-8" />} 
           title="Stats" 
-          desc="Analyses" 
+          desc={can(user, 'view_all_stats') ? "Analyses" : "Mes Analyses"} 
           color="purple"
           onClick={() => setView('stats')}
         />
-        <HubCard 
-          icon={<Activity className="w-8 h-8" />} 
-          title="Nouveau" 
-          desc="Joueur" 
-          color="orange"
-          onClick={() => setView('add-player')}
-        />
+        {can(user, 'manage_roster') && (
+          <HubCard 
+            icon={<Activity className="w-8 h-8" />} 
+            title="Nouveau" 
+            desc="Joueur" 
+            color="orange"
+            onClick={() => setView('add-player')}
+          />
+        )}
       </div>
 
       <div className="mt-8 space-y-4">
+        <NextGameCard />
+
+        {can(user, 'view_all_stats') && team && (
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-black text-white uppercase tracking-tight">Leaders {team.name}</h3>
+              <button
+                onClick={() => setView('leaders')}
+                className="flex items-center gap-1 text-[9px] font-black text-emerald-500 uppercase tracking-widest"
+              >
+                Classements <ChevronRight className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {LEADER_CARDS.map(key => (
+                <button
+                  key={key}
+                  onClick={() => {
+                    setLeaderStat(key);
+                    setView('leaders');
+                  }}
+                  className="bg-white/[0.03] border border-white/5 rounded-2xl p-3 text-left space-y-2 hover:bg-white/[0.06] transition-all"
+                >
+                  <div className="text-[9px] font-black text-emerald-500 uppercase tracking-widest">
+                    {RANKED_STATS.find(s => s.key === key)!.label}
+                  </div>
+                  {rankPlayers(teamStats, teamPlayers.map(p => p.id), key, 'average').slice(0, 3).map((r, i) => (
+                    <div key={r.playerId} className="flex items-center justify-between gap-1 text-[10px]">
+                      <span className={cn("truncate", i === 0 ? "font-black text-white" : "text-white/50")}>
+                        {playerById.get(r.playerId)!.lastName}
+                      </span>
+                      <span className="font-black text-white/80">{formatStat(r.value, key, 'average')}</span>
+                    </div>
+                  ))}
+                  {teamGames.length === 0 && <div className="text-[9px] text-white/20 uppercase tracking-widest">Aucun match</div>}
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {can(user, 'edit_stats') && (
+          <section className="bg-rose-500/10 border border-rose-500/20 rounded-3xl p-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Timer className="w-5 h-5 text-rose-500" />
+                <div>
+                  <h3 className="text-sm font-black text-white uppercase tracking-tight">Match en Direct</h3>
+                  <p className="text-[9px] font-bold text-white/30 uppercase tracking-widest">Saisie action par action</p>
+                </div>
+              </div>
+              <button 
+                onClick={() => setView('live')}
+                className="px-4 py-2 bg-rose-500 text-black text-[10px] font-black rounded-xl uppercase tracking-widest"
+              >
+                Lancer
+              </button>
+            </div>
+          </section>
+        )}
+
+        {can(user, 'export_data') && (
+          <section className="bg-blue-500/10 border border-blue-500/20 rounded-3xl p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Database className="w-5 h-5 text-blue-500" />
+                <div>
+                  <h3 className="text-sm font-black text-white uppercase tracking-tight">Sauvegarde</h3>
+                  <p className="text-[9px] font-bold text-white/30 uppercase tracking-widest">Export & Import des données</p>
+                </div>
+              </div>
+              {isFilterActive(gameFilter) && (
+                <button
+                  onClick={() => setGameFilter(EMPTY_FILTER)}
+                  className="flex items-center gap-1 text-[9px] font-black text-emerald-500 uppercase tracking-widest"
+                  title="Le CSV ne contient que les matchs filtrés"
+                >
+                  CSV filtré <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <button 
+                onClick={() => handleExport('json')}
+                className="py-2 bg-blue-500 text-black text-[10px] font-black rounded-xl uppercase tracking-widest"
+              >
+                JSON
+              </button>
+              <button 
+                onClick={() => handleExport('csv')}
+                className="py-2 bg-blue-500 text-black text-[10px] font-black rounded-xl uppercase tracking-widest"
+              >
+                CSV
+              </button>
+              {can(user, 'import_data') && (
+                <label className="py-2 bg-white/5 border border-white/10 text-white/60 text-[10px] font-black rounded-xl uppercase tracking-widest text-center cursor-pointer flex items-center justify-center gap-1">
+                  <Upload className="w-3 h-3" /> Importer
+                  <input 
+                    type="file" 
+                    accept=".json,.csv" 
+                    className="hidden" 
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportFile(file);
+                      e.target.value = '';
+                    }} 
+                  />
+                </label>
+              )}
+            </div>
+
+            {legacyData && can(user, 'import_data') && !pendingImport && (
+              <button
+                onClick={handleImportLegacy}
+                className="w-full py-2 bg-orange-500/10 border border-orange-500/20 text-orange-500 text-[10px] font-black rounded-xl uppercase tracking-widest"
+              >
+                Importer les données de la première version trouvées sur cet appareil
+              </button>
+            )}
+
+            {pendingImport && (
+              <div className="bg-black/40 border border-white/10 rounded-2xl p-4 space-y-3 text-left">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-black text-white truncate">{pendingImport.fileName}</span>
+                  <button onClick={() => setPendingImport(null)} className="text-white/40 hover:text-white">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-[10px] font-bold uppercase tracking-widest">
+                  <span className="text-emerald-500">{pendingImport.preview.newPlayers.length} nouveaux joueurs</span>
+                  <span className="text-emerald-500">{pendingImport.preview.newGames} nouveaux matchs</span>
+                  <span className="text-orange-500">{pendingImport.preview.duplicatePlayers.length} joueurs déjà présents</span>
+                  <span className="text-orange-500">{pendingImport.preview.duplicateGames.length} matchs déjà présents</span>
+                  {pendingImport.preview.messages > 0 && <span className="text-white/40">{pendingImport.preview.messages} messages</span>}
+                </div>
+                {pendingImport.preview.sameNamePlayers.length > 0 && (
+                  <p className="text-[9px] text-orange-500">
+                    Homonymes : {pendingImport.preview.sameNamePlayers.join(', ')}. Un profil distinct sera créé pour chacun ; vérifiez qu'il ne s'agit pas du même joueur.
+                  </p>
+                )}
+                {pendingImport.preview.duplicateGames.length > 0 && (
+                  <p className="text-[9px] text-white/30">
+                    Fusion : les matchs déjà présents ({pendingImport.preview.duplicateGames.map(g => g.date).join(', ')}) seront ignorés.
+                  </p>
+                )}
+                {pendingImport.preview.errors.length > 0 ? (
+                  <ul className="text-[10px] text-rose-500 space-y-1 max-h-32 overflow-y-auto">
+                    {pendingImport.preview.errors.map((error, i) => <li key={i}>{error}</li>)}
+                  </ul>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => handleConfirmImport('merge')} className="py-2 bg-emerald-500 text-black text-[10px] font-black rounded-xl uppercase tracking-widest">
+                      Fusionner
+                    </button>
+                    {can(user, 'reset_system') && (
+                      <button onClick={() => handleConfirmImport('replace')} className="py-2 bg-rose-500/10 border border-rose-500/20 text-rose-500 text-[10px] font-black rounded-xl uppercase tracking-widest">
+                        Remplacer
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        {can(user, 'manage_users') && (
+          <section className="bg-purple-500/10 border border-purple-500/20 rounded-3xl p-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Shield className="w-5 h-5 text-purple-500" />
+                <div>
+                  <h3 className="text-sm font-black text-white uppercase tracking-tight">Utilisateurs</h3>
+                  <p className="text-[9px] font-bold text-white/30 uppercase tracking-widest">{users.length} comptes · Rôles & accès</p>
+                </div>
+              </div>
+              <button 
+                onClick={() => setView('users')}
+                className="px-4 py-2 bg-purple-500 text-black text-[10px] font-black rounded-xl uppercase tracking-widest"
+              >
+                Gérer
+              </button>
+            </div>
+          </section>
+        )}
+
         <section className="bg-emerald-500/10 border border-emerald-500/20 rounded-3xl p-6">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
@@ -494,135 +1906,307 @@ export default function App() {
           </div>
         </section>
 
-        <section className="bg-rose-500/5 border border-rose-500/10 rounded-3xl p-6">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Activity className="w-4 h-4 text-rose-500" />
-              <h2 className="text-[10px] font-black text-rose-500 uppercase tracking-[0.2em]">Maintenance</h2>
+        {can(user, 'view_audit') && (
+          <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <History className="w-5 h-5 text-emerald-500" />
+                <div>
+                  <h3 className="text-sm font-black text-white uppercase tracking-tight">Corbeille & Historique</h3>
+                  <p className="text-[9px] font-bold text-white/30 uppercase tracking-widest">Restaurer, voir qui a modifié quoi</p>
+                </div>
+              </div>
+              <button 
+                onClick={() => setView('trash')}
+                className="px-4 py-2 bg-white/5 border border-white/10 text-white/60 text-[10px] font-black rounded-xl uppercase tracking-widest"
+              >
+                Ouvrir
+              </button>
             </div>
-            <button 
-              onClick={handleResetSystem}
-              className="text-[9px] font-black text-rose-500/40 hover:text-rose-500 uppercase tracking-widest"
-            >
-              Reset Global
-            </button>
-          </div>
-        </section>
+          </section>
+        )}
+
+        {can(user, 'reset_system') && (
+          <section className="bg-rose-500/5 border border-rose-500/10 rounded-3xl p-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Activity className="w-4 h-4 text-rose-500" />
+                <h2 className="text-[10px] font-black text-rose-500 uppercase tracking-[0.2em]">Maintenance</h2>
+              </div>
+              <button 
+                onClick={handleResetSystem}
+                className="text-[9px] font-black text-rose-500/40 hover:text-rose-500 uppercase tracking-widest"
+              >
+                Reset Global
+              </button>
+            </div>
+          </section>
+        )}
       </div>
     </DashboardLayout>
   );
+}
 
-  const HubCard = ({ icon, title, desc, color, onClick }: { icon: React.ReactNode, title: string, desc: string, color: string, onClick: () => void }) => {
-    const colors: any = {
-      emerald: "bg-emerald-500/10 text-emerald-500 border-emerald-500/20",
-      blue: "bg-blue-500/10 text-blue-500 border-blue-500/20",
-      purple: "bg-purple-500/10 text-purple-500 border-purple-500/20",
-      orange: "bg-orange-500/10 text-orange-500 border-orange-500/20",
-    };
-    return (
-      <button 
-        onClick={onClick}
-        className={cn(
-          "p-8 rounded-[2.5rem] border flex flex-col items-center text-center gap-4 transition-all hover:scale-[1.02] active:scale-95",
-          colors[color]
-        )}
+function HubCard({ icon, title, desc, color, onClick }: { icon: React.ReactNode, title: string, desc: string, color: string, onClick: () => void }) {
+  const colors: any = {
+    emerald: "bg-emerald-500/10 text-emerald-500 border-emerald-500/20",
+    blue: "bg-blue-500/10 text-blue-500 border-blue-500/20",
+    purple: "bg-purple-500/10 text-purple-500 border-purple-500/20",
+    orange: "bg-orange-500/10 text-orange-500 border-orange-500/20",
+  };
+  return (
+    <button 
+      onClick={onClick}
+      className={cn(
+        "p-8 rounded-[2.5rem] border flex flex-col items-center text-center gap-4 transition-all hover:scale-[1.02] active:scale-95",
+        colors[color]
+      )}
+    >
+      {icon}
+      <div>
+        <h3 className="text-lg font-black uppercase tracking-tight text-white">{title}</h3>
+        <p className="text-[10px] font-bold opacity-40 uppercase tracking-widest">{desc}</p>
+      </div>
+    </button>
+  );
+}
+
+function RosterPage() {
+  const { user } = useSession();
+  const { isOnline } = useStatus();
+  const {
+    hiddenPlayers, shareLinks, teams, season, team, teamGames, playerById, teamPlayers, seasonAttendance, filteredTeamStats, unregistered,
+  } = useClub();
+  const { isDeleteMode, editingPlayerId, gameFilter } = useUi();
+  const {
+    setView, setSelectedPlayer, setIsDeleteMode, setEditingPlayerId, setGameFilter, copyShareLink, handleCreateShareLink,
+    handleRevokeShareLink, handleSetPlayerHidden, handleUpdatePlayer, handleLoadDefaultRoster, handleMovePlayer, handleDeletePlayer,
+    handleResetPlayerStats, handlePrintReport,
+  } = useActions();
+  const [query, setQuery] = useState('');
+  const [position, setPosition] = useState<Position | ''>('');
+  const [sort, setSort] = useState<{ key: RosterSortKey, desc: boolean }>({ key: 'name', desc: false });
+  // Averages of other players are only shown to roles that may see them
+  const showStats = can(user, 'view_all_stats');
+
+  const attendanceRate = (player: Player) =>
+    attendanceSummary(seasonAttendance.filter(r => r.playerId === player.id)).rate;
+  const sortValue = (player: Player) => {
+    if (sort.key === 'games') return filteredTeamStats[player.id].length;
+    if (sort.key === 'attendance') return attendanceRate(player) ?? -1;
+    return statValue(filteredTeamStats[player.id], sort.key as StatKey, 'average') ?? -1;
+  };
+  const shownLinks = (shareLinks ?? []).filter(l => l.seasonId === season?.id && l.teamId === team?.id);
+  const search = query.trim().toLowerCase();
+  const shownPlayers = teamPlayers
+    .filter(p => (!search || playerName(p).toLowerCase().includes(search)) && (!position || p.position === position))
+    .sort((a, b) => {
+      // Names read A to Z by default; stats start with the highest value
+      const order = sort.key === 'name' ? byPlayerName(a, b) : sortValue(a) - sortValue(b);
+      return sort.desc ? -order : order;
+    });
+
+  const SortHeader = ({ column, label, className }: { column: RosterSortKey, label: string, className?: string, key?: string }) => (
+    <th className={cn("px-2 py-3 text-center whitespace-nowrap", className)}>
+      <button
+        onClick={() => setSort(prev => ({ key: column, desc: prev.key === column ? !prev.desc : column !== 'name' }))}
+        className={cn("uppercase tracking-widest", sort.key === column && "text-emerald-500")}
       >
-        {icon}
-        <div>
-          <h3 className="text-lg font-black uppercase tracking-tight text-white">{title}</h3>
-          <p className="text-[10px] font-bold opacity-40 uppercase tracking-widest">{desc}</p>
-        </div>
+        {label}{sort.key === column && (sort.desc ? ' ↓' : ' ↑')}
       </button>
-    );
-  };
+    </th>
+  );
 
-  const RosterPage = () => (
+  return (
     <DashboardLayout title="Roster" subtitle="Gestion des Athlètes">
       <div className="space-y-6">
+        {editingPlayerId && playerById.has(editingPlayerId) && (
+          <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-8 backdrop-blur-sm">
+            <h2 className="text-lg font-bold text-white uppercase tracking-tight mb-6">
+              Modifier {playerName(playerById.get(editingPlayerId)!)}
+            </h2>
+            <PlayerForm
+              initial={playerById.get(editingPlayerId)!}
+              submitLabel="Enregistrer"
+              onSubmit={async input => {
+                const saved = await handleUpdatePlayer({ ...input, id: editingPlayerId });
+                if (saved) setEditingPlayerId(null);
+                return saved;
+              }}
+              onCancel={() => setEditingPlayerId(null)}
+            />
+          </section>
+        )}
+
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-black text-white uppercase tracking-tight">Liste des Joueurs</h2>
-          <button 
-            onClick={() => setIsDeleteMode(!isDeleteMode)}
-            className={cn(
-              "px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border",
-              isDeleteMode ? "bg-rose-500/20 border-rose-500/50 text-rose-500" : "bg-white/5 border-white/10 text-white/40"
+          <div className="flex gap-2">
+            {showStats && team && teamPlayers.length > 0 && (
+              <button
+                onClick={() => handlePrintReport(() => teamReportHtml(team.name, `Saison ${season?.name ?? ''}`.trim(), teamPlayers, filteredTeamStats, filterGames(teamGames, gameFilter)))}
+                title="Rapport de l'équipe à imprimer ou enregistrer en PDF"
+                className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border bg-white/5 border-white/10 text-white/40 hover:text-white flex items-center gap-2"
+              >
+                <FileText className="w-3 h-3" /> Rapport
+              </button>
             )}
-          >
-            {isDeleteMode ? "Terminer" : "Éditer"}
-          </button>
+            {can(user, 'manage_roster') && (
+              <button 
+                onClick={() => setIsDeleteMode(!isDeleteMode)}
+                className={cn(
+                  "px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border",
+                  isDeleteMode ? "bg-rose-500/20 border-rose-500/50 text-rose-500" : "bg-white/5 border-white/10 text-white/40"
+                )}
+              >
+                {isDeleteMode ? "Terminer" : "Éditer"}
+              </button>
+            )}
+          </div>
         </div>
 
-        <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden">
+        {teamPlayers.length > 0 && (
+          <div className="flex gap-2">
+            <input
+              type="search"
+              placeholder="Rechercher un joueur"
+              className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+            <select
+              className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs focus:outline-none"
+              value={position}
+              onChange={e => setPosition(e.target.value as Position | '')}
+            >
+              <option value="" className="bg-slate-900">Tous les postes</option>
+              {POSITIONS.map(p => <option key={p} value={p} className="bg-slate-900">{POSITION_LABELS[p]}</option>)}
+            </select>
+          </div>
+        )}
+        {showStats && teamPlayers.length > 0 && <GameFilterBar filter={gameFilter} games={teamGames} onChange={setGameFilter} />}
+
+        <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-x-auto">
           <table className="w-full text-left border-collapse">
+            {teamPlayers.length > 0 && (
+              <thead>
+                <tr className="text-[9px] font-black text-white/30 uppercase tracking-widest border-b border-white/5">
+                  <SortHeader column="name" label="Joueur" className="px-6 sticky left-0 bg-[#050505]" />
+                  {showStats && <SortHeader column="games" label="MJ" />}
+                  {showStats && ROSTER_COLUMNS.map(key => (
+                    <SortHeader key={key} column={key} label={RANKED_STATS.find(s => s.key === key)!.label} />
+                  ))}
+                  {showStats && <SortHeader column="attendance" label="Prés." />}
+                  <th />
+                </tr>
+              </thead>
+            )}
             <tbody className="divide-y divide-white/5">
-              {playerNames.length === 0 ? (
+              {teamPlayers.length === 0 ? (
                 <tr>
-                  <td className="p-20 text-center">
+                  <td colSpan={99} className="p-20 text-center">
                     <p className="text-white/10 italic mb-6">Aucun athlète détecté</p>
-                    <button 
-                      onClick={() => {
-                        const defaultRoster = [
-                          "VEH ELIE", "COULIBALY ISMAEL", "KOFFI DANIEL", "KOUADIO STEVEN", 
-                          "YAYA", "KOUAKOU MALLY", "KOUMAN CHRIST", "EBOH EVRAD", 
-                          "KOUASSI MOISE", "KADIO SAMUEL", "KONAN KONAN", "ANAS", 
-                          "SOUALIO", "AUREL", "PAUL"
-                        ];
-                        const initial: PlayersData = {};
-                        defaultRoster.forEach(name => {
-                          initial[name] = [];
-                        });
-                        setPlayers(initial);
-                        toast.success("Roster officiel chargé");
-                      }}
-                      className="px-6 py-3 bg-emerald-500 text-black font-black rounded-xl uppercase tracking-widest text-xs shadow-lg shadow-emerald-500/20"
-                    >
-                      Charger Roster Officiel
-                    </button>
+                    {can(user, 'manage_roster') && (
+                      <button 
+                        onClick={() => handleLoadDefaultRoster("Roster officiel chargé")}
+                        className="px-6 py-3 bg-emerald-500 text-black font-black rounded-xl uppercase tracking-widest text-xs shadow-lg shadow-emerald-500/20"
+                      >
+                        Charger Roster Officiel
+                      </button>
+                    )}
                   </td>
                 </tr>
               ) : (
-                playerNames.map(name => {
-                  const matches = players[name];
-                  const stats = calculateStats(matches);
+                shownPlayers.map(player => {
+                  const matches = filteredTeamStats[player.id];
                   return (
-                    <tr key={name} className="hover:bg-white/[0.02] transition-colors">
-                      <td className="px-6 py-4" onClick={() => { setSelectedPlayer(name); setView('stats'); }}>
+                    <tr key={player.id} className="hover:bg-white/[0.02] transition-colors">
+                      <td
+                        className={cn("px-6 py-4 sticky left-0 bg-[#050505]", canViewPlayer(user, player.id) && "cursor-pointer")}
+                        onClick={() => {
+                          if (!canViewPlayer(user, player.id)) return;
+                          setSelectedPlayer(player.id);
+                          setView('stats');
+                        }}
+                      >
                         <div className="flex items-center gap-4">
-                          <div className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center text-xs font-black text-emerald-500">
-                            {name[0].toUpperCase()}
+                          <div className="w-10 h-10 rounded-xl bg-white/5 overflow-hidden flex items-center justify-center text-xs font-black text-emerald-500">
+                            {player.photo ? <img src={player.photo} alt="" className="w-full h-full object-cover" /> : initials(player)}
                           </div>
                           <div>
-                            <div className="font-bold text-white">{name}</div>
-                            <div className="text-[9px] text-white/20 uppercase tracking-widest">{matches.length} Matchs</div>
+                            <div className="font-bold text-white">
+                              {player.jerseyNumber !== null && <span className="text-emerald-500 mr-2">#{player.jerseyNumber}</span>}
+                              {playerName(player)}
+                            </div>
+                            <div className="text-[9px] text-white/20 uppercase tracking-widest">
+                              {[player.position && POSITION_LABELS[player.position], `${matches.length} Matchs`].filter(Boolean).join(' · ')}
+                            </div>
                           </div>
+                          <AvailabilityBadge player={player} />
                         </div>
                       </td>
+                      {showStats && <td className="px-2 py-4 text-center text-xs text-white/60">{matches.length}</td>}
+                      {showStats && ROSTER_COLUMNS.map(key => (
+                        <td key={key} className={cn("px-2 py-4 text-center text-xs whitespace-nowrap", sort.key === key ? "font-black text-white" : "text-white/60")}>
+                          {formatStat(statValue(matches, key, 'average'), key, 'average')}
+                        </td>
+                      ))}
+                      {showStats && (
+                        <td className={cn("px-2 py-4 text-center text-xs", sort.key === 'attendance' ? "font-black text-white" : "text-white/60")}>
+                          {formatPercentage(attendanceRate(player))}
+                        </td>
+                      )}
                       <td className="px-6 py-4 text-right">
                         <div className="flex items-center justify-end gap-2">
                           {isDeleteMode && (
                             <button 
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleResetPlayerStats(name);
+                                handleResetPlayerStats(player);
                               }}
                               className="px-2 py-1 bg-white/5 border border-white/10 rounded text-[8px] font-black text-white/40 hover:text-white uppercase tracking-widest"
                             >
                               Reset
                             </button>
                           )}
-                          <button 
-                            type="button"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleDeletePlayer(name);
-                            }}
-                            className={cn(
-                              "p-2 transition-all",
-                              isDeleteMode ? "text-rose-500 bg-rose-500/10 rounded-lg border border-rose-500/20" : "text-white/10 hover:text-rose-500"
-                            )}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
+                          {can(user, 'manage_roster') && (
+                            <select
+                              title="Changer de catégorie"
+                              className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[9px] font-black text-white/40 uppercase tracking-widest focus:outline-none"
+                              value={team!.id}
+                              onClick={e => e.stopPropagation()}
+                              onChange={e => handleMovePlayer(player, e.target.value || null)}
+                            >
+                              {teams.map(t => <option key={t.id} value={t.id} className="bg-slate-900">{t.name}</option>)}
+                              <option value="" className="bg-slate-900">Hors saison</option>
+                            </select>
+                          )}
+                          {can(user, 'manage_roster') && (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingPlayerId(player.id);
+                              }}
+                              className="p-2 text-white/10 hover:text-emerald-500 transition-all"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                          )}
+                          {can(user, 'manage_roster') && (
+                            <button 
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeletePlayer(player);
+                              }}
+                              className={cn(
+                                "p-2 transition-all",
+                                isDeleteMode ? "text-rose-500 bg-rose-500/10 rounded-lg border border-rose-500/20" : "text-white/10 hover:text-rose-500"
+                              )}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -632,93 +2216,298 @@ export default function App() {
             </tbody>
           </table>
         </div>
+
+        {can(user, 'manage_roster') && season && team && unregistered.length > 0 && (
+          <div className="bg-white/[0.02] border border-white/5 rounded-3xl p-6">
+            <h3 className="text-xs font-black text-white/40 uppercase tracking-[0.2em] mb-4">
+              Hors effectif {season.name} ({unregistered.length})
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {unregistered.map(player => (
+                <button
+                  key={player.id}
+                  onClick={() => handleMovePlayer(player, team.id)}
+                  title={`Ajouter à ${team.name}`}
+                  className="flex items-center gap-1 px-3 py-1 bg-white/5 border border-white/10 rounded-full text-[10px] font-bold text-white/60 hover:text-emerald-500 hover:border-emerald-500/30 transition-all"
+                >
+                  <Plus className="w-3 h-3" /> {playerName(player)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {can(user, 'manage_roster') && season && team && (
+          <div className="bg-white/[0.02] border border-white/5 rounded-3xl p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-xs font-black text-white/40 uppercase tracking-[0.2em]">Page publique {team.name}</h3>
+              <button
+                onClick={handleCreateShareLink}
+                disabled={!isOnline}
+                title={isOnline ? "Crée un lien en lecture seule pour les familles et les supporters" : "Disponible en ligne uniquement"}
+                className="flex items-center gap-2 text-[10px] font-black text-emerald-500 uppercase tracking-widest disabled:opacity-40"
+              >
+                <Link className="w-3 h-3" /> Nouveau lien
+              </button>
+            </div>
+            {shownLinks.length === 0 ? (
+              <p className="text-xs text-white/30">Aucun lien actif : l'effectif de la saison {season.name} n'est pas public.</p>
+            ) : (
+              <div className="space-y-2">
+                {shownLinks.map(link => (
+                  <div key={link.token} className="flex items-center justify-between gap-4 text-xs">
+                    <span className="text-white/60">Lien créé le {new Date(link.createdAt).toLocaleDateString('fr-FR')}</span>
+                    <div className="flex gap-4">
+                      <button onClick={() => copyShareLink(link.token)} className="font-black text-white/40 hover:text-white uppercase tracking-widest text-[10px]">
+                        Copier
+                      </button>
+                      <button onClick={() => handleRevokeShareLink(link.token)} className="font-black text-rose-500/60 hover:text-rose-500 uppercase tracking-widest text-[10px]">
+                        Révoquer
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {teamPlayers.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[9px] font-bold text-white/30 uppercase tracking-widest">Joueurs visibles sur la page publique</p>
+                <div className="flex flex-wrap gap-2">
+                  {teamPlayers.map(player => {
+                    const hidden = hiddenPlayers.includes(player.id);
+                    return (
+                      <button
+                        key={player.id}
+                        onClick={() => handleSetPlayerHidden(player.id, !hidden)}
+                        disabled={!isOnline}
+                        title={hidden ? "Masqué : cliquer pour l'afficher" : "Visible : cliquer pour le masquer"}
+                        className={cn(
+                          "px-3 py-1 rounded-full border text-[10px] font-bold transition-all disabled:opacity-40",
+                          hidden ? "bg-white/5 border-white/10 text-white/30 line-through" : "bg-emerald-500/10 border-emerald-500/30 text-emerald-500"
+                        )}
+                      >
+                        {playerName(player)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </DashboardLayout>
   );
+}
 
-  const AddMatchPage = () => (
-    <DashboardLayout title="Match" subtitle="Enregistrement Performance">
-      <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-8 backdrop-blur-sm">
-        <form onSubmit={handleAddMatch} className="space-y-6">
-          <div className="space-y-2">
-            <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Athlète</label>
-            <div className="flex gap-2">
-              <select 
-                className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none"
-                value={formData.selectedName}
-                onChange={e => setFormData(prev => ({ ...prev, selectedName: e.target.value }))}
-              >
-                <option value="" className="bg-slate-900">-- Choisir --</option>
-                {playerNames.map(name => <option key={name} value={name} className="bg-slate-900">{name}</option>)}
-              </select>
-              {formData.selectedName && (
-                <button 
-                  type="button"
-                  onClick={() => handleDeletePlayer(formData.selectedName)}
-                  className="p-3 bg-rose-500/10 border border-rose-500/20 text-rose-500 rounded-xl hover:bg-rose-500/20 transition-all"
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
-              )}
+function AddMatchPage() {
+  const { seasons, teams, injuries, season, team, sortedPlayers, teamPlayers } = useClub();
+  const { scheduledGame, editingGame } = useUi();
+  const { setScheduledGame, setEditingGame, handleSaveGame, handleDeleteGame } = useActions();
+  // A new sheet lists the team's injured players as sitting out injured
+  const newSheet = (scheduled?: ScheduleEvent | null) => {
+    const sheet = toGameForm(null, scheduled);
+    teamPlayers.filter(p => availability(p, injuries, sheet.date) === 'injured').forEach(p => {
+      sheet.lines[p.id] = { ...emptyLine(), dnp: 'injury' };
+    });
+    return sheet;
+  };
+  const [form, setForm] = useState<GameForm>(() => (editingGame ? toGameForm(editingGame) : newSheet(scheduledGame)));
+
+  const setField = (field: Exclude<keyof GameForm, 'lines'>, value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const setLine = (playerId: string, patch: Partial<LineForm>) =>
+    setForm(prev => {
+      const line = { ...(prev.lines[playerId] ?? emptyLine()), ...patch };
+      // Typing a stat implies the player was on the court
+      if (patch.played === undefined && patch.dnp === undefined) line.played = true;
+      if (line.played) line.dnp = null;
+      return { ...prev, lines: { ...prev.lines, [playerId]: line } };
+    });
+
+  // The team's players for the season (an edited game keeps its own season
+  // and team); anyone else only shows up on games they already played
+  const gameSeason = editingGame ? seasons.find(s => s.id === editingGame.seasonId) : season;
+  const gameTeamId = editingGame?.teamId ?? team?.id;
+  const formPlayers = sortedPlayers.filter(p =>
+    form.lines[p.id] || (p.status !== 'left' && teamOf(gameSeason, p.id) === gameTeamId));
+  const playedPlayers = formPlayers.filter(p => form.lines[p.id]?.played);
+  const benchedPlayers = formPlayers.filter(p => !form.lines[p.id]?.played && form.lines[p.id]?.dnp);
+  const linesTotal = playedPlayers.reduce((acc, p) => acc + toBoxScore(form.lines[p.id]).points, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    for (const player of playedPlayers) {
+      const error = validateBoxScore(toBoxScore(form.lines[player.id]));
+      if (error) {
+        toast.error(`${playerName(player)} : ${error}`);
+        return;
+      }
+    }
+    const saved = await handleSaveGame({
+      date: form.date,
+      opponent: form.opponent.trim(),
+      venue: form.venue,
+      competition: form.competition.trim(),
+      teamScore: form.teamScore === '' ? null : parseInt(form.teamScore) || 0,
+      opponentScore: form.opponentScore === '' ? null : parseInt(form.opponentScore) || 0,
+      lines: [
+        ...playedPlayers.map(p => ({ playerId: p.id, dnp: null, ...toBoxScore(form.lines[p.id]) })),
+        ...benchedPlayers.map(p => ({ playerId: p.id, dnp: form.lines[p.id].dnp, ...emptyBoxScore() }))
+      ]
+    });
+    if (saved) setForm(newSheet());
+  };
+
+  return (
+    <DashboardLayout title="Match" subtitle={editingGame ? "Modification du Match" : "Feuille de Match"}>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {scheduledGame && !editingGame && (
+          <div className="flex items-center justify-between gap-4 bg-blue-500/10 border border-blue-500/20 rounded-2xl px-4 py-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <CalendarDays className="w-4 h-4 text-blue-500 shrink-0" />
+              <span className="text-xs font-bold text-white truncate">{scheduleTitle(scheduledGame, teams)}</span>
             </div>
+            <button type="button" onClick={() => setScheduledGame(null)} className="text-white/40 hover:text-white" title="Saisir un autre match">
+              <X className="w-4 h-4" />
+            </button>
           </div>
+        )}
+        <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-8 backdrop-blur-sm space-y-6">
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Date</label>
-              <input type="date" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={formData.date} onChange={e => setFormData(prev => ({ ...prev, date: e.target.value }))} />
+              <input type="date" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={form.date} onChange={e => setField('date', e.target.value)} />
             </div>
             <div className="space-y-2">
-              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Points</label>
-              <input type="number" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={formData.points} onChange={e => setFormData(prev => ({ ...prev, points: e.target.value }))} />
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Adversaire</label>
+              <input type="text" placeholder="Nom de l'équipe" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={form.opponent} onChange={e => setField('opponent', e.target.value)} />
             </div>
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Rebonds</label>
-              <input type="number" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={formData.rebounds} onChange={e => setFormData(prev => ({ ...prev, rebounds: e.target.value }))} />
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Lieu</label>
+              <select className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none" value={form.venue} onChange={e => setField('venue', e.target.value)}>
+                <option value="home" className="bg-slate-900">Domicile</option>
+                <option value="away" className="bg-slate-900">Extérieur</option>
+              </select>
             </div>
             <div className="space-y-2">
-              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Passes</label>
-              <input type="number" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={formData.assists} onChange={e => setFormData(prev => ({ ...prev, assists: e.target.value }))} />
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Compétition</label>
+              <input type="text" placeholder="Championnat, Coupe..." className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={form.competition} onChange={e => setField('competition', e.target.value)} />
             </div>
           </div>
-          <button type="submit" className="w-full bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase tracking-widest text-xs mt-4">Enregistrer</button>
-        </form>
-      </section>
-    </DashboardLayout>
-  );
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Score IBAA</label>
+              <input type="number" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={form.teamScore} onChange={e => setField('teamScore', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Score Adversaire</label>
+              <input type="number" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={form.opponentScore} onChange={e => setField('opponentScore', e.target.value)} />
+            </div>
+          </div>
+        </section>
 
-  const AddPlayerPage = () => (
-    <DashboardLayout title="Nouveau" subtitle="Création de Profil">
-      <div className="space-y-8">
-        <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-8 backdrop-blur-sm">
-          <div className="flex items-center justify-between mb-8">
-            <h2 className="text-lg font-bold text-white uppercase tracking-tight">Ajouter un Athlète</h2>
-            <div className="flex gap-2">
-              <button 
-                onClick={() => {
-                  const defaultRoster = [
-                    "VEH ELIE", "COULIBALY ISMAEL", "KOFFI DANIEL", "KOUADIO STEVEN", 
-                    "YAYA", "KOUAKOU MALLY", "KOUMAN CHRIST", "EBOH EVRAD", 
-                    "KOUASSI MOISE", "KADIO SAMUEL", "KONAN KONAN", "ANAS", 
-                    "SOUALIO", "AUREL", "PAUL"
-                  ];
-                  setPlayers(prev => {
-                    const next = { ...prev };
-                    defaultRoster.forEach(name => {
-                      if (!next[name]) next[name] = [];
-                    });
-                    return next;
-                  });
-                  toast.success("Roster officiel restauré");
-                }}
-                className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/20 rounded-lg text-[9px] font-black text-emerald-500 uppercase tracking-widest transition-all"
-              >
-                Charger Roster Officiel
+        <section className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden">
+          <div className="px-6 py-4 flex items-center justify-between border-b border-white/5">
+            <h3 className="text-sm font-black text-white uppercase tracking-widest">Box Score</h3>
+            <span className="text-[9px] font-bold text-white/30 uppercase tracking-widest">
+              {playedPlayers.length} Joueurs{benchedPlayers.length > 0 && ` · ${benchedPlayers.length} DNP`} · {linesTotal} PTS
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="text-[9px] font-black text-white/30 uppercase tracking-widest">
+                  <th className="px-4 py-2 sticky left-0 bg-[#050505]">Joueur</th>
+                  {BOX_SCORE_FIELDS.map(f => (
+                    <th key={f.key} className="px-1 py-2 text-center">{f.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {formPlayers.map(player => {
+                  const line = form.lines[player.id] ?? emptyLine();
+                  const derived = toBoxScore(line);
+                  return (
+                    <tr key={player.id} className={cn("transition-colors", !line.played && !line.dnp && "opacity-40")}>
+                      <td className="px-4 py-2 sticky left-0 bg-[#050505]">
+                        <label className="flex items-center gap-3 text-xs font-bold text-white whitespace-nowrap">
+                          <input type="checkbox" checked={line.played} onChange={e => setLine(player.id, { played: e.target.checked })} />
+                          {playerName(player)}
+                          <AvailabilityBadge player={player} on={form.date} />
+                        </label>
+                        {!line.played && (
+                          <select
+                            title="Motif de non-participation"
+                            className="mt-1 ml-7 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[9px] font-black text-white/60 uppercase tracking-widest focus:outline-none"
+                            value={line.dnp ?? ''}
+                            onChange={e => setLine(player.id, { dnp: (e.target.value || null) as DnpReason | null })}
+                          >
+                            <option value="" className="bg-slate-900">Pas sur la feuille</option>
+                            {DNP_REASONS.map(r => <option key={r} value={r} className="bg-slate-900">DNP · {DNP_LABELS[r]}</option>)}
+                          </select>
+                        )}
+                      </td>
+                      {BOX_SCORE_FIELDS.map(f => (
+                        <td key={f.key} className="px-1 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            className="w-12 bg-white/5 border border-white/10 rounded-lg px-1 py-2 text-sm text-center"
+                            value={line[f.key]}
+                            placeholder={(f.key === 'points' || f.key === 'rebounds') && line.played ? derived[f.key].toString() : ''}
+                            onChange={e => setLine(player.id, { [f.key]: e.target.value })}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <button type="submit" className="w-full bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase tracking-widest text-xs">
+          {editingGame ? "Mettre à jour" : "Enregistrer le Match"}
+        </button>
+        {editingGame && (
+          <div className="flex gap-4">
+            <button type="button" onClick={() => setEditingGame(null)} className="flex-1 bg-white/5 border border-white/10 text-white/60 font-black py-3 rounded-2xl uppercase tracking-widest text-[10px]">
+              Annuler
+            </button>
+            <button type="button" onClick={() => handleDeleteGame(editingGame)} className="flex-1 bg-rose-500/10 border border-rose-500/20 text-rose-500 font-black py-3 rounded-2xl uppercase tracking-widest text-[10px]">
+              Supprimer le Match
+            </button>
+          </div>
+        )}
+      </form>
+    </DashboardLayout>
+  );
+}
+
+function AddPlayerPage() {
+  const { roster, sortedPlayers } = useClub();
+  const { handleAddPlayer, handleLoadDefaultRoster, handleClearRoster } = useActions();
+  return (
+    <DashboardLayout title="Nouveau" subtitle="Création de Profil">
+      <div className="space-y-8">
+        <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-8 backdrop-blur-sm">
+          <div className="flex items-center justify-between mb-8">
+            <h2 className="text-lg font-bold text-white uppercase tracking-tight">Ajouter un Athlète</h2>
+            <div className="flex gap-2">
+              <button 
+                onClick={() => handleLoadDefaultRoster("Roster officiel restauré")}
+                className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/20 rounded-lg text-[9px] font-black text-emerald-500 uppercase tracking-widest transition-all"
+              >
+                Charger Roster Officiel
               </button>
-              {playerNames.length > 0 && (
+              {roster.length > 0 && (
                 <button 
-                  onClick={() => { if (window.confirm("Vider tout ?")) setPlayers({}); }}
+                  onClick={handleClearRoster}
                   className="px-3 py-1.5 bg-rose-500/10 hover:bg-rose-500/20 border border-rose-500/20 rounded-lg text-[9px] font-black text-rose-500 uppercase tracking-widest transition-all"
                 >
                   Vider Roster
@@ -726,107 +2515,763 @@ export default function App() {
               )}
             </div>
           </div>
-          <form onSubmit={handleAddPlayer} className="flex gap-2">
-            <input 
-              type="text" 
-              placeholder="Nom Prénom" 
-              className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all" 
-              value={formData.name} 
-              onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))} 
-            />
-            <button type="submit" className="bg-emerald-500 hover:bg-emerald-400 text-black p-3 rounded-xl transition-all">
-              <Plus className="w-5 h-5" />
-            </button>
-          </form>
+          <PlayerForm initial={emptyPlayer()} submitLabel="Créer le profil" onSubmit={handleAddPlayer} />
         </section>
 
         <div className="bg-white/[0.02] border border-white/5 rounded-3xl p-6">
-          <h3 className="text-xs font-black text-white/40 uppercase tracking-[0.2em] mb-4">Athlètes Actuels ({playerNames.length})</h3>
+          <h3 className="text-xs font-black text-white/40 uppercase tracking-[0.2em] mb-4">Athlètes Actuels ({roster.length})</h3>
           <div className="flex flex-wrap gap-2">
-            {playerNames.map(name => (
-              <span key={name} className="px-3 py-1 bg-white/5 border border-white/10 rounded-full text-[10px] font-bold text-white/60">
-                {name}
+            {sortedPlayers.map(player => (
+              <span key={player.id} className="px-3 py-1 bg-white/5 border border-white/10 rounded-full text-[10px] font-bold text-white/60">
+                {playerName(player)}
               </span>
             ))}
-            {playerNames.length === 0 && <p className="text-[10px] text-white/20 italic">Aucun joueur enregistré</p>}
+            {roster.length === 0 && <p className="text-[10px] text-white/20 italic">Aucun joueur enregistré</p>}
           </div>
         </div>
       </div>
     </DashboardLayout>
   );
+}
+
+function LeadersPage() {
+  const { season, team, teamGames, playerById, teamPlayers, filteredTeamStats } = useClub();
+  const { leaderStat, gameFilter } = useUi();
+  const { setView, setSelectedPlayer, setLeaderStat, setGameFilter } = useActions();
+  const [mode, setMode] = useState<RankingMode>('average');
+  const [minGames, setMinGames] = useState('1');
+  const ranking = rankPlayers(filteredTeamStats, teamPlayers.map(p => p.id), leaderStat, mode, parseInt(minGames) || 1);
+
+  return (
+    <DashboardLayout title="Classements" subtitle={[team?.name, season?.name].filter(Boolean).join(' · ')}>
+      <div className="space-y-6">
+        <GameFilterBar filter={gameFilter} games={teamGames} onChange={setGameFilter} />
+
+        <div className="flex flex-wrap gap-2">
+          {RANKED_STATS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setLeaderStat(key)}
+              className={cn(
+                "px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all",
+                leaderStat === key ? "bg-emerald-500/20 border-emerald-500/50 text-emerald-500" : "bg-white/5 border-white/10 text-white/40"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
 
-  const StatsPage = () => (
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex gap-1">
+            {(['average', 'total'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={cn(
+                  "px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all",
+                  mode === m ? "bg-emerald-500/20 border-emerald-500/50 text-emerald-500" : "bg-white/5 border-white/10 text-white/40"
+                )}
+              >
+                {m === 'average' ? 'Moyenne' : 'Total'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-[9px] font-black text-white/30 uppercase tracking-widest">
+            Matchs min.
+            <input
+              type="number"
+              min="1"
+              className="w-16 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none"
+              value={minGames}
+              onChange={e => setMinGames(e.target.value)}
+            />
+          </label>
+        </div>
+
+        <div className="bg-white/[0.02] border border-white/5 rounded-3xl divide-y divide-white/5">
+          {ranking.length === 0 ? (
+            <div className="p-12 text-center text-white/20 text-xs font-bold uppercase tracking-widest">
+              Aucun joueur classé
+            </div>
+          ) : ranking.map((r, i) => {
+            const player = playerById.get(r.playerId)!;
+            return (
+              <button
+                key={r.playerId}
+                onClick={() => {
+                  setSelectedPlayer(player.id);
+                  setView('stats');
+                }}
+                className="w-full flex items-center gap-4 px-6 py-4 text-left hover:bg-white/[0.02] transition-colors"
+              >
+                <span className={cn("w-6 text-sm font-black", i < 3 ? "text-emerald-500" : "text-white/30")}>{i + 1}</span>
+                <div className="w-10 h-10 rounded-xl bg-white/5 overflow-hidden flex items-center justify-center text-xs font-black text-emerald-500">
+                  {player.photo ? <img src={player.photo} alt="" className="w-full h-full object-cover" /> : initials(player)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-white truncate">{playerName(player)}</div>
+                  <div className="text-[9px] text-white/20 uppercase tracking-widest">{r.games} Matchs</div>
+                </div>
+                <span className="text-lg font-black text-white">{formatStat(r.value, leaderStat, mode)}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function StatsPage() {
+  const { user } = useSession();
+  const { isOnline } = useStatus();
+  const {
+    hiddenPlayers, seasons, teams, roster, games, schedule, attendance, injuries, season, team, seasonGames, sortedPlayers, playerById,
+    teamPlayers, players, seasonAttendance, filteredPlayers, filteredCareers,
+  } = useClub();
+  const { selectedPlayer, statsScope, chartStats, showRolling, comparedPlayers, gameFilter, report, generatingReport } = useUi();
+  const {
+    setView, setScheduledGame, setSelectedPlayer, setEditingGame, setStatsScope, setChartStats, setShowRolling, setComparedPlayers,
+    setGameFilter, setReport, handleSaveInjury, handleDeleteInjury, handleSetPlayerHidden, handleDeleteMatch, handleAddMessage,
+    handleGenerateReport, handleShareCard, handlePrintReport,
+  } = useActions();
+  const [injuryDraft, setInjuryDraft] = useState<{ input: InjuryInput, existing?: Injury } | null>(null);
+  const isCareer = statsScope === 'career';
+  // A season lists its registered players and anyone who played in it
+  const viewablePlayers = sortedPlayers.filter(p =>
+    canViewPlayer(user, p.id) && (isCareer || teamOf(season, p.id) || players[p.id].length > 0));
+  const shownPlayer = selectedPlayer && canViewPlayer(user, selectedPlayer) ? playerById.get(selectedPlayer) ?? null : null;
+  const matches = shownPlayer ? (isCareer ? filteredCareers : filteredPlayers)[shownPlayer.id] : undefined;
+  const stats = matches ? calculateStats(matches) : null;
+  const advanced = matches ? analyzePlayer(matches, isCareer ? games : seasonGames) : null;
+  const period = isCareer ? 'Carrière' : `Saison ${season?.name ?? ''}`.trim();
+  const periodGames = filterGames(isCareer ? games : seasonGames, gameFilter);
+
+  // One row per season and team the player recorded stats with
+  const path = isCareer && matches
+    ? [...seasons].sort(bySeasonStart).flatMap(s => teams.map(t => ({
+        season: s,
+        team: t,
+        matches: matches.filter(m => m.seasonId === s.id && m.teamId === t.id)
+      }))).filter(row => row.matches.length > 0)
+    : [];
+  // Charts read the same games as the figures above; the radar compares
+  // with the selected team this season, or the whole club over careers
+  const data = isCareer ? filteredCareers : filteredPlayers;
+  const peers = isCareer ? roster.map(p => p.id) : teamPlayers.map(p => p.id);
+  const compared = can(user, 'view_all_stats') && shownPlayer
+    ? comparedPlayers.filter(id => id !== shownPlayer.id && viewablePlayers.some(p => p.id === id))
+    : [];
+  const chartIds = shownPlayer ? [shownPlayer.id, ...compared] : [];
+  const isComparing = compared.length > 0;
+  const chartData = !matches ? [] : isComparing
+    ? compareSeries(data, chartIds, chartStats[0])
+    : statSeries(matches, chartStats, showRolling ? ROLLING_WINDOW : undefined);
+  const radar = shownPlayer ? radarProfile(data, peers, shownPlayer.id) : [];
+
+  // Practice attendance over the same period, and the weekly training load
+  // next to the average of the team's players who trained that week
+  const periodAttendance = isCareer ? attendance : seasonAttendance;
+  const playerAttendance = shownPlayer ? periodAttendance.filter(r => r.playerId === shownPlayer.id) : [];
+  const attendanceStats = attendanceSummary(playerAttendance);
+  const teamLoads = can(user, 'view_all_stats')
+    ? weeklyLoads(periodAttendance.filter(r => peers.includes(r.playerId)), schedule)
+    : [];
+  const playerLoads = weeklyLoads(playerAttendance, schedule);
+  const loadChart = [...new Set([...playerLoads, ...teamLoads].map(w => w.week))].sort().map(week => {
+    const teamWeek = teamLoads.find(w => w.week === week);
+    return {
+      week: new Date(week).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' }),
+      load: playerLoads.find(w => w.week === week)?.load ?? 0,
+      team: teamWeek ? Math.round(teamWeek.load / teamWeek.players) : null,
+    };
+  });
+  // The progress report covers the period shown; game recaps are listed
+  // with the player's games
+  const reportSubject = shownPlayer ? `player:${shownPlayer.id}:${isCareer ? 'career' : season?.id}` : '';
+  const shownReport = report && (report.subject === reportSubject || matches?.some(m => report.subject === `game:${m.id}`))
+    ? report
+    : null;
+
+  // Injury history, and the games of the period the player sat out
+  const playerInjuries = shownPlayer ? injuries.filter(i => i.playerId === shownPlayer.id).sort(byInjuryDate) : [];
+  const missed = shownPlayer ? missedGames(isCareer ? games : seasonGames, shownPlayer.id) : [];
+  const saveInjury = async (input: InjuryInput) => {
+    const saved = await handleSaveInjury(input, injuryDraft?.existing);
+    if (saved) setInjuryDraft(null);
+    return saved;
+  };
+
+  const toggleChartStat = (key: StatKey) => {
+    // Compared players share a single stat
+    if (isComparing) return setChartStats([key]);
+    setChartStats(prev => prev.includes(key)
+      ? (prev.length > 1 ? prev.filter(k => k !== key) : prev)
+      : [...prev, key]);
+  };
+
+  const recent = (key: 'points' | 'rebounds' | 'assists') =>
+    matches && matches.length > 0 ? rollingAverage(matches.map(m => m[key]), ROLLING_WINDOW).at(-1)!.toFixed(1) : '-';
+
+  return (
     <DashboardLayout title="Stats" subtitle="Analyses Détaillées">
       <div className="space-y-8">
         <div className="space-y-2">
-          <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Sélectionner un Athlète</label>
+          <div className="flex items-center justify-between">
+            <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Sélectionner un Athlète</label>
+            <div className="flex gap-1">
+              {(['season', 'career'] as const).map(scope => (
+                <button
+                  key={scope}
+                  onClick={() => setStatsScope(scope)}
+                  className={cn(
+                    "px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all",
+                    statsScope === scope ? "bg-emerald-500/20 border-emerald-500/50 text-emerald-500" : "bg-white/5 border-white/10 text-white/40"
+                  )}
+                >
+                  {scope === 'season' ? `Saison ${season?.name ?? ''}` : 'Carrière'}
+                </button>
+              ))}
+            </div>
+          </div>
           <select 
             className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none"
-            value={selectedPlayer || ''}
-            onChange={e => setSelectedPlayer(e.target.value)}
+            value={shownPlayer?.id ?? ''}
+            onChange={e => setSelectedPlayer(e.target.value || null)}
           >
             <option value="" className="bg-slate-900">-- Choisir --</option>
-            {playerNames.map(name => <option key={name} value={name} className="bg-slate-900">{name}</option>)}
+            {viewablePlayers.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{playerName(p)}</option>)}
           </select>
         </div>
 
+        <GameFilterBar filter={gameFilter} games={isCareer ? games : seasonGames} onChange={setGameFilter} />
+
         <AnimatePresence mode="wait">
-          {selectedPlayer && players[selectedPlayer] && (
+          {shownPlayer && stats && (
             <motion.div 
-              key={selectedPlayer}
+              key={shownPlayer.id}
               initial={{ opacity: 0, scale: 0.95 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0, scale: 0.95 }}
               className="space-y-6"
             >
+              <PlayerHeader player={shownPlayer} />
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => handleShareCard(shownPlayer, matches!, period)}
+                  disabled={matches!.length === 0}
+                  className="flex items-center justify-center gap-2 py-3 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-500 text-[10px] font-black uppercase tracking-widest disabled:opacity-40 transition-all"
+                >
+                  <Share2 className="w-4 h-4" /> Carte du joueur
+                </button>
+                <button
+                  onClick={() => handlePrintReport(() => playerReportHtml(shownPlayer, matches!, periodGames, period))}
+                  className="flex items-center justify-center gap-2 py-3 rounded-2xl bg-white/5 border border-white/10 text-white/60 hover:text-white text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                  <FileText className="w-4 h-4" /> Rapport PDF
+                </button>
+              </div>
+              {user?.playerId === shownPlayer.id && (
+                <button
+                  onClick={() => handleSetPlayerHidden(shownPlayer.id, !hiddenPlayers.includes(shownPlayer.id))}
+                  disabled={!isOnline}
+                  className="w-full flex items-center justify-between gap-4 px-4 py-3 rounded-2xl bg-white/[0.02] border border-white/5 text-xs disabled:opacity-40"
+                >
+                  <span className="text-white/60">Mon profil sur les pages publiques de l'équipe</span>
+                  <span className={cn("text-[10px] font-black uppercase tracking-widest", hiddenPlayers.includes(shownPlayer.id) ? "text-white/30" : "text-emerald-500")}>
+                    {hiddenPlayers.includes(shownPlayer.id) ? 'Masqué' : 'Visible'}
+                  </span>
+                </button>
+              )}
+              <section className="bg-white/[0.02] border border-white/5 rounded-[2.5rem] p-6 space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest">Rapport</h3>
+                  <button
+                    onClick={() => handleGenerateReport(reportSubject, () => api.getPlayerReport(shownPlayer.id, isCareer ? null : season?.id ?? null))}
+                    disabled={!isOnline || generatingReport !== null || matches!.length === 0}
+                    title={isOnline ? undefined : "Disponible en ligne uniquement"}
+                    className="flex items-center gap-2 px-3 py-2 rounded-xl bg-purple-500/10 border border-purple-500/20 text-purple-400 text-[9px] font-black uppercase tracking-widest disabled:opacity-40 transition-all"
+                  >
+                    <Sparkles className="w-3 h-3" />
+                    {generatingReport === reportSubject ? 'Rédaction...' : 'Rapport de progression'}
+                  </button>
+                </div>
+                {shownReport ? (
+                  <div className="space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <h4 className="text-xs font-black text-white uppercase tracking-widest">{shownReport.title}</h4>
+                      <button onClick={() => setReport(null)} className="text-white/40 hover:text-white" title="Fermer">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <p className="text-sm text-white/70 leading-relaxed whitespace-pre-line">{shownReport.text}</p>
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="text-[9px] font-bold text-white/20 uppercase tracking-widest">
+                        {shownReport.provider === 'gemini' ? 'Rédigé par Gemini' : 'Rédigé localement'} · {new Date(shownReport.generatedAt).toLocaleString('fr-FR')}
+                      </span>
+                      {can(user, 'post_messages') && (
+                        <button
+                          onClick={() => handleAddMessage(`${shownReport.title}\n\n${shownReport.text}`)}
+                          className="flex items-center gap-2 text-[9px] font-black text-emerald-500 uppercase tracking-widest"
+                        >
+                          <Send className="w-3 h-3" /> Publier sur le fil
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-white/20 italic">
+                    Synthèse rédigée à partir des statistiques de la période, et résumés d'après-match depuis l'historique.
+                  </p>
+                )}
+              </section>
+              {path.length > 0 && (
+                <section className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden">
+                  <h3 className="px-6 py-4 text-sm font-black text-white uppercase tracking-widest border-b border-white/5">Parcours</h3>
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="text-[9px] font-black text-white/30 uppercase tracking-widest">
+                        <th className="px-6 py-2">Saison</th>
+                        <th className="px-2 py-2 text-center">MJ</th>
+                        <th className="px-2 py-2 text-center">PTS</th>
+                        <th className="px-2 py-2 text-center">REB</th>
+                        <th className="px-2 py-2 text-center">AST</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                      {path.map(row => {
+                        const rowStats = calculateStats(row.matches);
+                        return (
+                          <tr key={`${row.season.id}-${row.team.id}`} className="text-xs text-white">
+                            <td className="px-6 py-3">
+                              <div className="font-bold">{row.season.name}</div>
+                              <div className="text-[9px] text-white/30 uppercase tracking-widest">{row.team.name}</div>
+                            </td>
+                            <td className="px-2 py-3 text-center">{row.matches.length}</td>
+                            <td className="px-2 py-3 text-center font-bold">{rowStats.pts}</td>
+                            <td className="px-2 py-3 text-center">{rowStats.reb}</td>
+                            <td className="px-2 py-3 text-center">{rowStats.ast}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </section>
+              )}
               <div className="grid grid-cols-3 gap-4">
-                <StatBox label="PTS" value={calculateStats(players[selectedPlayer]).pts} />
-                <StatBox label="REB" value={calculateStats(players[selectedPlayer]).reb} />
-                <StatBox label="AST" value={calculateStats(players[selectedPlayer]).ast} />
+                <StatBox label="PTS" value={stats.pts} />
+                <StatBox label="REB" value={stats.reb} />
+                <StatBox label="AST" value={stats.ast} />
               </div>
-
-              <div className="bg-white/[0.02] border border-white/5 rounded-[2.5rem] p-8 h-[300px]">
-                <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={players[selectedPlayer]}>
-                    <defs>
-                      <linearGradient id="colorPoints" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="#10b981" stopOpacity={0.4}/>
-                        <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-                      </linearGradient>
-                    </defs>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
-                    <XAxis dataKey="date" stroke="#ffffff20" fontSize={10} tickLine={false} axisLine={false} />
-                    <YAxis stroke="#ffffff20" fontSize={10} tickLine={false} axisLine={false} />
-                    <Tooltip contentStyle={{ backgroundColor: '#000', border: '1px solid #ffffff10', borderRadius: '12px', fontSize: '12px' }} />
-                    <Area type="monotone" dataKey="points" stroke="#10b981" strokeWidth={4} fill="url(#colorPoints)" />
-                  </AreaChart>
-                </ResponsiveContainer>
+              <div className="grid grid-cols-3 gap-4">
+                <StatBox label="FG%" value={stats.fgPct} />
+                <StatBox label="3P%" value={stats.tpPct} />
+                <StatBox label="FT%" value={stats.ftPct} />
+              </div>
+              <div className="grid grid-cols-5 gap-4">
+                <StatBox label="MIN" value={stats.min} />
+                <StatBox label="STL" value={stats.stl} />
+                <StatBox label="BLK" value={stats.blk} />
+                <StatBox label="TOV" value={stats.tov} />
+                <StatBox label="PF" value={stats.pf} />
               </div>
 
-              <div className="space-y-4">
-                <h3 className="text-sm font-black text-white uppercase tracking-widest">Historique</h3>
-                {[...players[selectedPlayer]].reverse().map(m => (
-                  <div key={m.id} className="bg-white/5 p-4 rounded-2xl flex justify-between items-center group/item">
-                    <div className="flex items-center gap-4">
-                      <div className="text-xs font-bold text-white/40">{new Date(m.date).toLocaleDateString()}</div>
-                      <div className="flex gap-4 text-sm font-black">
-                        <span className="text-emerald-500">{m.points}P</span>
-                        <span className="text-white/60">{m.rebounds}R</span>
-                        <span className="text-white/60">{m.assists}A</span>
+              {advanced && (
+                <section className="bg-white/[0.02] border border-white/5 rounded-3xl p-6 space-y-4">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest">Analyses Avancées</h3>
+                  <div className="grid grid-cols-3 gap-4">
+                    <StatBox label="PIR" value={advanced.efficiency.toFixed(1)} />
+                    <StatBox label="TS%" value={formatPercentage(advanced.trueShooting)} />
+                    <StatBox label="eFG%" value={formatPercentage(advanced.effectiveFieldGoal)} />
+                    <StatBox label="AST/TO" value={advanced.assistToTurnover?.toFixed(2) ?? '-'} />
+                    <StatBox label="USG%" value={formatPercentage(advanced.usage)} />
+                    <StatBox label="σ PTS" value={advanced.deviation.points.toFixed(1)} />
+                  </div>
+
+                  <h4 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">{ROLLING_WINDOW} derniers matchs</h4>
+                  <div className="grid grid-cols-3 gap-4">
+                    <StatBox label="PTS" value={recent('points')} />
+                    <StatBox label="REB" value={recent('rebounds')} />
+                    <StatBox label="AST" value={recent('assists')} />
+                  </div>
+
+                  {advanced.per36 && (
+                    <>
+                      <h4 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Par 36 minutes</h4>
+                      <div className="grid grid-cols-3 gap-4">
+                        <StatBox label="PTS" value={advanced.per36.points.toFixed(1)} />
+                        <StatBox label="REB" value={advanced.per36.rebounds.toFixed(1)} />
+                        <StatBox label="AST" value={advanced.per36.assists.toFixed(1)} />
                       </div>
-                    </div>
-                    <button 
-                      type="button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteMatch(selectedPlayer, m.id);
-                      }}
-                      className="p-2 text-rose-500/40 hover:text-rose-500 transition-all"
+                    </>
+                  )}
+
+                  <h4 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Totaux ({advanced.games} matchs)</h4>
+                  <div className="grid grid-cols-3 gap-4">
+                    <StatBox label="PTS" value={advanced.totals.points} />
+                    <StatBox label="REB" value={advanced.totals.rebounds} />
+                    <StatBox label="AST" value={advanced.totals.assists} />
+                  </div>
+
+                  <h4 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Records de la saison</h4>
+                  <div className="grid grid-cols-2 gap-2">
+                    {BOX_SCORE_FIELDS.filter(f => ['points', 'rebounds', 'assists', 'steals', 'blocks', 'threePointersMade'].includes(f.key)).map(f => {
+                      const high = advanced.highs[f.key];
+                      return (
+                        <div key={f.key} className="bg-white/5 px-4 py-2 rounded-xl flex justify-between items-center">
+                          <span className="text-[9px] font-bold text-white/30 uppercase tracking-widest">{f.label}</span>
+                          <span className="text-sm font-black text-white">
+                            {high ? high.value : '-'}
+                            {high && <span className="ml-2 text-[9px] font-bold text-white/20">{new Date(high.date).toLocaleDateString()}</span>}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
+              <section className="bg-white/[0.02] border border-white/5 rounded-[2.5rem] p-6 space-y-4">
+                <h3 className="text-sm font-black text-white uppercase tracking-widest">Évolution</h3>
+                <div className="flex flex-wrap gap-1">
+                  {RANKED_STATS.map(({ key, label }) => (
+                    <button
+                      key={key}
+                      onClick={() => toggleChartStat(key)}
+                      className={cn(
+                        "px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all",
+                        chartStats.includes(key) ? "bg-emerald-500/20 border-emerald-500/50 text-emerald-500" : "bg-white/5 border-white/10 text-white/40"
+                      )}
                     >
-                      <Trash2 className="w-4 h-4" />
+                      {label}
                     </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {!isComparing && (
+                    <button
+                      onClick={() => setShowRolling(!showRolling)}
+                      className={cn(
+                        "px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all",
+                        showRolling ? "bg-blue-500/20 border-blue-500/50 text-blue-500" : "bg-white/5 border-white/10 text-white/40"
+                      )}
+                    >
+                      Moyenne sur {ROLLING_WINDOW} matchs
+                    </button>
+                  )}
+                  {can(user, 'view_all_stats') && (
+                    <>
+                      {compared.map(id => (
+                        <span key={id} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-[9px] font-black text-white/60 uppercase tracking-widest">
+                          {playerName(playerById.get(id)!)}
+                          <button onClick={() => setComparedPlayers(prev => prev.filter(p => p !== id))} className="text-white/40 hover:text-white">
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                      <select
+                        className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] focus:outline-none"
+                        value=""
+                        onChange={e => {
+                          if (!e.target.value) return;
+                          // Comparing draws one stat per player
+                          setChartStats(prev => prev.slice(0, 1));
+                          setComparedPlayers([...compared, e.target.value]);
+                        }}
+                      >
+                        <option value="" className="bg-slate-900">Comparer avec...</option>
+                        {viewablePlayers.filter(p => !chartIds.includes(p.id)).map(p => (
+                          <option key={p.id} value={p.id} className="bg-slate-900">{playerName(p)}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                </div>
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
+                      <XAxis dataKey="date" stroke="#ffffff20" fontSize={10} tickLine={false} axisLine={false} />
+                      <YAxis stroke="#ffffff20" fontSize={10} tickLine={false} axisLine={false} />
+                      <Tooltip contentStyle={{ backgroundColor: '#000', border: '1px solid #ffffff10', borderRadius: '12px', fontSize: '12px' }} />
+                      <Legend wrapperStyle={{ fontSize: '10px' }} />
+                      {isComparing
+                        ? chartIds.map((id, i) => (
+                            <Line
+                              key={id}
+                              type="monotone"
+                              dataKey={id}
+                              name={`${playerName(playerById.get(id)!)} · ${statLabel(chartStats[0])}`}
+                              stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                              strokeWidth={3}
+                              connectNulls
+                            />
+                          ))
+                        : chartStats.flatMap((key, i) => [
+                            <Line key={key} type="monotone" dataKey={key} name={statLabel(key)} stroke={CHART_COLORS[i % CHART_COLORS.length]} strokeWidth={3} connectNulls />,
+                            ...(showRolling ? [
+                              <Line
+                                key={`${key}Rolling`}
+                                type="monotone"
+                                dataKey={`${key}Rolling`}
+                                name={`${statLabel(key)} (moy. ${ROLLING_WINDOW})`}
+                                stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                                strokeWidth={2}
+                                strokeDasharray="6 4"
+                                dot={false}
+                                connectNulls
+                              />
+                            ] : [])
+                          ])}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </section>
+
+              {(playerInjuries.length > 0 || missed.length > 0 || can(user, 'manage_roster')) && (
+                <section className="bg-white/[0.02] border border-white/5 rounded-[2.5rem] p-6 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-black text-white uppercase tracking-widest">Blessures</h3>
+                    {can(user, 'manage_roster') && !injuryDraft && (
+                      <button
+                        onClick={() => setInjuryDraft({ input: emptyInjury(shownPlayer.id) })}
+                        className="flex items-center gap-1 text-[9px] font-black text-emerald-500 uppercase tracking-widest"
+                      >
+                        <Plus className="w-3 h-3" /> Déclarer
+                      </button>
+                    )}
                   </div>
-                ))}
+                  {injuryDraft && (
+                    <InjuryForm
+                      initial={injuryDraft.input}
+                      submitLabel={injuryDraft.existing ? "Mettre à jour" : "Enregistrer la blessure"}
+                      onSubmit={saveInjury}
+                      onCancel={() => setInjuryDraft(null)}
+                    />
+                  )}
+                  {playerInjuries.length === 0 && !injuryDraft && (
+                    <p className="text-xs text-white/20 italic">Aucune blessure enregistrée</p>
+                  )}
+                  <div className="space-y-2">
+                    {playerInjuries.map(injury => (
+                      <div key={injury.id} className="flex items-start justify-between gap-4 bg-white/5 p-4 rounded-2xl">
+                        <div className="min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs font-bold text-white">{injury.bodyPart}</span>
+                            {isInjuryOpen(injury) && (
+                              <span className="px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest border bg-orange-500/10 border-orange-500/20 text-orange-500">
+                                En cours
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">
+                            {[
+                              `Le ${new Date(injury.date).toLocaleDateString('fr-FR')}`,
+                              injury.clearedDate
+                                ? `Reprise le ${new Date(injury.clearedDate).toLocaleDateString('fr-FR')}`
+                                : injury.expectedReturn && `Retour prévu le ${new Date(injury.expectedReturn).toLocaleDateString('fr-FR')}`
+                            ].filter(Boolean).join(' · ')}
+                          </div>
+                          {injury.description && <p className="text-xs text-white/50">{injury.description}</p>}
+                        </div>
+                        {can(user, 'manage_roster') && (
+                          <div className="flex items-center shrink-0">
+                            <button
+                              onClick={() => setInjuryDraft({ input: injury, existing: injury })}
+                              className="p-2 text-white/20 hover:text-white transition-all"
+                              title="Modifier"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteInjury(injury)}
+                              className="p-2 text-rose-500/40 hover:text-rose-500 transition-all"
+                              title="Supprimer"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {missed.length > 0 && (
+                    <div className="space-y-1">
+                      <h4 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">
+                        Matchs manqués ({missed.length})
+                      </h4>
+                      {[...missed].reverse().map(({ game, reason }) => (
+                        <div key={game.id} className="flex justify-between text-[10px] font-bold text-white/40">
+                          <span>{new Date(game.date).toLocaleDateString()}{game.opponent && ` · ${game.venue === 'home' ? 'vs' : '@'} ${game.opponent}`}</span>
+                          <span className="text-white/60">DNP · {DNP_LABELS[reason]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+              )}
+
+              {playerAttendance.length > 0 && (
+                <section className="bg-white/[0.02] border border-white/5 rounded-[2.5rem] p-6 space-y-4">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest">Entraînements</h3>
+                  <div className="grid grid-cols-5 gap-2">
+                    <StatBox label="Assiduité" value={formatPercentage(attendanceStats.rate)} />
+                    {ATTENDANCE_STATUSES.map(status => (
+                      <StatBox key={status} label={ATTENDANCE_LABELS[status]} value={attendanceStats.counts[status]} />
+                    ))}
+                  </div>
+                  {playerAttendance.some(r => r.reason) && (
+                    <div className="space-y-1">
+                      {playerAttendance.filter(r => r.reason).map(r => {
+                        const session = schedule.find(e => e.id === r.eventId);
+                        return (
+                          <div key={r.eventId} className="flex justify-between text-[10px] font-bold text-white/40">
+                            <span>{session ? scheduleDay(session.date) : '?'} · {ATTENDANCE_LABELS[r.status]}</span>
+                            <span className="text-white/60">{r.reason}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {loadChart.some(w => w.load > 0) && (
+                    <>
+                      <h4 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Charge hebdomadaire (min × RPE)</h4>
+                      <div className="h-[220px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <ComposedChart data={loadChart}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
+                            <XAxis dataKey="week" stroke="#ffffff20" fontSize={10} tickLine={false} axisLine={false} />
+                            <YAxis stroke="#ffffff20" fontSize={10} tickLine={false} axisLine={false} />
+                            <Tooltip contentStyle={{ backgroundColor: '#000', border: '1px solid #ffffff10', borderRadius: '12px', fontSize: '12px' }} />
+                            <Legend wrapperStyle={{ fontSize: '10px' }} />
+                            <Bar dataKey="load" name={playerName(shownPlayer)} fill="#3b82f6" radius={[6, 6, 0, 0]} />
+                            {teamLoads.length > 0 && (
+                              <Line type="monotone" dataKey="team" name="Moyenne équipe" stroke="#ffffff60" strokeWidth={2} strokeDasharray="6 4" connectNulls />
+                            )}
+                          </ComposedChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </>
+                  )}
+                </section>
+              )}
+
+              {radar.some(point => point.player > 0 || point.team > 0) && (
+                <section className="bg-white/[0.02] border border-white/5 rounded-[2.5rem] p-6 space-y-2">
+                  <h3 className="text-sm font-black text-white uppercase tracking-widest">Profil</h3>
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <RadarChart data={radar} outerRadius="75%">
+                        <PolarGrid stroke="#ffffff10" />
+                        <PolarAngleAxis dataKey="stat" stroke="#ffffff40" fontSize={10} />
+                        <Tooltip
+                          contentStyle={{ backgroundColor: '#000', border: '1px solid #ffffff10', borderRadius: '12px', fontSize: '12px' }}
+                          formatter={(_value, name, item) => {
+                            const raw = name === 'team' ? item.payload.teamValue : item.payload.playerValue;
+                            return [raw === null ? '-' : raw.toFixed(1), name === 'team' ? 'Moyenne équipe' : playerName(shownPlayer)];
+                          }}
+                        />
+                        <Radar name="team" dataKey="team" stroke="#ffffff60" fill="#ffffff" fillOpacity={0.05} />
+                        <Radar name="player" dataKey="player" stroke="#10b981" fill="#10b981" fillOpacity={0.3} />
+                      </RadarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="flex justify-center gap-4 text-[9px] font-black uppercase tracking-widest">
+                    <span className="text-emerald-500">{playerName(shownPlayer)}</span>
+                    <span className="text-white/40">{isCareer ? 'Moyenne du club' : `Moyenne ${team?.name ?? "de l'équipe"}`}</span>
+                  </div>
+                </section>
+              )}
+
+              <div className="space-y-4">
+                <h3 className="text-sm font-black text-white uppercase tracking-widest">Historique</h3>
+                {[...matches!].reverse().map(m => {
+                  const game = games.find(g => g.id === m.id);
+                  const result = game && gameResult(game);
+                  return (
+                    <div key={m.id} className="bg-white/5 p-4 rounded-2xl flex justify-between items-center group/item">
+                      <div className="flex items-center gap-4">
+                        <div>
+                          <div className="text-xs font-bold text-white/40">{new Date(m.date).toLocaleDateString()}</div>
+                          {m.opponent && (
+                            <div className="text-[9px] font-bold text-white/20 uppercase tracking-widest">
+                              {m.venue === 'home' ? 'vs' : '@'} {m.opponent}
+                            </div>
+                          )}
+                        </div>
+                        {result && (
+                          <span className={cn(
+                            "text-[9px] font-black px-2 py-0.5 rounded",
+                            result === 'W' ? "bg-emerald-500/20 text-emerald-500" : result === 'L' ? "bg-rose-500/20 text-rose-500" : "bg-white/10 text-white/60"
+                          )}>
+                            {result === 'W' ? 'V' : result === 'L' ? 'D' : 'N'} {game!.teamScore}-{game!.opponentScore}
+                          </span>
+                        )}
+                        <div>
+                          <div className="flex gap-4 text-sm font-black">
+                            <span className="text-emerald-500">{m.points}P</span>
+                            <span className="text-white/60">{m.rebounds}R</span>
+                            <span className="text-white/60">{m.assists}A</span>
+                          </div>
+                          <div className="flex flex-wrap gap-x-3 text-[9px] font-bold text-white/30 uppercase tracking-widest">
+                            {m.fieldGoalsAttempted > 0 && <span>FG {m.fieldGoalsMade}/{m.fieldGoalsAttempted}</span>}
+                            {m.threePointersAttempted > 0 && <span>3P {m.threePointersMade}/{m.threePointersAttempted}</span>}
+                            {m.freeThrowsAttempted > 0 && <span>FT {m.freeThrowsMade}/{m.freeThrowsAttempted}</span>}
+                            {m.minutes > 0 && <span>{m.minutes} MIN</span>}
+                            {m.steals > 0 && <span>{m.steals} STL</span>}
+                            {m.blocks > 0 && <span>{m.blocks} BLK</span>}
+                            {m.turnovers > 0 && <span>{m.turnovers} TOV</span>}
+                            {m.fouls > 0 && <span>{m.fouls} PF</span>}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center">
+                        {game && can(user, 'view_all_stats') && (
+                          <button
+                            type="button"
+                            onClick={() => handleGenerateReport(`game:${game.id}`, () => api.getGameReport(game.id))}
+                            disabled={!isOnline || generatingReport !== null}
+                            className={cn(
+                              "p-2 text-white/20 hover:text-purple-400 disabled:opacity-40 transition-all",
+                              generatingReport === `game:${game.id}` && "text-purple-400 animate-pulse"
+                            )}
+                            title="Résumé d'après-match"
+                          >
+                            <Sparkles className="w-4 h-4" />
+                          </button>
+                        )}
+                        {can(user, 'edit_stats') && (
+                          <>
+                            {game && (
+                              <button 
+                                type="button"
+                                onClick={() => {
+                                  setEditingGame(game);
+                                  setScheduledGame(null);
+                                  setView('add-match');
+                                }}
+                                className="p-2 text-white/20 hover:text-white transition-all"
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button 
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteMatch(shownPlayer.id, m.id);
+                              }}
+                              className="p-2 text-rose-500/40 hover:text-rose-500 transition-all"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             </motion.div>
           )}
@@ -834,108 +3279,909 @@ export default function App() {
       </div>
     </DashboardLayout>
   );
+}
+
+function LiveGamePage() {
+  const { teamPlayers } = useClub();
+  const { handleFinishLiveGame } = useActions();
+  return (
+    <DashboardLayout title="Live" subtitle="Suivi en Direct">
+      <LiveGame roster={teamPlayers.filter(p => p.status !== 'left')} onFinish={handleFinishLiveGame} />
+    </DashboardLayout>
+  );
+}
 
-  const StatBox = ({ label, value }: { label: string, value: string | number }) => (
+function StatBox({ label, value }: { label: string, value: string | number, key?: string }) {
+  return (
     <div className="bg-white/5 border border-white/5 p-4 rounded-2xl text-center">
       <div className="text-xl font-black text-white">{value}</div>
       <div className="text-[9px] font-bold text-white/20 uppercase tracking-widest">{label}</div>
     </div>
   );
+}
+
+// Shown for players who cannot be picked on the given day (today by
+// default), with the expected return of an open injury
+function AvailabilityBadge({ player, on }: { player: Player, on?: string }) {
+  const { injuries } = useClub();
+  const status = availability(player, injuries, on);
+  if (status === 'active') return null;
+  const injury = openInjury(injuries, player.id, on);
+  return (
+    <span
+      title={injury ? [injury.bodyPart, injury.description].filter(Boolean).join(' : ') : undefined}
+      className={cn(
+        "px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest border whitespace-nowrap",
+        status === 'injured' ? "bg-orange-500/10 border-orange-500/20 text-orange-500" : "bg-white/5 border-white/10 text-white/30"
+      )}
+    >
+      {STATUS_LABELS[status]}
+      {injury?.expectedReturn && ` · retour ${new Date(injury.expectedReturn).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' })}`}
+    </span>
+  );
+}
+
+function PlayerHeader({ player }: { player: Player }) {
+  return (
+    <div className="flex items-center gap-4 bg-white/[0.03] border border-white/5 rounded-3xl p-4">
+      <div className="w-16 h-16 rounded-2xl bg-white/5 overflow-hidden flex items-center justify-center text-lg font-black text-emerald-500 shrink-0">
+        {player.photo ? <img src={player.photo} alt="" className="w-full h-full object-cover" /> : initials(player)}
+      </div>
+      <div className="min-w-0">
+        <div className="text-lg font-black text-white uppercase tracking-tight truncate">
+          {player.jerseyNumber !== null && <span className="text-emerald-500 mr-2">#{player.jerseyNumber}</span>}
+          {playerName(player)}
+        </div>
+        <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">
+          {[
+            player.position && POSITION_LABELS[player.position],
+            player.birthDate && `${playerAge(player.birthDate)} ans`,
+            player.height && `${player.height} cm`,
+            player.hand && HAND_LABELS[player.hand],
+          ].filter(Boolean).join(' · ')}
+        </div>
+      </div>
+      <div className="ml-auto">
+        <AvailabilityBadge player={player} />
+      </div>
+    </div>
+  );
+}
+
+// Day of a schedule entry, e.g. "sam. 12 oct."
+const scheduleDay = (date: string) =>
+  new Date(date).toLocaleDateString('fr-FR', { weekday: 'short', day: 'numeric', month: 'short' });
+
+function ScheduleItem({ event, onEdit, onAttendance }: { event: ScheduleEvent, onEdit?: () => void, onAttendance?: () => void, key?: string }) {
+  const { user } = useSession();
+  const { teams, games, attendance } = useClub();
+  const { handleDeleteScheduleEvent, handleRecordScheduledGame } = useActions();
+  const game = event.gameId ? games.find(g => g.id === event.gameId) : undefined;
+  const result = game && gameResult(game);
+  const sheet = attendance.filter(r => r.eventId === event.id);
+  const present = sheet.filter(r => r.status === 'present' || r.status === 'late').length;
+  const today = new Date().toISOString().split('T')[0];
+  return (
+    <div className="bg-white/5 p-4 rounded-2xl flex items-center justify-between gap-4">
+      <div className="flex items-center gap-4 min-w-0">
+        <div className="w-12 text-center shrink-0">
+          <div className="text-[9px] font-black text-white/30 uppercase tracking-widest">{scheduleDay(event.date).split(' ')[0]}</div>
+          <div className="text-lg font-black text-white">{new Date(event.date).getDate()}</div>
+        </div>
+        <div className="min-w-0">
+          <div className="text-sm font-bold text-white truncate">{scheduleTitle(event, teams)}</div>
+          <div className="flex flex-wrap gap-x-3 text-[9px] font-bold text-white/30 uppercase tracking-widest">
+            <span className={event.kind === 'game' ? "text-emerald-500" : event.kind === 'practice' ? "text-blue-500" : "text-orange-500"}>
+              {SCHEDULE_KIND_LABELS[event.kind]}
+            </span>
+            {event.time && <span>{event.time.replace(':', 'h')}</span>}
+            {event.location && <span>{event.location}</span>}
+            {event.competition && <span>{event.competition}</span>}
+            {sheet.length > 0 && <span className="text-white/60">{present}/{sheet.length} présents</span>}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        {onAttendance && (
+          <button onClick={onAttendance} className="p-2 text-white/20 hover:text-white transition-all" title="Présences">
+            <ClipboardCheck className="w-4 h-4" />
+          </button>
+        )}
+        {result && (
+          <span className={cn(
+            "text-[9px] font-black px-2 py-0.5 rounded",
+            result === 'W' ? "bg-emerald-500/20 text-emerald-500" : result === 'L' ? "bg-rose-500/20 text-rose-500" : "bg-white/10 text-white/60"
+          )}>
+            {result === 'W' ? 'V' : result === 'L' ? 'D' : 'N'} {game!.teamScore}-{game!.opponentScore}
+          </span>
+        )}
+        {event.kind === 'game' && !event.gameId && event.date <= today && can(user, 'edit_stats') && (
+          <button
+            onClick={() => handleRecordScheduledGame(event)}
+            className="px-3 py-1.5 bg-emerald-500 text-black text-[9px] font-black rounded-lg uppercase tracking-widest"
+          >
+            Saisir
+          </button>
+        )}
+        {onEdit && (
+          <button onClick={onEdit} className="p-2 text-white/20 hover:text-white transition-all">
+            <Pencil className="w-4 h-4" />
+          </button>
+        )}
+        {can(user, 'manage_schedule') && (
+          <button onClick={() => handleDeleteScheduleEvent(event)} className="p-2 text-rose-500/40 hover:text-rose-500 transition-all">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SchedulePage() {
+  const { user } = useSession();
+  const { teams, schedule, attendance, season, team, sortedPlayers } = useClub();
+  const { handleSaveScheduleEvent, handleSaveAttendance, handleExportCalendar, handleCalendarFeed } = useActions();
+  // The entry being created or edited; null while the form is closed
+  const [draft, setDraft] = useState<{ input: ScheduleEventInput, existing?: ScheduleEvent } | null>(null);
+  const [showPast, setShowPast] = useState(false);
+  // Practice whose attendance sheet is open
+  const [sheetFor, setSheetFor] = useState<ScheduleEvent | null>(null);
+  const today = new Date().toISOString().split('T')[0];
+  // The selected team's entries, and the club's
+  const teamSchedule = schedule.filter(e => e.teamId === null || e.teamId === team?.id);
+  const upcoming = upcomingEvents(teamSchedule, today);
+  const toRecord = gamesToRecord(teamSchedule, today);
+  const past = teamSchedule
+    .filter(e => e.date < today && !toRecord.includes(e))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const canEdit = can(user, 'manage_schedule');
+  const edit = (event: ScheduleEvent) => (canEdit ? () => setDraft({ input: event, existing: event }) : undefined);
+  const takeAttendance = (event: ScheduleEvent) =>
+    canEdit && event.kind === 'practice' ? () => setSheetFor(event) : undefined;
+  // The session's team this season, plus anyone already on its sheet
+  const sheetPlayers = sheetFor
+    ? sortedPlayers.filter(p =>
+        attendance.some(r => r.eventId === sheetFor.id && r.playerId === p.id)
+        || (p.status !== 'left' && teamOf(season, p.id) === (sheetFor.teamId ?? team?.id)))
+    : [];
+  const item = (e: ScheduleEvent) => <ScheduleItem key={e.id} event={e} onEdit={edit(e)} onAttendance={takeAttendance(e)} />;
+
+  return (
+    <DashboardLayout title="Calendrier" subtitle={team?.name ?? 'Matchs & Entraînements'}>
+      <div className="space-y-6">
+        <div className="grid grid-cols-3 gap-2">
+          {canEdit && (
+            <button
+              onClick={() => setDraft({ input: emptyScheduleEvent('game', team?.id ?? null) })}
+              className="py-2 bg-emerald-500 text-black text-[10px] font-black rounded-xl uppercase tracking-widest flex items-center justify-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> Ajouter
+            </button>
+          )}
+          <button
+            onClick={handleExportCalendar}
+            className="py-2 bg-white/5 border border-white/10 text-white/60 text-[10px] font-black rounded-xl uppercase tracking-widest flex items-center justify-center gap-1"
+          >
+            <Download className="w-3 h-3" /> .ics
+          </button>
+          <button
+            onClick={() => handleCalendarFeed()}
+            className="py-2 bg-white/5 border border-white/10 text-white/60 text-[10px] font-black rounded-xl uppercase tracking-widest flex items-center justify-center gap-1"
+          >
+            <Link className="w-3 h-3" /> S'abonner
+          </button>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm("Les agendas abonnés avec l'ancien lien ne seront plus mis à jour. Continuer ?")) handleCalendarFeed(true);
+          }}
+          className="text-[9px] font-bold text-white/20 hover:text-white/60 uppercase tracking-widest"
+        >
+          Révoquer le lien d'abonnement
+        </button>
+
+        {draft && (
+          <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6">
+            <ScheduleForm
+              initial={draft.input}
+              teams={teams}
+              submitLabel={draft.existing ? "Mettre à jour" : "Ajouter au calendrier"}
+              onSubmit={async input => {
+                const saved = await handleSaveScheduleEvent(input, draft.existing);
+                if (saved) setDraft(null);
+                return saved;
+              }}
+              onCancel={() => setDraft(null)}
+            />
+          </section>
+        )}
+
+        {sheetFor && (
+          <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6 space-y-2">
+            <h3 className="text-sm font-black text-white uppercase tracking-widest">
+              Présences · {scheduleDay(sheetFor.date)}
+            </h3>
+            <AttendanceSheet
+              event={sheetFor}
+              players={sheetPlayers}
+              records={attendance.filter(r => r.eventId === sheetFor.id)}
+              onSubmit={async records => {
+                const saved = await handleSaveAttendance(sheetFor, records);
+                if (saved) setSheetFor(null);
+                return saved;
+              }}
+              onCancel={() => setSheetFor(null)}
+            />
+          </section>
+        )}
+
+        {toRecord.length > 0 && can(user, 'edit_stats') && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-black text-orange-500 uppercase tracking-widest">Statistiques à saisir</h3>
+            {toRecord.map(item)}
+          </section>
+        )}
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">À venir</h3>
+          {upcoming.length === 0 ? (
+            <div className="p-12 text-center text-white/20 text-xs font-bold uppercase tracking-widest bg-white/[0.02] border border-white/5 rounded-3xl">
+              Rien de prévu
+            </div>
+          ) : upcoming.map(item)}
+        </section>
+
+        {past.length > 0 && (
+          <section className="space-y-2">
+            <button onClick={() => setShowPast(!showPast)} className="text-[10px] font-black text-white/30 uppercase tracking-widest">
+              {showPast ? 'Masquer' : 'Afficher'} les rendez-vous passés ({past.length})
+            </button>
+            {showPast && past.map(item)}
+          </section>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function FeedPage() {
+  const { user } = useSession();
+  const { messages, newSince } = useFeed();
+  const { handleAddMessage, handleEditMessage, handleReact, handlePinMessage, handleDeleteMessage } = useActions();
+  // Thread being answered, message being rewritten, and the earlier
+  // versions shown under a message
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [history, setHistory] = useState<{ id: string, edits: MessageEdit[] } | null>(null);
+  const threads = buildThreads(messages);
 
-  const FeedPage = () => {
-    const [msgAuthor, setMsgAuthor] = useState('');
-    const [msgContent, setMsgContent] = useState('');
+  const toggleHistory = async (id: string) => {
+    if (history?.id === id) return setHistory(null);
+    try {
+      setHistory({ id, edits: await api.getMessageEdits(id) });
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
 
+  // A plain function rather than a component, so that an open form keeps its
+  // draft when the page re-renders
+  const renderMessage = (msg: Message, reply = false) => {
+    const isNew = !!user && msg.userId !== user.id && (newSince === null || msg.timestamp > newSince);
+    const canDelete = can(user, 'moderate_messages') || (!!user && msg.userId === user.id);
     return (
-      <DashboardLayout title="Informations" subtitle="Espace d'échange">
-        <div className="space-y-8">
+      <div key={msg.id} className={cn("group", reply && "pl-11")}>
+        <div className="flex justify-between items-start mb-2">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-full bg-emerald-500/10 flex items-center justify-center text-[10px] font-black text-emerald-500 border border-emerald-500/20">
+              {msg.author[0].toUpperCase()}
+            </div>
+            <div>
+              <span className="text-sm font-black text-white uppercase tracking-tight">{msg.author}</span>
+              {isNew && <span className="ml-2 text-[8px] font-black text-rose-400 uppercase tracking-widest">Nouveau</span>}
+              <p className="text-[9px] font-bold text-white/20 uppercase tracking-widest">
+                {new Date(msg.timestamp).toLocaleString('fr-FR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                {msg.editedAt && (
+                  <button onClick={() => toggleHistory(msg.id)} className="ml-2 normal-case hover:text-white transition-colors">
+                    · modifié
+                  </button>
+                )}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+            {!reply && can(user, 'pin_messages') && (
+              <button onClick={() => handlePinMessage(msg)} title={msg.pinned ? 'Désépingler' : 'Épingler'} className="p-2 text-white/20 hover:text-amber-400 transition-colors">
+                <Pin className="w-4 h-4" />
+              </button>
+            )}
+            {!!user && msg.userId === user.id && (
+              <button onClick={() => setEditingId(msg.id)} title="Modifier" className="p-2 text-white/20 hover:text-white transition-colors">
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            {canDelete && (
+              <button onClick={() => handleDeleteMessage(msg.id)} title="Supprimer" className="p-2 text-white/20 hover:text-rose-500 transition-colors">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="pl-11 space-y-3">
+          {editingId === msg.id ? (
+            <MessageForm
+              initial={{ content: msg.content, image: msg.image ?? null }}
+              placeholder="Votre message..."
+              submitLabel="Enregistrer"
+              rows={2}
+              onSubmit={async input => {
+                const saved = await handleEditMessage(msg, input.content, input.image);
+                if (saved) setEditingId(null);
+                return saved;
+              }}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <>
+              {msg.content && <p className="text-sm text-white/70 leading-relaxed whitespace-pre-line">{msg.content}</p>}
+              {msg.image && <img src={msg.image} alt="" className="max-h-80 rounded-2xl border border-white/10" />}
+            </>
+          )}
+
+          {history?.id === msg.id && (
+            <div className="border-l-2 border-white/10 pl-3 space-y-2">
+              {history.edits.map((edit, i) => (
+                <div key={i}>
+                  <p className="text-[9px] font-bold text-white/20 uppercase tracking-widest">
+                    Remplacé le {new Date(edit.editedAt).toLocaleString('fr-FR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                  <p className="text-xs text-white/40 whitespace-pre-line">{edit.content}</p>
+                </div>
+              ))}
+              {history.edits.length === 0 && <p className="text-xs text-white/30">Seule l'image a été modifiée</p>}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-1">
+            {REACTIONS.map(emoji => {
+              const userIds = msg.reactions?.find(r => r.emoji === emoji)?.userIds ?? [];
+              const mine = !!user && userIds.includes(user.id);
+              if (userIds.length === 0 && !can(user, 'post_messages')) return null;
+              return (
+                <button
+                  key={emoji}
+                  disabled={!can(user, 'post_messages')}
+                  onClick={() => handleReact(msg, emoji)}
+                  className={cn(
+                    "px-2 py-1 rounded-full text-xs border transition-all",
+                    mine ? "bg-emerald-500/10 border-emerald-500/30 text-white" : "border-white/5 text-white/40 hover:border-white/20",
+                    userIds.length === 0 && "opacity-0 group-hover:opacity-100"
+                  )}
+                >
+                  {emoji}{userIds.length > 0 && <span className="ml-1 font-black">{userIds.length}</span>}
+                </button>
+              );
+            })}
+            {!reply && can(user, 'post_messages') && (
+              <button
+                onClick={() => setReplyingTo(replyingTo === msg.id ? null : msg.id)}
+                className="ml-auto flex items-center gap-1 text-[9px] font-black text-white/30 hover:text-white uppercase tracking-widest transition-colors"
+              >
+                <Reply className="w-3 h-3" /> Répondre
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout title="Informations" subtitle="Espace d'échange">
+      <div className="space-y-8">
+        {user && can(user, 'post_messages') && (
           <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6 backdrop-blur-sm">
             <h3 className="text-sm font-black text-white uppercase tracking-widest mb-6 flex items-center gap-2">
               <Send className="w-4 h-4 text-emerald-500" />
               Publier une info
+              <span className="ml-auto text-[9px] font-bold text-white/30 tracking-widest">En tant que {authorName(user)}</span>
             </h3>
-            <div className="space-y-4">
-              <input 
-                type="text" 
-                placeholder="Votre Nom" 
-                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
-                value={msgAuthor}
-                onChange={e => setMsgAuthor(e.target.value)}
-              />
-              <textarea 
-                placeholder="Votre message..." 
-                rows={3}
-                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all resize-none"
-                value={msgContent}
-                onChange={e => setMsgContent(e.target.value)}
-              />
-              <button 
-                onClick={() => {
-                  handleAddMessage(msgAuthor, msgContent);
-                  setMsgContent('');
-                }}
-                className="w-full bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase tracking-widest text-xs shadow-xl shadow-emerald-500/20 flex items-center justify-center gap-2"
-              >
-                <Send className="w-4 h-4" /> Envoyer l'info
-              </button>
-            </div>
+            <MessageForm
+              placeholder="Votre message..."
+              submitLabel="Envoyer l'info"
+              onSubmit={input => handleAddMessage(input.content, { image: input.image })}
+            />
           </section>
+        )}
 
-          <div className="space-y-4">
-            {messages.map(msg => (
-              <motion.div 
-                layout
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                key={msg.id} 
-                className="bg-white/[0.02] border border-white/5 p-6 rounded-3xl group"
-              >
-                <div className="flex justify-between items-start mb-2">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 rounded-full bg-emerald-500/10 flex items-center justify-center text-[10px] font-black text-emerald-500 border border-emerald-500/20">
-                      {msg.author[0].toUpperCase()}
-                    </div>
-                    <div>
-                      <span className="text-sm font-black text-white uppercase tracking-tight">{msg.author}</span>
-                      <p className="text-[9px] font-bold text-white/20 uppercase tracking-widest">
-                        {new Date(msg.timestamp).toLocaleString('fr-FR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
-                      </p>
+        <div className="space-y-4">
+          {threads.map(({ message, replies }) => (
+            <motion.div 
+              layout
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              key={message.id} 
+              className={cn(
+                "bg-white/[0.02] border p-6 rounded-3xl space-y-4",
+                message.pinned ? "border-amber-400/30" : "border-white/5"
+              )}
+            >
+              {message.pinned && (
+                <div className="flex items-center gap-1 text-[9px] font-black text-amber-400 uppercase tracking-widest">
+                  <Pin className="w-3 h-3" /> Épinglé
+                </div>
+              )}
+              {renderMessage(message)}
+              {replies.map(r => renderMessage(r, true))}
+              {replyingTo === message.id && (
+                <div className="pl-11">
+                  <MessageForm
+                    placeholder={`Répondre à ${message.author}...`}
+                    submitLabel="Répondre"
+                    rows={2}
+                    onSubmit={async input => {
+                      const sent = await handleAddMessage(input.content, { parentId: message.id, image: input.image });
+                      if (sent) setReplyingTo(null);
+                      return sent;
+                    }}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </motion.div>
+          ))}
+          {messages.length === 0 && (
+            <div className="text-center py-20 opacity-20">
+              <MessageSquare className="w-12 h-12 mx-auto mb-4" />
+              <p className="text-xs uppercase tracking-widest font-black">Aucune information</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function TrashPage() {
+  const { user } = useSession();
+  const { playerById } = useClub();
+  const { trash, auditLog } = useFeed();
+  const { handleRestore, handlePurgeTrash } = useActions();
+  const [entity, setEntity] = useState<'all' | AuditEntry['entity']>('all');
+  const when = (date: string) => new Date(date).toLocaleString('fr-FR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+  const name = (playerId: string) => {
+    const player = playerById.get(playerId);
+    return player ? playerName(player) : 'Joueur supprimé';
+  };
+  const shownLog = (auditLog ?? []).filter(e => entity === 'all' || e.entity === entity);
+
+  return (
+    <DashboardLayout title="Corbeille" subtitle="Éléments supprimés et historique des modifications">
+      <div className="space-y-8">
+        <section className="space-y-4">
+          <div>
+            <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+              <Trash2 className="w-4 h-4 text-rose-500" /> Éléments supprimés
+            </h3>
+            <p className="text-[10px] text-white/30 mt-1">Conservés 30 jours, avec leurs statistiques.</p>
+          </div>
+          <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden divide-y divide-white/5">
+            {trash.map(entry => (
+              <div key={entry.id} className="px-6 py-4 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-bold text-white truncate">{entry.label}</div>
+                  <p className="text-[9px] font-bold text-white/20 uppercase tracking-widest mt-1">
+                    {when(entry.deletedAt)} · {entry.deletedBy}
+                  </p>
+                </div>
+                {can(user, TRASH_PERMISSIONS[entry.kind]) && (
+                  <>
+                    <button
+                      onClick={() => handleRestore(entry.id)}
+                      className="flex items-center gap-1 px-3 py-2 bg-emerald-500 text-black text-[10px] font-black rounded-xl uppercase tracking-widest"
+                    >
+                      <RotateCcw className="w-3 h-3" /> Restaurer
+                    </button>
+                    <button
+                      onClick={() => handlePurgeTrash(entry)}
+                      className="p-2 text-white/30 hover:text-rose-500 transition-colors"
+                      title="Supprimer définitivement"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+            {trash.length === 0 && (
+              <div className="text-center py-16 opacity-20">
+                <Trash2 className="w-10 h-10 mx-auto mb-3" />
+                <p className="text-xs uppercase tracking-widest font-black">Corbeille vide</p>
+              </div>
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+              <History className="w-4 h-4 text-emerald-500" /> Historique
+            </h3>
+            <div className="flex gap-1">
+              {([['all', 'Tout'], ['player', 'Joueurs'], ['game', 'Matchs']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setEntity(value)}
+                  className={cn(
+                    "px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors",
+                    entity === value ? "bg-emerald-500 text-black" : "bg-white/5 text-white/40 hover:text-white"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden divide-y divide-white/5">
+            {shownLog.map(entry => {
+              const changes = auditChanges(entry, name);
+              return (
+                <div key={entry.id} className="px-6 py-4 space-y-2">
+                  <div className="flex items-baseline justify-between gap-4">
+                    <div className="text-sm font-bold text-white truncate">
+                      <span className="text-emerald-500">{AUDIT_ACTION_LABELS[entry.action]}</span> · {entry.label}
                     </div>
+                    <span className="shrink-0 text-[9px] font-bold text-white/20 uppercase tracking-widest">{when(entry.at)}</span>
                   </div>
-                  <button 
-                    onClick={() => handleDeleteMessage(msg.id)}
-                    className="p-2 text-white/5 hover:text-rose-500 transition-colors opacity-0 group-hover:opacity-100"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  <p className="text-[9px] font-bold text-white/30 uppercase tracking-widest">Par {entry.userName}</p>
+                  {changes.length > 0 && (
+                    <table className="w-full text-[11px]">
+                      <tbody>
+                        {changes.map((c, i) => (
+                          <tr key={i} className="border-t border-white/5">
+                            <td className="py-1 pr-3 text-white/40 whitespace-nowrap">{c.field}</td>
+                            <td className="py-1 pr-3 text-rose-400/70 line-through">{c.before}</td>
+                            <td className="py-1 text-emerald-400">{c.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
                 </div>
-                <p className="text-sm text-white/70 leading-relaxed pl-11">{msg.content}</p>
-              </motion.div>
+              );
+            })}
+            {auditLog && shownLog.length === 0 && (
+              <div className="text-center py-16 opacity-20">
+                <History className="w-10 h-10 mx-auto mb-3" />
+                <p className="text-xs uppercase tracking-widest font-black">Aucune modification</p>
+              </div>
+            )}
+            {!auditLog && <p className="px-6 py-4 text-xs text-white/30">Chargement...</p>}
+          </div>
+        </section>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function NotificationsPage() {
+  const { user } = useSession();
+  const { unreadNotifications } = useStatus();
+  const { sortedPlayers } = useClub();
+  const { notifications, notificationSettings, pushEndpoint } = useFeed();
+  const {
+    handleOpenNotification, handleMarkNotificationsRead, handleSaveNotificationSettings, handleTogglePush, handleTestPush,
+  } = useActions();
+  const settings = notificationSettings;
+  const followable = sortedPlayers.filter(p => canViewPlayer(user, p.id) && p.id !== user?.playerId);
+  const kindIcon = (kind: NotificationKind) => {
+    const className = "w-4 h-4";
+    if (kind === 'game_stats') return <BarChart2 className={className} />;
+    if (kind === 'record') return <Trophy className={className} />;
+    if (kind === 'schedule') return <CalendarDays className={className} />;
+    return <MessageSquare className={className} />;
+  };
+  const setChannel = (kind: NotificationKind, channel: 'inApp' | 'push', on: boolean) => {
+    if (settings) {
+      handleSaveNotificationSettings({ ...settings, channels: { ...settings.channels, [kind]: { ...settings.channels[kind], [channel]: on } } });
+    }
+  };
+  const toggleFollow = (playerId: string) => {
+    if (settings) {
+      handleSaveNotificationSettings({
+        ...settings,
+        followed: settings.followed.includes(playerId) ? settings.followed.filter(id => id !== playerId) : [...settings.followed, playerId]
+      });
+    }
+  };
+
+  return (
+    <DashboardLayout title="Notifications" subtitle="Centre de notifications">
+      <div className="space-y-8">
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+              <Bell className="w-4 h-4 text-emerald-500" /> Récentes
+            </h3>
+            {unreadNotifications > 0 && (
+              <button
+                onClick={handleMarkNotificationsRead}
+                className="text-[9px] font-black text-white/30 hover:text-white uppercase tracking-widest transition-colors"
+              >
+                Tout marquer comme lu
+              </button>
+            )}
+          </div>
+          <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden divide-y divide-white/5">
+            {notifications.map(n => (
+              <button
+                key={n.id}
+                onClick={() => handleOpenNotification(n)}
+                className={cn("w-full px-6 py-4 flex items-start gap-4 text-left hover:bg-white/[0.03] transition-colors", !n.readAt && "bg-emerald-500/[0.04]")}
+              >
+                <div className={cn("mt-0.5 p-2 rounded-xl", n.readAt ? "bg-white/5 text-white/30" : "bg-emerald-500/10 text-emerald-500")}>
+                  {kindIcon(n.kind)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-bold text-white">{n.title}</div>
+                  <p className="text-xs text-white/50">{n.body}</p>
+                  <p className="text-[9px] font-bold text-white/20 uppercase tracking-widest mt-1">
+                    {new Date(n.createdAt).toLocaleString('fr-FR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                </div>
+                {!n.readAt && <span className="mt-2 w-2 h-2 rounded-full bg-rose-500" />}
+              </button>
             ))}
-            {messages.length === 0 && (
-              <div className="text-center py-20 opacity-20">
-                <MessageSquare className="w-12 h-12 mx-auto mb-4" />
-                <p className="text-xs uppercase tracking-widest font-black">Aucune information</p>
+            {notifications.length === 0 && (
+              <div className="text-center py-16 opacity-20">
+                <Bell className="w-10 h-10 mx-auto mb-3" />
+                <p className="text-xs uppercase tracking-widest font-black">Aucune notification</p>
               </div>
             )}
           </div>
-        </div>
-      </DashboardLayout>
-    );
+        </section>
+
+        <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6 space-y-4">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Préférences</h3>
+          {settings ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[9px] font-black text-white/30 uppercase tracking-widest">
+                  <th className="text-left py-2">Type</th>
+                  <th className="py-2 w-20">Dans l'app</th>
+                  <th className="py-2 w-20">Push</th>
+                </tr>
+              </thead>
+              <tbody>
+                {NOTIFICATION_KINDS.map(kind => (
+                  <tr key={kind} className="border-t border-white/5">
+                    <td className="py-3 text-white/70">{NOTIFICATION_KIND_LABELS[kind]}</td>
+                    <td className="py-3 text-center">
+                      <input type="checkbox" checked={settings.channels[kind].inApp} onChange={e => setChannel(kind, 'inApp', e.target.checked)} />
+                    </td>
+                    <td className="py-3 text-center">
+                      <input type="checkbox" checked={settings.channels[kind].push} onChange={e => setChannel(kind, 'push', e.target.checked)} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-xs text-white/30">Chargement...</p>
+          )}
+        </section>
+
+        {settings && followable.length > 0 && (
+          <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6 space-y-4">
+            <div>
+              <h3 className="text-sm font-black text-white uppercase tracking-widest">Joueurs suivis</h3>
+              <p className="text-[10px] text-white/30 mt-1">
+                Leurs nouvelles stats et leurs records vous sont signalés{user?.playerId && ', comme les vôtres'}.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {followable.map(p => (
+                <label key={p.id} className="flex items-center gap-2 text-xs text-white/70">
+                  <input type="checkbox" checked={settings.followed.includes(p.id)} onChange={() => toggleFollow(p.id)} />
+                  {playerName(p)}
+                </label>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6 space-y-4">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Push sur cet appareil</h3>
+          {pushSupported() ? (
+            <div className="flex gap-2">
+              <button
+                onClick={handleTogglePush}
+                className={cn(
+                  "flex-1 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all",
+                  pushEndpoint ? "bg-white/5 border border-white/10 text-white/60" : "bg-emerald-500 text-black"
+                )}
+              >
+                {pushEndpoint ? 'Désactiver' : 'Activer'}
+              </button>
+              {pushEndpoint && (
+                <button
+                  onClick={handleTestPush}
+                  className="flex-1 py-3 bg-white/5 border border-white/10 rounded-xl text-xs font-black text-white/60 uppercase tracking-widest"
+                >
+                  Tester
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-white/30">Ce navigateur ne prend pas en charge les notifications push.</p>
+          )}
+        </section>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function UsersPage() {
+  const { users, user } = useSession();
+  const { roster, sortedPlayers } = useClub();
+  const { handleAddUser, handleUpdateUser, handleDeleteUser } = useActions();
+  const [newUser, setNewUser] = useState({ username: '', displayName: '', password: '', role: 'viewer' as Role, playerId: '' });
+  const setNewUserField = (field: keyof typeof newUser, value: string) =>
+    setNewUser(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await handleAddUser({ ...newUser, playerId: newUser.role === 'player' ? newUser.playerId : null });
+    if (created) setNewUser({ username: '', displayName: '', password: '', role: 'viewer', playerId: '' });
   };
 
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all";
+
+  return (
+    <DashboardLayout title="Utilisateurs" subtitle="Comptes & Rôles">
+      <div className="space-y-8">
+        <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-8 backdrop-blur-sm">
+          <h2 className="text-lg font-bold text-white uppercase tracking-tight mb-6">Nouveau Compte</h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <input type="text" placeholder="Nom d'utilisateur" className={inputClass} value={newUser.username} onChange={e => setNewUserField('username', e.target.value)} />
+              <input type="text" placeholder="Nom affiché" className={inputClass} value={newUser.displayName} onChange={e => setNewUserField('displayName', e.target.value)} />
+            </div>
+            <input type="password" placeholder="Mot de passe (8 caractères min.)" autoComplete="new-password" className={inputClass} value={newUser.password} onChange={e => setNewUserField('password', e.target.value)} />
+            <div className="grid grid-cols-2 gap-4">
+              <select className={inputClass} value={newUser.role} onChange={e => setNewUserField('role', e.target.value)}>
+                {ROLES.map(role => <option key={role} value={role} className="bg-slate-900">{ROLE_LABELS[role]}</option>)}
+              </select>
+              {newUser.role === 'player' && (
+                <select className={inputClass} value={newUser.playerId} onChange={e => setNewUserField('playerId', e.target.value)}>
+                  <option value="" className="bg-slate-900">-- Profil joueur --</option>
+                  {sortedPlayers.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{playerName(p)}</option>)}
+                </select>
+              )}
+            </div>
+            <button type="submit" className="w-full bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase tracking-widest text-xs">
+              Créer le Compte
+            </button>
+          </form>
+        </section>
+
+        <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden divide-y divide-white/5">
+          {users.map(account => (
+            <div key={account.id} className="px-6 py-4 flex items-center gap-4">
+              <div className="w-10 h-10 rounded-xl bg-white/5 flex items-center justify-center text-xs font-black text-purple-500">
+                {account.displayName[0].toUpperCase()}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-bold text-white truncate">{account.displayName}</div>
+                <div className="text-[9px] text-white/20 uppercase tracking-widest">@{account.username}</div>
+              </div>
+              <select
+                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs focus:outline-none"
+                value={account.role}
+                disabled={account.id === user?.id}
+                onChange={e => {
+                  const role = e.target.value as Role;
+                  // A player account needs a profile before it can be saved
+                  if (role === 'player' && !account.playerId) {
+                    const name = window.prompt("Profil joueur à lier :", sortedPlayers[0] ? playerName(sortedPlayers[0]) : '');
+                    if (!name) return;
+                    const player = findByName(roster, name);
+                    if (player) handleUpdateUser(account.id, { role, playerId: player.id });
+                    else toast.error("Joueur introuvable");
+                    return;
+                  }
+                  handleUpdateUser(account.id, { role });
+                }}
+              >
+                {ROLES.map(role => <option key={role} value={role} className="bg-slate-900">{ROLE_LABELS[role]}</option>)}
+              </select>
+              {account.role === 'player' && (
+                <select
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs focus:outline-none"
+                  value={account.playerId ?? ''}
+                  onChange={e => handleUpdateUser(account.id, { playerId: e.target.value })}
+                >
+                  {sortedPlayers.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{playerName(p)}</option>)}
+                </select>
+              )}
+              <button
+                onClick={() => {
+                  const password = window.prompt(`Nouveau mot de passe pour ${account.displayName} :`);
+                  if (password) handleUpdateUser(account.id, { password });
+                }}
+                className="px-2 py-1 bg-white/5 border border-white/10 rounded text-[8px] font-black text-white/40 hover:text-white uppercase tracking-widest"
+              >
+                MDP
+              </button>
+              {account.id !== user?.id && (
+                <button onClick={() => handleDeleteUser(account)} className="p-2 text-white/10 hover:text-rose-500 transition-all">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+// `children` comes from App, which holds no state: a change only re-renders
+// the components reading the contexts it touches
+function AppProvider({ children }: { children: React.ReactNode }) {
+  const { sessionState, statusState, clubState, feedState, uiState, actions } = useAppState();
+  return (
+    <SessionContext.Provider value={sessionState}>
+      <StatusContext.Provider value={statusState}>
+        <ClubContext.Provider value={clubState}>
+          <FeedContext.Provider value={feedState}>
+            <UiContext.Provider value={uiState}>
+              <ActionsContext.Provider value={actions}>
+                {children}
+              </ActionsContext.Provider>
+            </UiContext.Provider>
+          </FeedContext.Provider>
+        </ClubContext.Provider>
+      </StatusContext.Provider>
+    </SessionContext.Provider>
+  );
+}
+
+function Pages() {
+  const { view, session, user } = useSession();
+
+  // Signed-out visitors only see the landing page; views outside the role fall back to home
+  const requiredPermission = VIEW_PERMISSIONS[view];
+  const page: View = !session ? 'landing' : requiredPermission && !can(user, requiredPermission) ? 'home' : view;
+
   return (
     <div className="min-h-screen bg-black">
       <AnimatePresence mode="wait">
-        {view === 'landing' && <LandingPage key="landing" />}
-        {view === 'home' && <HomeHub key="home" />}
-        {view === 'roster' && <RosterPage key="roster" />}
-        {view === 'add-match' && <AddMatchPage key="add-match" />}
-        {view === 'add-player' && <AddPlayerPage key="add-player" />}
-        {view === 'feed' && <FeedPage key="feed" />}
-        {view === 'stats' && <StatsPage key="stats" />}
+        {page === 'landing' && <LandingPage key="landing" />}
+        {page === 'home' && <HomeHub key="home" />}
+        {page === 'roster' && <RosterPage key="roster" />}
+        {page === 'add-match' && <AddMatchPage key="add-match" />}
+        {page === 'add-player' && <AddPlayerPage key="add-player" />}
+        {page === 'feed' && <FeedPage key="feed" />}
+        {page === 'stats' && <StatsPage key="stats" />}
+        {page === 'leaders' && <LeadersPage key="leaders" />}
+        {page === 'schedule' && <SchedulePage key="schedule" />}
+        {page === 'live' && <LiveGamePage key="live" />}
+        {page === 'users' && <UsersPage key="users" />}
+        {page === 'notifications' && <NotificationsPage key="notifications" />}
+        {page === 'trash' && <TrashPage key="trash" />}
       </AnimatePresence>
       <Toaster position="top-center" theme="dark" />
     </div>
   );
 }
+
+export default function App() {
+  return (
+    <AppProvider>
+      <Pages />
+    </AppProvider>
+  );
+}
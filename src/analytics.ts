@@ -0,0 +1,159 @@
+import { BOX_SCORE_KEYS, emptyBoxScore, percentage } from './boxScore';
+import type { BoxScore, Game, Match } from './types';
+
+export interface SeasonHigh {
+  value: number;
+  matchId: string;
+  date: string;
+}
+
+export interface PlayerAnalytics {
+  games: number;
+  totals: BoxScore;
+  averages: BoxScore;
+  // null when minutes were never recorded
+  per36: BoxScore | null;
+  efficiency: number;
+  trueShooting: number | null;
+  effectiveFieldGoal: number | null;
+  assistToTurnover: number | null;
+  usage: number | null;
+  highs: Record<keyof BoxScore, SeasonHigh | null>;
+  deviation: { points: number, rebounds: number, assists: number, efficiency: number };
+}
+
+export function sumBoxScores(lines: BoxScore[]): BoxScore {
+  return lines.reduce((acc, line) => {
+    BOX_SCORE_KEYS.forEach(key => {
+      acc[key] += line[key];
+    });
+    return acc;
+  }, emptyBoxScore());
+}
+
+function scaleBoxScore(box: BoxScore, factor: number): BoxScore {
+  const scaled = emptyBoxScore();
+  BOX_SCORE_KEYS.forEach(key => {
+    scaled[key] = box[key] * factor;
+  });
+  return scaled;
+}
+
+// PIR (Performance Index Rating), without fouls drawn and shots rejected
+// which the box score does not track.
+export function efficiency(b: BoxScore) {
+  return b.points + b.rebounds + b.assists + b.steals + b.blocks
+    - (b.fieldGoalsAttempted - b.fieldGoalsMade)
+    - (b.freeThrowsAttempted - b.freeThrowsMade)
+    - b.turnovers - b.fouls;
+}
+
+// TS% = PTS / (2 × (FGA + 0.44 × FTA)), as a percentage
+export function trueShooting(b: BoxScore) {
+  return percentage(b.points, 2 * (b.fieldGoalsAttempted + 0.44 * b.freeThrowsAttempted));
+}
+
+// eFG% = (FGM + 0.5 × 3PM) / FGA, as a percentage
+export function effectiveFieldGoal(b: BoxScore) {
+  return percentage(b.fieldGoalsMade + 0.5 * b.threePointersMade, b.fieldGoalsAttempted);
+}
+
+export function assistToTurnover(b: BoxScore) {
+  return b.turnovers > 0 ? b.assists / b.turnovers : null;
+}
+
+export const formatPercentage = (value: number | null) => value === null ? '-' : `${value.toFixed(1)}%`;
+
+const possessions = (b: BoxScore) => b.fieldGoalsAttempted + 0.44 * b.freeThrowsAttempted + b.turnovers;
+
+// USG%: share of team possessions used while on the floor. Team totals come
+// from every line recorded in the games the player appeared in.
+export function usageRate(matches: Match[], games: Game[]) {
+  const played = new Set(matches.map(m => m.id));
+  const team = sumBoxScores(games.filter(g => played.has(g.id)).flatMap(g => g.lines));
+  const player = sumBoxScores(matches);
+  if (player.minutes === 0 || team.minutes === 0 || possessions(team) === 0) return null;
+  return (100 * possessions(player) * (team.minutes / 5)) / (player.minutes * possessions(team));
+}
+
+export function standardDeviation(values: number[]) {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+}
+
+// Average of each value with up to `window - 1` values before it.
+export function rollingAverage(values: number[], window: number) {
+  return values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((a, b) => a + b, 0) / slice.length;
+  });
+}
+
+function seasonHighs(matches: Match[]) {
+  const highs = {} as PlayerAnalytics['highs'];
+  BOX_SCORE_KEYS.forEach(key => {
+    highs[key] = matches.reduce<SeasonHigh | null>((best, m) =>
+      m[key] > 0 && (!best || m[key] > best.value) ? { value: m[key], matchId: m.id, date: m.date } : best, null);
+  });
+  return highs;
+}
+
+// `matches` must be in chronological order, as built by buildPlayersData.
+export function analyzePlayer(matches: Match[], games: Game[] = []): PlayerAnalytics {
+  const totals = sumBoxScores(matches);
+  const count = matches.length;
+
+  return {
+    games: count,
+    totals,
+    averages: scaleBoxScore(totals, count > 0 ? 1 / count : 0),
+    per36: totals.minutes > 0 ? scaleBoxScore(totals, 36 / totals.minutes) : null,
+    efficiency: count > 0 ? efficiency(totals) / count : 0,
+    trueShooting: trueShooting(totals),
+    effectiveFieldGoal: effectiveFieldGoal(totals),
+    assistToTurnover: assistToTurnover(totals),
+    usage: usageRate(matches, games),
+    highs: seasonHighs(matches),
+    deviation: {
+      points: standardDeviation(matches.map(m => m.points)),
+      rebounds: standardDeviation(matches.map(m => m.rebounds)),
+      assists: standardDeviation(matches.map(m => m.assists)),
+      efficiency: standardDeviation(matches.map(efficiency)),
+    },
+  };
+}
+
+// Per-game averages as displayed (one decimal), shooting percentages over
+// the period and whether the last game scored at least as much as the one before
+export function calculateStats(matches: Match[]) {
+  if (matches.length === 0) return {
+    pts: 0, reb: 0, ast: 0, min: 0, stl: 0, blk: 0, tov: 0, pf: 0,
+    fgPct: '-', tpPct: '-', ftPct: '-', trend: 'none'
+  };
+  
+  const total = sumBoxScores(matches);
+
+  const trend = matches.length >= 2 
+    ? matches[matches.length - 1].points >= matches[matches.length - 2].points ? 'up' : 'down'
+    : 'none';
+
+  const average = (value: number) => (value / matches.length).toFixed(1);
+  // Shooting percentages use season totals, not an average of per-game percentages
+  const pct = (made: number, attempted: number) => formatPercentage(percentage(made, attempted));
+
+  return {
+    pts: average(total.points),
+    reb: average(total.rebounds),
+    ast: average(total.assists),
+    min: average(total.minutes),
+    stl: average(total.steals),
+    blk: average(total.blocks),
+    tov: average(total.turnovers),
+    pf: average(total.fouls),
+    fgPct: pct(total.fieldGoalsMade, total.fieldGoalsAttempted),
+    tpPct: pct(total.threePointersMade, total.threePointersAttempted),
+    ftPct: pct(total.freeThrowsMade, total.freeThrowsAttempted),
+    trend
+  };
+}
@@ -0,0 +1,269 @@
+import { SESSION_STORAGE_KEY } from './constants';
+import { ConflictError, enqueue, isNetworkError, loadOutbox, type OutboxEntry } from './offline';
+import { createStore, isObject } from './storage';
+import { withReaction } from './messages';
+import { playerName } from './players';
+import type { AttendanceRecord, AuditEntry, Backup, ChangeEvent, Game, ImportMode, Injury, LiveEvent, Message, MessageEdit, NotificationSettings, Player, PublicTeam, Report, Role, ScheduleEvent, Season, SeasonInput, Session, ShareLink, Team, TrashEntry, User, UserNotification } from './types';
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const sessionStore = createStore<Session | null>({
+  key: SESSION_STORAGE_KEY,
+  version: 1,
+  legacyKeys: { ibaa_session_v1: 1 },
+  validate: (data): data is Session | null => data === null || (isObject(data) && typeof data.token === 'string'
+    && isObject(data.user) && typeof data.user.id === 'string' && typeof data.user.role === 'string'),
+  fallback: () => null,
+});
+
+export const loadSession = sessionStore.load;
+
+export function saveSession(session: Session | null) {
+  if (session) sessionStore.save(session);
+  else sessionStore.clear();
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const token = loadSession()?.token;
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }), ...init?.headers },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    // The stored session was revoked or has expired
+    if (res.status === 401 && token) window.dispatchEvent(new Event('session-expired'));
+    if (res.status === 409 && body?.current) throw new ConflictError(body.error, body.current);
+    throw new ApiError(body?.error || `Erreur serveur (${res.status})`, res.status);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+const json = (method: string, body?: unknown): RequestInit => ({
+  method,
+  body: body === undefined ? undefined : JSON.stringify(body),
+});
+
+// Sends a mutation, or queues it in the outbox when the server cannot be
+// reached and resolves with the optimistic result. While entries are queued,
+// new mutations go behind them so the server sees them in order.
+async function mutation<T>(method: string, path: string, body: unknown, label: string, optimistic: T): Promise<T> {
+  if (loadOutbox().length === 0) {
+    try {
+      return await request<T>(path, json(method, body));
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+  enqueue({ method, path, body, label, userId: loadSession()?.user.id ?? null });
+  return optimistic;
+}
+
+// Pause before following the change feed again after it dropped
+const RECONNECT_MS = 5000;
+
+// Follows the server's change feed. The Server-Sent Events stream is read
+// through fetch rather than EventSource so that the token stays in a header.
+// `onConnect` runs on every (re)connection: changes made while disconnected
+// were missed. Returns a function that stops following.
+export function subscribe(onEvent: (event: ChangeEvent) => void, onConnect: () => void) {
+  const controller = new AbortController();
+
+  const follow = async () => {
+    const token = loadSession()?.token;
+    const res = await fetch('/api/events', {
+      headers: { ...(token && { Authorization: `Bearer ${token}` }) },
+      signal: controller.signal,
+    });
+    if (res.status === 401) {
+      window.dispatchEvent(new Event('session-expired'));
+      return controller.abort();
+    }
+    if (!res.ok || !res.body) throw new ApiError(`Erreur serveur (${res.status})`, res.status);
+    onConnect();
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const chunks = buffer.split('\n\n');
+      buffer = chunks.pop()!;
+      chunks.forEach(chunk => {
+        const data = chunk.split('\n').filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+        if (data) onEvent(JSON.parse(data));
+      });
+    }
+  };
+
+  (async () => {
+    while (!controller.signal.aborted) {
+      await follow().catch(() => {});
+      if (!controller.signal.aborted) await new Promise(resolve => setTimeout(resolve, RECONNECT_MS));
+    }
+  })();
+  return () => controller.abort();
+}
+
+const day = (date: string) => new Date(date).toLocaleDateString('fr-FR');
+
+// Deletions answer with their trash entry, for the undo button; a deletion
+// queued offline has none yet
+type Deletion = { trashId: string } | undefined;
+
+export interface UserInput {
+  username?: string;
+  displayName?: string;
+  password?: string;
+  role?: Role;
+  playerId?: string | null;
+}
+
+export const api = {
+  getAuthStatus: () => request<{ needsSetup: boolean }>('/auth/status'),
+  setup: (username: string, displayName: string, password: string) =>
+    request<Session>('/auth/setup', json('POST', { username, displayName, password })),
+  login: (username: string, password: string) => request<Session>('/auth/login', json('POST', { username, password })),
+  logout: () => request<void>('/auth/logout', json('POST')),
+
+  getUsers: () => request<User[]>('/users'),
+  addUser: (user: UserInput) => request<User>('/users', json('POST', user)),
+  updateUser: (id: string, changes: UserInput) => request<User>(`/users/${id}`, json('PUT', changes)),
+  deleteUser: (id: string) => request<void>(`/users/${id}`, json('DELETE')),
+
+  getPlayers: () => request<Player[]>('/players'),
+  // Like games, new profiles carry a client-side id. With a placement they join that team for the season.
+  addPlayer: (player: Player, placement?: { seasonId: string, teamId: string }) =>
+    mutation('POST', '/players', { ...player, ...placement }, `Joueur ${playerName(player)}`, player),
+  updatePlayer: (player: Player) =>
+    mutation('PUT', `/players/${player.id}`, player, `Profil de ${playerName(player)}`, player),
+  addPlayers: (names: string[], placement?: { seasonId: string, teamId: string }) =>
+    request<Player[]>('/players/batch', json('POST', { names, ...placement })),
+  clearPlayers: () => request<Deletion>('/players', json('DELETE')),
+  deletePlayer: (player: Player) =>
+    mutation<Deletion>('DELETE', `/players/${player.id}`, undefined, `Suppression de ${playerName(player)}`, undefined),
+
+  deleteMatch: (player: Player, game: Game) =>
+    mutation<Deletion>('DELETE', `/players/${player.id}/matches/${game.id}?version=${game.version}`, undefined,
+      `Ligne de ${playerName(player)} (${day(game.date)})`, undefined),
+  resetPlayerStats: (player: Player) =>
+    mutation<Deletion>('DELETE', `/players/${player.id}/matches`, undefined, `Reset de ${playerName(player)}`, undefined),
+
+  getSeasons: () => request<Season[]>('/seasons'),
+  // `copyFrom` carries over the roster of another season
+  addSeason: (season: SeasonInput, copyFrom?: string) => request<Season>('/seasons', json('POST', { ...season, copyFrom })),
+  setRosterEntry: (seasonId: string, playerId: string, teamId: string) =>
+    request<Season>(`/seasons/${seasonId}/roster/${playerId}`, json('PUT', { teamId })),
+  removeRosterEntry: (seasonId: string, playerId: string) =>
+    request<Season>(`/seasons/${seasonId}/roster/${playerId}`, json('DELETE')),
+
+  getTeams: () => request<Team[]>('/teams'),
+  addTeam: (name: string) => request<Team>('/teams', json('POST', { name })),
+
+  getGames: () => request<Game[]>('/games'),
+  // The game carries a client-side id so that an offline creation can be replayed safely.
+  // `scheduleEventId` is the game of the schedule it records, if any.
+  addGame: (game: Game, events?: LiveEvent[], scheduleEventId?: string) =>
+    mutation('POST', '/games', { ...game, events, scheduleEventId }, `Match du ${day(game.date)}`, game),
+  // `game.version` is the version the edit was based on
+  updateGame: (game: Game) =>
+    mutation('PUT', `/games/${game.id}`, game, `Modification du match du ${day(game.date)}`, { ...game, version: game.version + 1 }),
+  deleteGame: (game: Game) =>
+    mutation<Deletion>('DELETE', `/games/${game.id}?version=${game.version}`, undefined, `Suppression du match du ${day(game.date)}`, undefined),
+  getGameEvents: (id: string) => request<LiveEvent[]>(`/games/${id}/events`),
+
+  getSchedule: () => request<ScheduleEvent[]>('/schedule'),
+  addScheduleEvent: (event: ScheduleEvent) =>
+    mutation('POST', '/schedule', event, `Rendez-vous du ${day(event.date)}`, event),
+  updateScheduleEvent: (event: ScheduleEvent) =>
+    mutation('PUT', `/schedule/${event.id}`, event, `Rendez-vous du ${day(event.date)}`, event),
+  deleteScheduleEvent: (event: ScheduleEvent) =>
+    mutation<Deletion>('DELETE', `/schedule/${event.id}`, undefined, `Suppression du rendez-vous du ${day(event.date)}`, undefined),
+  // Secret of the calendar subscription URL; revoking it makes the next call issue a new one
+  getCalendarFeed: () => request<{ token: string }>('/schedule/feed'),
+  revokeCalendarFeed: () => request<void>('/schedule/feed', json('DELETE')),
+
+  getAttendance: () => request<AttendanceRecord[]>('/attendance'),
+  saveAttendance: (event: ScheduleEvent, records: AttendanceRecord[]) =>
+    mutation('PUT', `/attendance/${event.id}`, { records }, `Présences du ${day(event.date)}`, records),
+
+  getInjuries: () => request<Injury[]>('/injuries'),
+  addInjury: (injury: Injury) =>
+    mutation('POST', '/injuries', injury, `Blessure du ${day(injury.date)}`, injury),
+  updateInjury: (injury: Injury) =>
+    mutation('PUT', `/injuries/${injury.id}`, injury, `Blessure du ${day(injury.date)}`, injury),
+  deleteInjury: (injury: Injury) =>
+    mutation<Deletion>('DELETE', `/injuries/${injury.id}`, undefined, `Suppression de la blessure du ${day(injury.date)}`, undefined),
+
+  getMessages: () => request<Message[]>('/messages'),
+  addMessage: (message: Message) => mutation('POST', '/messages', message, 'Message', message),
+  updateMessage: (message: Message) =>
+    mutation('PUT', `/messages/${message.id}`, message, 'Modification de message', { ...message, editedAt: new Date().toISOString() }),
+  getMessageEdits: (id: string) => request<MessageEdit[]>(`/messages/${id}/edits`),
+  setReaction: (message: Message, emoji: string, userId: string, active: boolean) =>
+    mutation('PUT', `/messages/${message.id}/reactions`, { emoji, active }, 'Réaction',
+      { ...message, reactions: withReaction(message.reactions ?? [], emoji, userId, active) }),
+  pinMessage: (message: Message, pinned: boolean) =>
+    mutation('PUT', `/messages/${message.id}/pin`, { pinned }, pinned ? 'Épinglage de message' : 'Message désépinglé', { ...message, pinned }),
+  getNotifications: () => request<UserNotification[]>('/notifications'),
+  // Without ids, marks every notification as read
+  markNotificationsRead: (ids?: string[]) =>
+    mutation('PUT', '/notifications/read', { ids }, 'Lecture des notifications', undefined),
+  getNotificationSettings: () => request<NotificationSettings>('/notifications/settings'),
+  saveNotificationSettings: (settings: NotificationSettings) =>
+    request<NotificationSettings>('/notifications/settings', json('PUT', settings)),
+  getPushKey: () => request<{ publicKey: string }>('/notifications/push'),
+  addPushSubscription: (subscription: PushSubscriptionJSON) => request<void>('/notifications/push', json('POST', subscription)),
+  removePushSubscription: (endpoint: string) => request<void>('/notifications/push', json('DELETE', { endpoint })),
+  testPush: () => request<{ sent: number }>('/notifications/push/test', json('POST')),
+
+  // Time up to which the account has read the feed
+  getFeedRead: () => request<{ readAt: string | null }>('/messages/read'),
+  markFeedRead: (readAt: string) => mutation('PUT', '/messages/read', { readAt }, 'Lecture du fil', { readAt }),
+  deleteMessage: (id: string) => mutation<Deletion>('DELETE', `/messages/${id}`, undefined, 'Suppression de message', undefined),
+
+  // Written on demand by the server, never queued offline
+  getPlayerReport: (playerId: string, seasonId: string | null) =>
+    request<Report>(`/reports/player/${playerId}`, json('POST', { seasonId })),
+  getGameReport: (gameId: string) => request<Report>(`/reports/game/${gameId}`, json('POST')),
+
+  // Public pages, online only like the calendar feed
+  getShareLinks: () => request<ShareLink[]>('/share/links'),
+  createShareLink: (seasonId: string, teamId: string) => request<ShareLink>('/share/links', json('POST', { seasonId, teamId })),
+  revokeShareLink: (token: string) => request<void>(`/share/links/${token}`, json('DELETE')),
+  getHiddenPlayers: () => request<string[]>('/share/hidden'),
+  setPlayerHidden: (playerId: string, hidden: boolean) => request<string[]>(`/share/hidden/${playerId}`, json('PUT', { hidden })),
+  getPublicTeam: (token: string) => request<PublicTeam>(`/public/${encodeURIComponent(token)}`),
+
+  importBackup: (backup: Backup, mode: ImportMode) =>
+    request<{ players: number, games: number, skippedGames: number, messages: number, trashId?: string }>('/import', json('POST', { backup, mode })),
+
+  resetSystem: () => request<Deletion>('/reset', json('POST')),
+
+  getTrash: () => request<TrashEntry[]>('/trash'),
+  restoreTrash: (id: string) => request<void>(`/trash/${id}/restore`, json('POST')),
+  purgeTrash: (id: string) => request<void>(`/trash/${id}`, json('DELETE')),
+  // `entityId` narrows the log to one player or game
+  getAudit: (entityId?: string) => request<AuditEntry[]>(`/audit${entityId ? `?entityId=${encodeURIComponent(entityId)}` : ''}`),
+
+  replay: async (entry: OutboxEntry) => {
+    try {
+      await request<void>(entry.path, json(entry.method, entry.body));
+    } catch (err) {
+      // Deleting something that is already gone is what we wanted
+      if (entry.method === 'DELETE' && err instanceof ApiError && err.status === 404) return;
+      throw err;
+    }
+  },
+  // Re-sends a conflicting entry without its version check, overwriting the server copy
+  forceReplay: (entry: OutboxEntry) => {
+    const path = entry.path.replace(/\?version=\d+$/, '');
+    const body = entry.body && typeof entry.body === 'object' ? { ...entry.body, version: undefined } : entry.body;
+    return request<void>(path, json(entry.method, body));
+  },
+};
@@ -0,0 +1,92 @@
+import type { AttendanceRecord, AttendanceStatus, ScheduleEvent } from './types';
+
+export const ATTENDANCE_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Présent',
+  late: 'En retard',
+  absent: 'Absent',
+  excused: 'Excusé',
+};
+
+export const ATTENDANCE_STATUSES = Object.keys(ATTENDANCE_LABELS) as AttendanceStatus[];
+
+const attended = (record: AttendanceRecord) => record.status === 'present' || record.status === 'late';
+
+export function parseAttendanceRecord(raw: any, eventId: string): AttendanceRecord | string {
+  const optionalInt = (value: unknown) => (value === null || value === undefined || value === '' ? null : Number(value));
+  const record: AttendanceRecord = {
+    eventId,
+    playerId: String(raw?.playerId ?? ''),
+    status: raw?.status,
+    reason: typeof raw?.reason === 'string' ? raw.reason.trim() : '',
+    rpe: optionalInt(raw?.rpe),
+    duration: optionalInt(raw?.duration),
+  };
+  if (!ATTENDANCE_STATUSES.includes(record.status)) return 'Statut de présence invalide';
+  if (record.rpe !== null && (!Number.isInteger(record.rpe) || record.rpe < 1 || record.rpe > 10)) return 'RPE invalide (1 à 10)';
+  if (record.duration !== null && (!Number.isInteger(record.duration) || record.duration <= 0 || record.duration > 24 * 60)) {
+    return 'Durée invalide (en minutes)';
+  }
+  // Missed sessions carry neither effort nor duration
+  if (!attended(record)) {
+    record.rpe = null;
+    record.duration = null;
+  }
+  return record;
+}
+
+export interface AttendanceSummary {
+  counts: Record<AttendanceStatus, number>;
+  // Share of sessions attended (late included), excused absences aside; null
+  // without any session
+  rate: number | null;
+}
+
+export function attendanceSummary(records: AttendanceRecord[]): AttendanceSummary {
+  const counts = { present: 0, late: 0, absent: 0, excused: 0 };
+  records.forEach(r => {
+    counts[r.status]++;
+  });
+  const expected = counts.present + counts.late + counts.absent;
+  return { counts, rate: expected > 0 ? (100 * (counts.present + counts.late)) / expected : null };
+}
+
+// Session-RPE training load: minutes trained × RPE, in arbitrary units
+export function sessionLoad(record: AttendanceRecord, event: ScheduleEvent | undefined) {
+  const minutes = record.duration ?? event?.duration ?? null;
+  return attended(record) && record.rpe !== null && minutes !== null ? minutes * record.rpe : 0;
+}
+
+// Monday of the week of a YYYY-MM-DD date
+export function weekOf(date: string) {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+export interface WeeklyLoad {
+  week: string;
+  load: number;
+  sessions: number;
+  // Distinct players who trained that week, to average a team's load
+  players: number;
+}
+
+// Training load per week, oldest first, for the given records (one player's,
+// or a whole team's). Weeks without a session are left out.
+export function weeklyLoads(records: AttendanceRecord[], events: ScheduleEvent[]): WeeklyLoad[] {
+  const byId = new Map(events.map(e => [e.id, e]));
+  const weeks = new Map<string, WeeklyLoad & { playerIds: Set<string> }>();
+  records.forEach(r => {
+    const event = byId.get(r.eventId);
+    if (!event || !attended(r)) return;
+    const week = weekOf(event.date);
+    const entry = weeks.get(week) ?? { week, load: 0, sessions: 0, players: 0, playerIds: new Set<string>() };
+    entry.load += sessionLoad(r, event);
+    entry.sessions++;
+    entry.playerIds.add(r.playerId);
+    weeks.set(week, entry);
+  });
+  return [...weeks.values()]
+    .sort((a, b) => a.week.localeCompare(b.week))
+    .map(({ playerIds, ...entry }) => ({ ...entry, players: playerIds.size }));
+}
@@ -0,0 +1,101 @@
+import { BOX_SCORE_FIELDS } from './boxScore';
+import { DNP_LABELS } from './injuries';
+import { HAND_LABELS, POSITION_LABELS, STATUS_LABELS } from './players';
+import type { Permission } from './auth';
+import type { AuditAction, AuditEntry, Game, Player, StatLine, TrashKind } from './types';
+
+// Seconds during which the toast of a deletion offers to undo it
+export const UNDO_MS = 8000;
+
+// Restoring (or emptying) a trash entry takes the permission of the deletion
+export const TRASH_PERMISSIONS: Record<TrashKind, Permission> = {
+  player: 'manage_roster',
+  players: 'manage_roster',
+  game: 'edit_stats',
+  lines: 'edit_stats',
+  system: 'reset_system',
+  event: 'manage_schedule',
+  injury: 'manage_roster',
+  // Authors may also restore what they deleted themselves (see server/trash.ts)
+  message: 'moderate_messages',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Création',
+  update: 'Modification',
+  delete: 'Suppression',
+  restore: 'Restauration',
+};
+
+export interface AuditChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+const PLAYER_FIELDS: { key: keyof Player, label: string, format?: (value: any) => string }[] = [
+  { key: 'firstName', label: 'Prénom' },
+  { key: 'lastName', label: 'Nom' },
+  { key: 'jerseyNumber', label: 'Numéro' },
+  { key: 'position', label: 'Poste', format: v => POSITION_LABELS[v as keyof typeof POSITION_LABELS] },
+  { key: 'birthDate', label: 'Naissance' },
+  { key: 'height', label: 'Taille' },
+  { key: 'hand', label: 'Main', format: v => HAND_LABELS[v as keyof typeof HAND_LABELS] },
+  { key: 'status', label: 'Statut', format: v => STATUS_LABELS[v as keyof typeof STATUS_LABELS] },
+  // The log keeps a summary of the picture, not the picture itself
+  { key: 'photo', label: 'Photo' },
+];
+
+const GAME_FIELDS: { key: keyof Game, label: string, format?: (value: any) => string }[] = [
+  { key: 'date', label: 'Date', format: v => new Date(v).toLocaleDateString('fr-FR') },
+  { key: 'opponent', label: 'Adversaire' },
+  { key: 'venue', label: 'Lieu', format: v => (v === 'home' ? 'Domicile' : 'Extérieur') },
+  { key: 'competition', label: 'Compétition' },
+  { key: 'teamScore', label: 'Score IBAA' },
+  { key: 'opponentScore', label: 'Score adverse' },
+];
+
+function display(value: unknown, format?: (value: any) => string) {
+  if (value === null || value === undefined || value === '') return '-';
+  return format ? format(value) : String(value);
+}
+
+function fieldChanges<T>(fields: { key: keyof T, label: string, format?: (value: any) => string }[], before: T | null, after: T | null) {
+  return fields
+    .filter(({ key }) => (before?.[key] ?? null) !== (after?.[key] ?? null))
+    .map(({ key, label, format }) => ({ field: label, before: display(before?.[key], format), after: display(after?.[key], format) }));
+}
+
+const lineSummary = (line: StatLine | undefined) =>
+  !line ? '-' : line.dnp ? `DNP · ${DNP_LABELS[line.dnp]}` : `${line.points} pts · ${line.rebounds} reb · ${line.assists} ast`;
+
+// Box score differences of each player whose line was added, removed or changed
+function lineChanges(before: Game | null, after: Game | null, name: (playerId: string) => string): AuditChange[] {
+  const previous = new Map((before?.lines ?? []).map(l => [l.playerId, l]));
+  const next = new Map((after?.lines ?? []).map(l => [l.playerId, l]));
+  return [...new Set([...previous.keys(), ...next.keys()])].flatMap(playerId => {
+    const a = previous.get(playerId);
+    const b = next.get(playerId);
+    if (!a || !b || a.dnp !== b.dnp) return [{ field: name(playerId), before: lineSummary(a), after: lineSummary(b) }];
+    const changed = BOX_SCORE_FIELDS.filter(f => a[f.key] !== b[f.key]);
+    if (changed.length === 0) return [];
+    return [{
+      field: name(playerId),
+      before: changed.map(f => `${a[f.key]} ${f.label}`).join(' · '),
+      after: changed.map(f => `${b[f.key]} ${f.label}`).join(' · '),
+    }];
+  });
+}
+
+// What an entry of the log changed, field by field; `name` gives the name of
+// the players in a game's lines
+export function auditChanges(entry: AuditEntry, name: (playerId: string) => string): AuditChange[] {
+  if (entry.entity === 'player') return fieldChanges(PLAYER_FIELDS, entry.before as Player | null, entry.after as Player | null);
+  if (entry.entity === 'game') {
+    const before = entry.before as Game | null;
+    const after = entry.after as Game | null;
+    // A created or deleted game is summed up by its lines
+    return [...fieldChanges(GAME_FIELDS, before, after), ...lineChanges(before, after, name)];
+  }
+  return [];
+}
@@ -0,0 +1,50 @@
+import { playerName } from './players';
+import type { Player, Role, User } from './types';
+
+export type Permission =
+  | 'manage_users'
+  | 'reset_system'
+  | 'import_data'
+  | 'export_data'
+  | 'manage_roster'
+  | 'edit_stats'
+  | 'manage_schedule'
+  | 'view_all_stats'
+  | 'post_messages'
+  | 'moderate_messages'
+  | 'pin_messages'
+  | 'view_audit';
+
+export const ROLES: Role[] = ['admin', 'coach', 'player', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrateur',
+  coach: 'Coach',
+  player: 'Joueur',
+  viewer: 'Lecteur',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'manage_users', 'reset_system', 'import_data', 'export_data', 'manage_roster',
+    'edit_stats', 'manage_schedule', 'view_all_stats', 'post_messages', 'moderate_messages', 'pin_messages', 'view_audit',
+  ],
+  coach: [
+    'import_data', 'export_data', 'manage_roster', 'edit_stats', 'manage_schedule', 'view_all_stats', 'post_messages', 'moderate_messages',
+    'view_audit',
+  ],
+  player: ['post_messages'],
+  viewer: ['view_all_stats'],
+};
+
+export function can(user: User | null | undefined, permission: Permission) {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+// Players only see the detailed stats of their own profile
+export function canViewPlayer(user: User | null | undefined, playerId: string) {
+  return can(user, 'view_all_stats') || (!!user && user.playerId === playerId);
+}
+
+// Name shown on the messages a user posts: a player posts under their roster name
+export const authorName = (user: User, player?: Player | null) => (player ? playerName(player) : user.displayName);
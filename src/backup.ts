@@ -0,0 +1,343 @@
+import { BOX_SCORE_FIELDS, BOX_SCORE_KEYS, emptyBoxScore, validateBoxScore } from './boxScore';
+import { isDnpReason } from './injuries';
+import { parseMessageInput } from './messages';
+import { findByName, fromLegacyName, normalizeName, parsePlayerInput, playerName } from './players';
+import { findSeason, parseSeasonInput, seasonOf } from './seasons';
+import { isDate, newId } from './utils';
+import type { LegacyData } from './storage';
+import type { Backup, BoxScore, Game, Message, Player, Season, StatLine, Team } from './types';
+
+export function createBackup(seasons: Season[], teams: Team[], players: Player[], games: Game[], messages: Message[]): Backup {
+  return { format: 'ibaa-backup', version: 3, exportedAt: new Date().toISOString(), seasons, teams, players, games, messages };
+}
+
+// Files from before seasons existed (CSV, versions 1 and 2)
+type LegacyGame = Omit<Game, 'seasonId' | 'teamId'>;
+type LegacyBackup = Omit<Backup, 'version' | 'seasons' | 'teams' | 'games'> & { games: LegacyGame[] };
+
+// What the current data offers to files that need it: the roster to match
+// names against, and where to put games that have no season or team.
+export interface ImportContext {
+  players: Player[];
+  seasons: Season[];
+  team: Team;
+}
+
+const GAME_COLUMNS = ['game_id', 'date', 'opponent', 'venue', 'competition', 'team_score', 'opponent_score', 'player'];
+const CSV_HEADER = [...GAME_COLUMNS, ...BOX_SCORE_FIELDS.map(f => f.label)];
+// Absent from files exported before players had ids
+const PLAYER_ID_COLUMN = 'player_id';
+// Absent from files exported before DNP reasons; empty for players who played
+const DNP_COLUMN = 'dnp';
+
+function csvCell(value: string | number | null) {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per player-game stat line
+export function toCsv(games: Game[], players: Player[]) {
+  const names = new Map(players.map(p => [p.id, playerName(p)]));
+  const rows = games.flatMap(g => g.lines.map(l => [
+    g.id, g.date, g.opponent, g.venue, g.competition, g.teamScore, g.opponentScore, names.get(l.playerId) ?? '',
+    ...BOX_SCORE_FIELDS.map(f => l[f.key]), l.playerId, l.dnp
+  ]));
+  return [[...CSV_HEADER, PLAYER_ID_COLUMN, DNP_COLUMN], ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+// Resolves names from a file without ids: an existing profile with the same
+// name is reused, otherwise a new profile is created once per name.
+function nameResolver(roster: Player[]) {
+  const created: Player[] = [];
+  const resolve = (name: string): Player => {
+    const known = findByName(roster, name) ?? findByName(created, name);
+    if (known) return known;
+    const player = { ...fromLegacyName(name), id: newId() };
+    created.push(player);
+    return player;
+  };
+  return resolve;
+}
+
+function parseCsvRows(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+function fromCsv(text: string, roster: Player[]): LegacyBackup {
+  const [header, ...rows] = parseCsvRows(text);
+  const missing = CSV_HEADER.filter(column => !header?.includes(column));
+  if (missing.length > 0) throw new Error(`Colonnes manquantes : ${missing.join(', ')}`);
+
+  const col = (row: string[], name: string) => row[header.indexOf(name)] ?? '';
+  const score = (value: string) => (value.trim() === '' ? null : Number(value));
+  const games = new Map<string, LegacyGame>();
+  const players = new Map<string, Player>();
+  const resolve = nameResolver(roster);
+
+  rows.forEach(row => {
+    const id = col(row, 'game_id');
+    if (!games.has(id)) {
+      games.set(id, {
+        id,
+        date: col(row, 'date'),
+        opponent: col(row, 'opponent'),
+        venue: col(row, 'venue') as Game['venue'],
+        competition: col(row, 'competition'),
+        teamScore: score(col(row, 'team_score')),
+        opponentScore: score(col(row, 'opponent_score')),
+        version: 1,
+        lines: []
+      });
+    }
+    const player = roster.find(p => p.id === col(row, PLAYER_ID_COLUMN)) ?? resolve(col(row, 'player'));
+    const line = { playerId: player.id, dnp: col(row, DNP_COLUMN) || null } as StatLine;
+    BOX_SCORE_FIELDS.forEach(f => {
+      line[f.key] = Number(col(row, f.label));
+    });
+    games.get(id)!.lines.push(line);
+    players.set(player.id, player);
+  });
+
+  return { format: 'ibaa-backup', exportedAt: new Date().toISOString(), players: [...players.values()], games: [...games.values()] };
+}
+
+// Version 1 backups listed players by name and referenced them by name in lines
+function upgradeV1(data: any, roster: Player[]): LegacyBackup {
+  const resolve = nameResolver(roster);
+  const players = new Map<string, Player>();
+  const idOf = (name: unknown) => {
+    if (typeof name !== 'string' || !name.trim()) return '';
+    const player = resolve(name);
+    players.set(player.id, player);
+    return player.id;
+  };
+  data.players.forEach(idOf);
+  const games = data.games.map((g: any) => ({
+    ...g,
+    lines: Array.isArray(g?.lines) ? g.lines.map(({ playerName, ...line }: any) => ({ ...line, playerId: idOf(playerName) })) : g?.lines
+  }));
+  return { ...data, players: [...players.values()], games };
+}
+
+// Games without a season go to the season of their date (created when
+// missing) and to the selected team, which their players join for that season.
+function placeGames(legacy: LegacyBackup, { seasons, team }: ImportContext): Backup {
+  const placed = new Map<string, Season>();
+  const seasonFor = (date: unknown) => {
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}/.test(date)) return null;
+    const known = findSeason(seasons, date.slice(0, 10));
+    const { name, startDate, endDate } = known ?? seasonOf(date);
+    if (!placed.has(name)) placed.set(name, { id: known?.id ?? newId(), name, startDate, endDate, roster: [] });
+    return placed.get(name)!;
+  };
+
+  const games = legacy.games.map(g => {
+    const season = seasonFor(g?.date);
+    if (season && Array.isArray(g.lines)) {
+      g.lines.forEach(l => {
+        const playerId = l?.playerId;
+        if (typeof playerId === 'string' && !season.roster.some(e => e.playerId === playerId)) season.roster.push({ playerId, teamId: team.id });
+      });
+    }
+    return { ...g, seasonId: season?.id ?? '', teamId: team.id };
+  });
+  return { ...legacy, version: 3, seasons: [...placed.values()], teams: [team], games };
+}
+
+// Parses an exported .json or .csv file. Throws with a French message when
+// the file cannot be read at all; field-level problems come from validateBackup.
+// Players known only by name are matched against the current roster.
+export function parseBackupFile(name: string, text: string, context: ImportContext): Backup {
+  if (name.toLowerCase().endsWith('.csv')) return placeGames(fromCsv(text, context.players), context);
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Fichier JSON illisible");
+  }
+  return upgradeBackup(data, context);
+}
+
+function upgradeBackup(data: any, context: ImportContext): Backup {
+  if (data?.format !== 'ibaa-backup') throw new Error("Ce fichier n'est pas une sauvegarde IBAA");
+  if (![1, 2, 3].includes(data.version)) throw new Error(`Version de sauvegarde non supportée : ${data.version}`);
+  if (!Array.isArray(data.players) || !Array.isArray(data.games)) throw new Error("Sauvegarde incomplète");
+  if (data.version === 3) return data;
+  return placeGames(data.version === 1 ? upgradeV1(data, context.players) : data, context);
+}
+
+// The data of the first version, left on the device (see loadLegacyData), as
+// a version 1 backup. Each player's matches played on the same date become
+// one game, like the server's migration of the same data.
+export function fromLegacyData({ players, messages }: LegacyData, context: ImportContext): Backup {
+  type V1Game = Omit<LegacyGame, 'lines'> & { lines: (BoxScore & { dnp: null, playerName: string })[] };
+  const games: V1Game[] = [];
+  const names = new Map<V1Game, Set<string>>();
+  Object.entries(players).forEach(([name, matches]) => matches.forEach(m => {
+    let game = games.find(g => g.date === m.date && !names.get(g)!.has(name));
+    if (!game) {
+      game = { id: newId(), date: m.date, opponent: '', venue: 'home', competition: '', teamScore: null, opponentScore: null, version: 1, lines: [] };
+      games.push(game);
+      names.set(game, new Set());
+    }
+    names.get(game)!.add(name);
+    game.lines.push({ ...emptyBoxScore(), points: m.points, rebounds: m.rebounds, assists: m.assists, dnp: null, playerName: name });
+  }));
+  return upgradeBackup({
+    format: 'ibaa-backup', version: 1, exportedAt: new Date().toISOString(), players: Object.keys(players), games, messages
+  }, context);
+}
+
+const isInt = (value: unknown) => Number.isInteger(value);
+
+// Lists every problem found in the backup; an empty list means it can be imported.
+export function validateBackup(backup: Backup): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(backup.players)) return ['Liste de joueurs invalide'];
+  const names = new Map<string, string>();
+  backup.players.forEach((p, i) => {
+    const profile = parsePlayerInput(p);
+    if (typeof p?.id !== 'string' || !p.id) errors.push(`Joueur ${i + 1} : identifiant manquant`);
+    else if (names.has(p.id)) errors.push(`Joueur ${i + 1} : identifiant en double`);
+    else if (typeof profile === 'string') errors.push(`Joueur ${i + 1} : ${profile}`);
+    else names.set(p.id, playerName(profile));
+  });
+
+  if (!Array.isArray(backup.teams) || !Array.isArray(backup.seasons)) return [...errors, 'Saisons ou catégories manquantes'];
+  const teamIds = new Set<string>();
+  backup.teams.forEach((t, i) => {
+    if (typeof t?.id !== 'string' || !t.id || typeof t.name !== 'string' || !t.name.trim()) errors.push(`Catégorie ${i + 1} : nom ou identifiant manquant`);
+    else if (teamIds.has(t.id)) errors.push(`Catégorie ${i + 1} : identifiant en double`);
+    else teamIds.add(t.id);
+  });
+  const seasonIds = new Set<string>();
+  backup.seasons.forEach((s, i) => {
+    const season = parseSeasonInput(s);
+    if (typeof s?.id !== 'string' || !s.id) errors.push(`Saison ${i + 1} : identifiant manquant`);
+    else if (seasonIds.has(s.id)) errors.push(`Saison ${i + 1} : identifiant en double`);
+    else if (typeof season === 'string') errors.push(`Saison ${i + 1} : ${season}`);
+    else if (!Array.isArray(s.roster) || !s.roster.every(e => names.has(e?.playerId) && teamIds.has(e?.teamId))) {
+      errors.push(`Saison ${season.name} : effectif invalide`);
+    } else seasonIds.add(s.id);
+  });
+
+  if (!Array.isArray(backup.games)) return [...errors, 'Liste de matchs invalide'];
+
+  const ids = new Set<string>();
+  backup.games.forEach((g, i) => {
+    const label = `Match ${i + 1}${g?.date ? ` (${g.date})` : ''}`;
+    if (!g?.id) errors.push(`${label} : identifiant manquant`);
+    else if (ids.has(g.id)) errors.push(`${label} : identifiant en double`);
+    ids.add(g?.id);
+    if (typeof g?.date !== 'string' || !isDate(g.date)) errors.push(`${label} : date invalide`);
+    if (!seasonIds.has(g?.seasonId)) errors.push(`${label} : saison inconnue`);
+    if (!teamIds.has(g?.teamId)) errors.push(`${label} : catégorie inconnue`);
+    if (g?.venue !== 'home' && g?.venue !== 'away') errors.push(`${label} : lieu invalide`);
+    if (![g?.teamScore, g?.opponentScore].every(s => s === null || isInt(s))) errors.push(`${label} : score invalide`);
+    if (!Array.isArray(g?.lines)) {
+      errors.push(`${label} : box score manquant`);
+      return;
+    }
+    g.lines.forEach(l => {
+      const name = names.get(l?.playerId);
+      if (!name) {
+        errors.push(`${label} : ligne sans joueur connu`);
+        return;
+      }
+      if (!BOX_SCORE_KEYS.every(key => isInt(l[key]))) {
+        errors.push(`${label}, ${name} : statistiques non numériques`);
+        return;
+      }
+      if (l.dnp !== undefined && l.dnp !== null && !isDnpReason(l.dnp)) {
+        errors.push(`${label}, ${name} : motif de non-participation invalide`);
+        return;
+      }
+      const error = validateBoxScore(l as BoxScore);
+      if (error) errors.push(`${label}, ${name} : ${error}`);
+    });
+  });
+
+  if (backup.messages === undefined) return errors;
+  if (!Array.isArray(backup.messages)) return [...errors, 'Liste de messages invalide'];
+  const messageIds = new Set<string>();
+  backup.messages.forEach((m, i) => {
+    const label = `Message ${i + 1}`;
+    const input = parseMessageInput(m);
+    if (typeof m?.id !== 'string' || !m.id) errors.push(`${label} : identifiant manquant`);
+    else if (messageIds.has(m.id)) errors.push(`${label} : identifiant en double`);
+    else if (typeof m.author !== 'string' || !m.author.trim()) errors.push(`${label} : auteur manquant`);
+    else if (typeof m.timestamp !== 'string' || Number.isNaN(new Date(m.timestamp).getTime())) errors.push(`${label} : date invalide`);
+    else if (m.parentId !== undefined && m.parentId !== null && typeof m.parentId !== 'string') errors.push(`${label} : message parent invalide`);
+    else if (typeof input === 'string') errors.push(`${label} : ${input}`);
+    messageIds.add(m?.id);
+  });
+  return errors;
+}
+
+export interface ImportPreview {
+  newPlayers: string[];
+  duplicatePlayers: string[];
+  // New profiles named like an existing player (or like another new one):
+  // most likely the same person, exported from another install
+  sameNamePlayers: string[];
+  newGames: number;
+  duplicateGames: Game[];
+  messages: number;
+  errors: string[];
+}
+
+// Compares a backup with the data already on the server. Players and games
+// already present (same id) are skipped on merge and overwritten on replace.
+// Players with another id but the same name would become a second profile:
+// they are flagged.
+export function previewImport(backup: Backup, players: Player[], games: Game[]): ImportPreview {
+  const known = new Set(players.map(p => p.id));
+  const knownGames = new Set(games.map(g => g.id));
+  const duplicateGames = backup.games.filter(g => knownGames.has(g?.id));
+  const newPlayers = backup.players.filter(p => p && !known.has(p.id));
+  const names = [...players, ...newPlayers].map(p => normalizeName(playerName(p)));
+  return {
+    newPlayers: newPlayers.map(playerName),
+    duplicatePlayers: backup.players.filter(p => known.has(p?.id)).map(playerName),
+    sameNamePlayers: newPlayers.map(playerName).filter(name => names.filter(n => n === normalizeName(name)).length > 1),
+    newGames: backup.games.length - duplicateGames.length,
+    duplicateGames,
+    messages: backup.messages?.length ?? 0,
+    errors: validateBackup(backup)
+  };
+}
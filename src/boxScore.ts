@@ -0,0 +1,64 @@
+import type { BoxScore } from './types';
+
+// Column order used by the game sheet and the history rows.
+export const BOX_SCORE_FIELDS: { key: keyof BoxScore, label: string }[] = [
+  { key: 'minutes', label: 'MIN' },
+  { key: 'fieldGoalsMade', label: 'FGM' },
+  { key: 'fieldGoalsAttempted', label: 'FGA' },
+  { key: 'threePointersMade', label: '3PM' },
+  { key: 'threePointersAttempted', label: '3PA' },
+  { key: 'freeThrowsMade', label: 'FTM' },
+  { key: 'freeThrowsAttempted', label: 'FTA' },
+  { key: 'offensiveRebounds', label: 'OREB' },
+  { key: 'defensiveRebounds', label: 'DREB' },
+  { key: 'rebounds', label: 'REB' },
+  { key: 'assists', label: 'AST' },
+  { key: 'steals', label: 'STL' },
+  { key: 'blocks', label: 'BLK' },
+  { key: 'turnovers', label: 'TOV' },
+  { key: 'fouls', label: 'PF' },
+  { key: 'points', label: 'PTS' },
+];
+
+export const BOX_SCORE_KEYS = BOX_SCORE_FIELDS.map(f => f.key);
+
+export function emptyBoxScore(): BoxScore {
+  const box = {} as BoxScore;
+  BOX_SCORE_KEYS.forEach(key => {
+    box[key] = 0;
+  });
+  return box;
+}
+
+// Field goals include threes, so a made three adds one point on top of the two.
+export const pointsFromShots = (b: BoxScore) =>
+  2 * b.fieldGoalsMade + b.threePointersMade + b.freeThrowsMade;
+
+// Lines migrated from the points/rebounds/assists era carry no shooting data;
+// consistency checks only apply once shots have been recorded.
+export const hasShootingData = (b: BoxScore) =>
+  b.fieldGoalsAttempted > 0 || b.freeThrowsAttempted > 0;
+
+export const percentage = (made: number, attempted: number) =>
+  attempted > 0 ? (made / attempted) * 100 : null;
+
+// Returns a French error message describing the first inconsistency, or null.
+export function validateBoxScore(b: BoxScore): string | null {
+  const negative = BOX_SCORE_FIELDS.find(f => b[f.key] < 0);
+  if (negative) return `${negative.label} ne peut pas être négatif`;
+
+  if (b.fieldGoalsMade > b.fieldGoalsAttempted) return 'FGM supérieur à FGA';
+  if (b.threePointersMade > b.threePointersAttempted) return '3PM supérieur à 3PA';
+  if (b.freeThrowsMade > b.freeThrowsAttempted) return 'FTM supérieur à FTA';
+  if (b.threePointersMade > b.fieldGoalsMade) return '3PM supérieur à FGM';
+  if (b.threePointersAttempted > b.fieldGoalsAttempted) return '3PA supérieur à FGA';
+
+  const splitRebounds = b.offensiveRebounds + b.defensiveRebounds;
+  if (splitRebounds > 0 && splitRebounds !== b.rebounds) {
+    return `REB (${b.rebounds}) différent de OREB + DREB (${splitRebounds})`;
+  }
+  if (hasShootingData(b) && b.points !== pointsFromShots(b)) {
+    return `PTS (${b.points}) incohérents avec les tirs réussis (${pointsFromShots(b)})`;
+  }
+  return null;
+}
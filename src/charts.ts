@@ -0,0 +1,82 @@
+import { byDate } from './games';
+import { RANKED_STATS, statValue, type StatKey } from './leaderboard';
+import type { Match, PlayersData } from './types';
+
+// Series colours, in the order stats or players are added to a chart
+export const CHART_COLORS = ['#10b981', '#3b82f6', '#f97316', '#a855f7', '#f43f5e', '#eab308'];
+
+// Axes of the profile radar
+export const RADAR_STATS: StatKey[] = ['points', 'rebounds', 'assists', 'steals', 'blocks', 'fgPct', 'tpPct', 'ftPct'];
+
+export const statLabel = (key: StatKey) => RANKED_STATS.find(s => s.key === key)!.label;
+
+// One chart row per game; a null value leaves a gap in the line
+export interface ChartRow {
+  id: string;
+  date: string;
+  opponent?: string;
+  [series: string]: number | string | null | undefined;
+}
+
+// Per-game values of the given stats for one player. With `window`, each
+// stat also gets a `<stat>Rolling` series over that many games up to each one.
+export function statSeries(matches: Match[], keys: StatKey[], window?: number): ChartRow[] {
+  const rows: ChartRow[] = matches.map(m => ({ id: m.id, date: m.date, opponent: m.opponent }));
+  keys.forEach(key => {
+    const values = matches.map(m => statValue([m], key, 'total'));
+    values.forEach((value, i) => {
+      rows[i][key] = value;
+    });
+    if (window) {
+      // Percentages over the window come from its totals, like season ones
+      matches.forEach((_, i) => {
+        const value = statValue(matches.slice(Math.max(0, i - window + 1), i + 1), key, 'average');
+        rows[i][`${key}Rolling`] = value === null ? null : Number(value.toFixed(1));
+      });
+    }
+  });
+  return rows;
+}
+
+// One stat for several players over the games any of them played, keyed by
+// player id. Players absent from a game get a null value for it.
+export function compareSeries(data: PlayersData, playerIds: string[], key: StatKey): ChartRow[] {
+  const rows = new Map<string, ChartRow>();
+  playerIds.forEach(playerId => {
+    (data[playerId] ?? []).forEach(m => {
+      const row = rows.get(m.id) ?? { id: m.id, date: m.date, opponent: m.opponent };
+      row[playerId] = statValue([m], key, 'total');
+      rows.set(m.id, row);
+    });
+  });
+  return [...rows.values()].sort(byDate).map(row => {
+    playerIds.forEach(playerId => {
+      row[playerId] ??= null;
+    });
+    return row;
+  });
+}
+
+export interface RadarPoint {
+  stat: string;
+  // Scaled from 0 to 100 against the best average on the team
+  player: number;
+  team: number;
+  playerValue: number | null;
+  teamValue: number | null;
+}
+
+// Profile of a player against the average of the team's players who played,
+// per game. Each axis is scaled by the best player average so that points
+// and percentages share the chart.
+export function radarProfile(data: PlayersData, teamIds: string[], playerId: string, keys = RADAR_STATS): RadarPoint[] {
+  const played = teamIds.filter(id => (data[id] ?? []).length > 0);
+  return keys.map(key => {
+    const averages = played.map(id => statValue(data[id], key, 'average')).filter((v): v is number => v !== null);
+    const playerValue = statValue(data[playerId] ?? [], key, 'average');
+    const teamValue = averages.length > 0 ? averages.reduce((a, b) => a + b, 0) / averages.length : null;
+    const best = Math.max(playerValue ?? 0, ...averages);
+    const scale = (value: number | null) => (best > 0 && value !== null ? Math.round((100 * value) / best) : 0);
+    return { stat: statLabel(key), player: scale(playerValue), team: scale(teamValue), playerValue, teamValue };
+  });
+}
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { ATTENDANCE_LABELS, ATTENDANCE_STATUSES, parseAttendanceRecord } from '../attendance';
+import { playerName } from '../players';
+import type { AttendanceRecord, AttendanceStatus, Player, ScheduleEvent } from '../types';
+import { cn } from '../utils';
+
+const fieldClass = "bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white focus:outline-none";
+
+const STATUS_COLORS: Record<AttendanceStatus, string> = {
+  present: "bg-emerald-500/20 border-emerald-500/50 text-emerald-500",
+  late: "bg-orange-500/20 border-orange-500/50 text-orange-500",
+  absent: "bg-rose-500/20 border-rose-500/50 text-rose-500",
+  excused: "bg-blue-500/20 border-blue-500/50 text-blue-500",
+};
+
+// Numbers are kept as typed until the sheet is submitted; players without a
+// status are left off the sheet
+interface Line {
+  status: AttendanceStatus | null;
+  reason: string;
+  rpe: string;
+  duration: string;
+}
+
+const toLine = (record?: AttendanceRecord): Line => ({
+  status: record?.status ?? null,
+  reason: record?.reason ?? '',
+  rpe: record?.rpe?.toString() ?? '',
+  duration: record?.duration?.toString() ?? '',
+});
+
+export default function AttendanceSheet({ event, players, records, onSubmit, onCancel }: {
+  event: ScheduleEvent,
+  players: Player[],
+  records: AttendanceRecord[],
+  // Resolves to true when the sheet was saved
+  onSubmit: (records: AttendanceRecord[]) => Promise<boolean>,
+  onCancel: () => void
+}) {
+  const [lines, setLines] = useState<Record<string, Line>>(() =>
+    Object.fromEntries(players.map(p => [p.id, toLine(records.find(r => r.playerId === p.id))])));
+  const [saving, setSaving] = useState(false);
+
+  const setLine = (playerId: string, patch: Partial<Line>) =>
+    setLines(prev => ({ ...prev, [playerId]: { ...prev[playerId], ...patch } }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sheet: AttendanceRecord[] = [];
+    for (const player of players) {
+      const line = lines[player.id];
+      if (!line.status) continue;
+      const record = parseAttendanceRecord({ ...line, playerId: player.id }, event.id);
+      if (typeof record === 'string') {
+        toast.error(`${playerName(player)} : ${record}`);
+        return;
+      }
+      sheet.push(record);
+    }
+    setSaving(true);
+    await onSubmit(sheet);
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">
+          {event.duration ? `Séance de ${event.duration} min` : 'Durée de séance non renseignée'}
+        </span>
+        <button
+          type="button"
+          onClick={() => setLines(prev => Object.fromEntries(players.map(p => [p.id, { ...prev[p.id], status: prev[p.id].status ?? 'present' }])))}
+          className="text-[9px] font-black text-emerald-500 uppercase tracking-widest"
+        >
+          Tous présents
+        </button>
+      </div>
+
+      <div className="divide-y divide-white/5">
+        {players.map(player => {
+          const line = lines[player.id];
+          const attended = line.status === 'present' || line.status === 'late';
+          return (
+            <div key={player.id} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-bold text-white truncate">{playerName(player)}</span>
+                <div className="flex gap-1 shrink-0">
+                  {ATTENDANCE_STATUSES.map(status => (
+                    <button
+                      key={status}
+                      type="button"
+                      title={ATTENDANCE_LABELS[status]}
+                      onClick={() => setLine(player.id, { status: line.status === status ? null : status })}
+                      className={cn(
+                        "w-8 py-1 rounded-lg text-[9px] font-black uppercase border transition-all",
+                        line.status === status ? STATUS_COLORS[status] : "bg-white/5 border-white/10 text-white/30"
+                      )}
+                    >
+                      {ATTENDANCE_LABELS[status][0]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {attended && (
+                <div className="flex gap-2">
+                  <select className={fieldClass} value={line.rpe} onChange={e => setLine(player.id, { rpe: e.target.value })}>
+                    <option value="" className="bg-slate-900">RPE</option>
+                    {Array.from({ length: 10 }, (_, i) => i + 1).map(n => <option key={n} value={n} className="bg-slate-900">RPE {n}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    placeholder={event.duration ? `${event.duration} min` : 'Minutes'}
+                    className={cn(fieldClass, "w-24")}
+                    value={line.duration}
+                    onChange={e => setLine(player.id, { duration: e.target.value })}
+                  />
+                </div>
+              )}
+              {(line.status === 'absent' || line.status === 'excused') && (
+                <input
+                  type="text"
+                  placeholder="Motif"
+                  className={cn(fieldClass, "w-full")}
+                  value={line.reason}
+                  onChange={e => setLine(player.id, { reason: e.target.value })}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 text-black font-black py-3 rounded-xl uppercase tracking-widest text-xs transition-all"
+        >
+          Enregistrer les présences
+        </button>
+        <button type="button" onClick={onCancel} className="p-3 bg-white/5 border border-white/10 rounded-xl text-white/40 hover:text-white transition-all">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { distinctValues, EMPTY_FILTER, isFilterActive, LAST_GAMES_OPTIONS } from '../filters';
+import type { Game, GameFilter, Venue } from '../types';
+import { cn } from '../utils';
+
+const fieldClass = "bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white focus:outline-none";
+const labelClass = "text-[8px] font-black text-white/30 uppercase tracking-widest";
+
+// Filter controls shared by the stats views. Every change is applied at once;
+// `games` provides the opponents and competitions to pick from.
+export default function GameFilterBar({ filter, games, onChange }: {
+  filter: GameFilter,
+  games: Game[],
+  onChange: (filter: GameFilter) => void
+}) {
+  const set = <K extends keyof GameFilter>(field: K, value: GameFilter[K]) => onChange({ ...filter, [field]: value });
+  const opponents = distinctValues(games, 'opponent').filter(o => !filter.opponents.includes(o));
+  const competitions = distinctValues(games, 'competition');
+
+  return (
+    <div className={cn(
+      "border rounded-2xl p-3 space-y-2",
+      isFilterActive(filter) ? "bg-emerald-500/5 border-emerald-500/20" : "bg-white/[0.02] border-white/5"
+    )}>
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] font-black text-white/40 uppercase tracking-widest">Filtres</span>
+        {isFilterActive(filter) && (
+          <button onClick={() => onChange(EMPTY_FILTER)} className="text-[9px] font-black text-emerald-500 uppercase tracking-widest">
+            Réinitialiser
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <span className={labelClass}>Du</span>
+          <input type="date" className={cn(fieldClass, "w-full")} value={filter.from} onChange={e => set('from', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Au</span>
+          <input type="date" className={cn(fieldClass, "w-full")} value={filter.to} onChange={e => set('to', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Période</span>
+          <select
+            className={cn(fieldClass, "w-full")}
+            value={filter.lastGames ?? ''}
+            onChange={e => set('lastGames', e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="" className="bg-slate-900">Tous les matchs</option>
+            {LAST_GAMES_OPTIONS.map(n => <option key={n} value={n} className="bg-slate-900">{n} derniers matchs</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Lieu</span>
+          <select className={cn(fieldClass, "w-full")} value={filter.venue ?? ''} onChange={e => set('venue', (e.target.value || null) as Venue | null)}>
+            <option value="" className="bg-slate-900">Tous</option>
+            <option value="home" className="bg-slate-900">Domicile</option>
+            <option value="away" className="bg-slate-900">Extérieur</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Résultat</span>
+          <select className={cn(fieldClass, "w-full")} value={filter.result ?? ''} onChange={e => set('result', (e.target.value || null) as GameFilter['result'])}>
+            <option value="" className="bg-slate-900">Tous</option>
+            <option value="W" className="bg-slate-900">Victoires</option>
+            <option value="L" className="bg-slate-900">Défaites</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Compétition</span>
+          <select className={cn(fieldClass, "w-full")} value={filter.competition} onChange={e => set('competition', e.target.value)}>
+            <option value="" className="bg-slate-900">Toutes</option>
+            {competitions.map(c => <option key={c} value={c} className="bg-slate-900">{c}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {filter.opponents.map(o => (
+          <span key={o} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-[9px] font-black text-white/60 uppercase tracking-widest">
+            {o}
+            <button onClick={() => set('opponents', filter.opponents.filter(x => x !== o))} className="text-white/40 hover:text-white">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {opponents.length > 0 && (
+          <select
+            className={fieldClass}
+            value=""
+            onChange={e => e.target.value && set('opponents', [...filter.opponents, e.target.value])}
+          >
+            <option value="" className="bg-slate-900">{filter.opponents.length > 0 ? '+ Adversaire' : 'Tous les adversaires'}</option>
+            {opponents.map(o => <option key={o} value={o} className="bg-slate-900">{o}</option>)}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
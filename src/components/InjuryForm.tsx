@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseInjuryInput } from '../injuries';
+import type { InjuryInput } from '../types';
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all";
+const labelClass = "text-[9px] font-black text-white/30 uppercase tracking-widest";
+
+// Optional dates are kept as typed until the form is submitted
+type Draft = Omit<InjuryInput, 'expectedReturn' | 'clearedDate'> & { expectedReturn: string, clearedDate: string };
+
+const toDraft = (i: InjuryInput): Draft => ({
+  ...i,
+  expectedReturn: i.expectedReturn ?? '',
+  clearedDate: i.clearedDate ?? '',
+});
+
+export default function InjuryForm({ initial, submitLabel, onSubmit, onCancel }: {
+  initial: InjuryInput,
+  submitLabel: string,
+  // Resolves to true when the injury was saved
+  onSubmit: (input: InjuryInput) => Promise<boolean>,
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState(() => toDraft(initial));
+  const [saving, setSaving] = useState(false);
+
+  const setField = <K extends keyof Draft>(field: K, value: Draft[K]) =>
+    setDraft(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = parseInjuryInput(draft);
+    if (typeof input === 'string') {
+      toast.error(input);
+      return;
+    }
+    setSaving(true);
+    await onSubmit(input);
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <label className="space-y-1">
+          <span className={labelClass}>Date</span>
+          <input type="date" className={inputClass} value={draft.date} onChange={e => setField('date', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Partie du corps</span>
+          <input type="text" placeholder="Cheville, genou..." className={inputClass} value={draft.bodyPart} onChange={e => setField('bodyPart', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Retour prévu</span>
+          <input type="date" className={inputClass} value={draft.expectedReturn} onChange={e => setField('expectedReturn', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Reprise</span>
+          <input type="date" className={inputClass} value={draft.clearedDate} onChange={e => setField('clearedDate', e.target.value)} />
+        </label>
+        <label className="space-y-1 col-span-2">
+          <span className={labelClass}>Description</span>
+          <textarea rows={2} className={inputClass} value={draft.description} onChange={e => setField('description', e.target.value)} />
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 text-black font-black py-3 rounded-xl uppercase tracking-widest text-xs transition-all"
+        >
+          {submitLabel}
+        </button>
+        <button type="button" onClick={onCancel} className="p-3 bg-white/5 border border-white/10 rounded-xl text-white/40 hover:text-white transition-all">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </form>
+  );
+}
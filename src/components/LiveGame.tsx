@@ -0,0 +1,393 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, RotateCcw, SkipForward, Flag, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { LIVE_GAME_STORAGE_KEY } from '../constants';
+import {
+  aggregateEvents,
+  describeEvent,
+  formatClock,
+  liveScore,
+  onCourt,
+  periodLabel,
+  periodLength,
+  periodStart
+} from '../liveGame';
+import { playerName } from '../players';
+import { createStore, isArrayOf, isObject } from '../storage';
+import type { GameDetails, LiveEvent, LiveEventType, Player, Venue } from '../types';
+import { cn } from '../utils';
+
+interface LiveState {
+  phase: 'setup' | 'tracking';
+  info: { date: string, opponent: string, venue: Venue, competition: string };
+  // Player ids
+  starters: string[];
+  events: LiveEvent[];
+  period: number;
+  // Game seconds on the clock when it was last stopped
+  elapsed: number;
+  // Date.now() when the clock was started, null while stopped
+  runningSince: number | null;
+}
+
+const initialState = (): LiveState => ({
+  phase: 'setup',
+  info: { date: new Date().toISOString().split('T')[0], opponent: '', venue: 'home', competition: '' },
+  starters: [],
+  events: [],
+  period: 1,
+  elapsed: 0,
+  runningSince: null
+});
+
+// The game in progress survives reloads and screen locks on the bench phone.
+// Games started before player ids (version 1) named players instead: they
+// are set aside rather than guessed.
+const liveGameStore = createStore<LiveState>({
+  key: LIVE_GAME_STORAGE_KEY,
+  version: 2,
+  legacyKeys: { ibaa_live_game_v1: 1, ibaa_live_game_v2: 2 },
+  validate: (data): data is LiveState => isObject(data)
+    && (data.phase === 'setup' || data.phase === 'tracking')
+    && isObject(data.info)
+    && isArrayOf(data.starters, (id): id is string => typeof id === 'string')
+    && isArrayOf(data.events, (e): e is LiveEvent => isObject(e) && typeof e.type === 'string' && Number.isInteger(e.seq))
+    && Number.isInteger(data.period)
+    && typeof data.elapsed === 'number'
+    && (data.runningSince === null || typeof data.runningSince === 'number'),
+  fallback: initialState,
+});
+
+const ACTIONS: { type: LiveEventType, label: string, tone: 'made' | 'missed' | 'neutral' | 'bad' }[] = [
+  { type: 'fg2_made', label: '2 PTS ✓', tone: 'made' },
+  { type: 'fg3_made', label: '3 PTS ✓', tone: 'made' },
+  { type: 'ft_made', label: 'LF ✓', tone: 'made' },
+  { type: 'fg2_missed', label: '2 PTS ✗', tone: 'missed' },
+  { type: 'fg3_missed', label: '3 PTS ✗', tone: 'missed' },
+  { type: 'ft_missed', label: 'LF ✗', tone: 'missed' },
+  { type: 'oreb', label: 'REB OFF', tone: 'neutral' },
+  { type: 'dreb', label: 'REB DEF', tone: 'neutral' },
+  { type: 'ast', label: 'PASSE', tone: 'neutral' },
+  { type: 'stl', label: 'INTER', tone: 'neutral' },
+  { type: 'blk', label: 'CONTRE', tone: 'neutral' },
+  { type: 'tov', label: 'PERTE', tone: 'bad' },
+  { type: 'foul', label: 'FAUTE', tone: 'bad' },
+];
+
+const TONES = {
+  made: "bg-emerald-500/10 border-emerald-500/20 text-emerald-500",
+  missed: "bg-white/5 border-white/10 text-white/60",
+  neutral: "bg-blue-500/10 border-blue-500/20 text-blue-500",
+  bad: "bg-rose-500/10 border-rose-500/20 text-rose-500",
+};
+
+export default function LiveGame({ roster, onFinish }: {
+  roster: Player[],
+  onFinish: (game: GameDetails, events: LiveEvent[]) => Promise<boolean>
+}) {
+  const [state, setState] = useState<LiveState>(liveGameStore.load);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    liveGameStore.save(state);
+  }, [state]);
+
+  const periodEnd = periodStart(state.period) + periodLength(state.period);
+  const clock = Math.min(
+    periodEnd,
+    state.elapsed + (state.runningSince ? (now - state.runningSince) / 1000 : 0)
+  );
+
+  useEffect(() => {
+    if (!state.runningSince) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.runningSince]);
+
+  // The clock stops by itself at the end of the period
+  useEffect(() => {
+    if (state.runningSince && clock >= periodEnd) {
+      setState(prev => ({ ...prev, elapsed: periodEnd, runningSince: null }));
+      toast.info(`Fin de ${periodLabel(state.period)}`);
+    }
+  }, [clock, periodEnd, state.runningSince, state.period]);
+
+  const nameOf = (id: string) => {
+    const player = roster.find(p => p.id === id);
+    return player ? playerName(player) : '?';
+  };
+  const court = onCourt(state.starters, state.events);
+  const bench = roster.filter(p => !court.includes(p.id));
+  const score = liveScore(state.events);
+  const lines = aggregateEvents(state.events, state.starters, clock);
+
+  const toggleClock = () => {
+    setNow(Date.now());
+    setState(prev => prev.runningSince
+      ? { ...prev, elapsed: clock, runningSince: null }
+      : { ...prev, runningSince: Date.now() });
+  };
+
+  const nextPeriod = () => {
+    setState(prev => ({ ...prev, period: prev.period + 1, elapsed: periodEnd, runningSince: null }));
+  };
+
+  const record = (type: LiveEventType, fields: Partial<LiveEvent> = {}) => {
+    setState(prev => ({
+      ...prev,
+      events: [...prev.events, {
+        seq: (prev.events.at(-1)?.seq ?? 0) + 1,
+        type,
+        period: prev.period,
+        clock: Math.round(clock),
+        playerId: null,
+        subIn: null,
+        value: 0,
+        ...fields
+      }]
+    }));
+  };
+
+  const handleAction = (type: LiveEventType) => {
+    if (!selected) {
+      toast.error("Sélectionnez d'abord un joueur sur le terrain");
+      return;
+    }
+    record(type, { playerId: selected });
+  };
+
+  const handleSub = (playerIn: string) => {
+    if (!selected) return;
+    record('sub', { playerId: selected, subIn: playerIn });
+    setSelected(playerIn);
+  };
+
+  const handleUndo = () => {
+    const last = state.events.at(-1);
+    if (!last) return;
+    setState(prev => ({ ...prev, events: prev.events.slice(0, -1) }));
+    toast(`Annulé : ${describeEvent(last, nameOf)}`);
+  };
+
+  const handleStart = () => {
+    if (state.starters.length !== 5) {
+      toast.error("Sélectionnez exactement 5 joueurs titulaires");
+      return;
+    }
+    setState(prev => ({ ...prev, phase: 'tracking' }));
+  };
+
+  const handleFinish = async () => {
+    if (!window.confirm("Terminer le match et enregistrer les statistiques ?")) return;
+    const saved = await onFinish({
+      ...state.info,
+      opponent: state.info.opponent.trim(),
+      competition: state.info.competition.trim(),
+      teamScore: score.team,
+      opponentScore: score.opponent,
+      lines
+    }, state.events);
+    if (saved) {
+      liveGameStore.clear();
+      setState(initialState());
+      setSelected(null);
+    }
+  };
+
+  const handleAbort = () => {
+    if (!window.confirm("Abandonner le suivi en direct ? Les événements saisis seront perdus.")) return;
+    liveGameStore.clear();
+    setState(initialState());
+    setSelected(null);
+  };
+
+  if (state.phase === 'setup') {
+    const setInfo = (field: keyof LiveState['info'], value: string) =>
+      setState(prev => ({ ...prev, info: { ...prev.info, [field]: value } }));
+    const toggleStarter = (id: string) =>
+      setState(prev => ({
+        ...prev,
+        starters: prev.starters.includes(id)
+          ? prev.starters.filter(s => s !== id)
+          : prev.starters.length < 5 ? [...prev.starters, id] : prev.starters
+      }));
+
+    return (
+      <div className="space-y-6">
+        <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-8 backdrop-blur-sm space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Date</label>
+              <input type="date" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={state.info.date} onChange={e => setInfo('date', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Adversaire</label>
+              <input type="text" placeholder="Nom de l'équipe" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={state.info.opponent} onChange={e => setInfo('opponent', e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Lieu</label>
+              <select className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none" value={state.info.venue} onChange={e => setInfo('venue', e.target.value)}>
+                <option value="home" className="bg-slate-900">Domicile</option>
+                <option value="away" className="bg-slate-900">Extérieur</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-bold text-white/30 uppercase tracking-[0.15em]">Compétition</label>
+              <input type="text" placeholder="Championnat, Coupe..." className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm" value={state.info.competition} onChange={e => setInfo('competition', e.target.value)} />
+            </div>
+          </div>
+        </section>
+
+        <section className="bg-white/[0.02] border border-white/5 rounded-3xl p-6 space-y-4">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">
+            Cinq de Départ ({state.starters.length}/5)
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {roster.map(player => (
+              <button
+                key={player.id}
+                type="button"
+                onClick={() => toggleStarter(player.id)}
+                className={cn(
+                  "px-3 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all",
+                  state.starters.includes(player.id) ? "bg-emerald-500 border-emerald-500 text-black" : "bg-white/5 border-white/10 text-white/60"
+                )}
+              >
+                {player.jerseyNumber !== null && `#${player.jerseyNumber} `}{playerName(player)}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <button onClick={handleStart} className="w-full bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase tracking-widest text-xs">
+          Commencer le Match
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white/[0.03] border border-white/5 rounded-3xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="text-center">
+            <div className="text-4xl font-black text-emerald-500">{score.team}</div>
+            <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">IBAA</div>
+          </div>
+          <div className="text-center">
+            <div className="text-[10px] font-black text-white/40 uppercase tracking-widest">{periodLabel(state.period)}</div>
+            <div className="text-3xl font-black text-white tabular-nums">{formatClock(periodEnd - clock)}</div>
+            <div className="flex justify-center gap-2 mt-2">
+              <button onClick={toggleClock} className="p-2 bg-white/5 border border-white/10 rounded-lg text-white">
+                {state.runningSince ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </button>
+              <button onClick={nextPeriod} disabled={clock < periodEnd} className="p-2 bg-white/5 border border-white/10 rounded-lg text-white disabled:opacity-20">
+                <SkipForward className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <div className="text-center">
+            <div className="text-4xl font-black text-white">{score.opponent}</div>
+            <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">{state.info.opponent || 'Adversaire'}</div>
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          {[1, 2, 3].map(points => (
+            <button
+              key={points}
+              onClick={() => record('opponent_score', { value: points })}
+              className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-black text-white/60 uppercase tracking-widest"
+            >
+              Adv +{points}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Sur le terrain</h3>
+        <div className="grid grid-cols-5 gap-2">
+          {court.map(id => {
+            const line = lines.find(l => l.playerId === id);
+            return (
+              <button
+                key={id}
+                onClick={() => setSelected(selected === id ? null : id)}
+                className={cn(
+                  "p-2 rounded-xl border text-center transition-all",
+                  selected === id ? "bg-emerald-500 border-emerald-500 text-black" : "bg-white/5 border-white/10 text-white"
+                )}
+              >
+                <div className="text-[10px] font-black uppercase truncate">{nameOf(id)}</div>
+                <div className={cn("text-[9px] font-bold", (line?.fouls ?? 0) >= 5 ? "text-rose-500" : "opacity-60")}>
+                  {line?.points ?? 0} PTS · {line?.fouls ?? 0} F
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="grid grid-cols-3 gap-2">
+        {ACTIONS.map(action => (
+          <button
+            key={action.type}
+            onClick={() => handleAction(action.type)}
+            className={cn("py-4 rounded-2xl border text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all", TONES[action.tone])}
+          >
+            {action.label}
+          </button>
+        ))}
+        <button
+          onClick={handleUndo}
+          disabled={state.events.length === 0}
+          className="py-4 rounded-2xl border border-white/10 bg-white/5 text-[10px] font-black text-white uppercase tracking-widest flex items-center justify-center gap-2 disabled:opacity-20"
+        >
+          <RotateCcw className="w-3 h-3" /> Annuler
+        </button>
+      </section>
+
+      {selected && bench.length > 0 && (
+        <section className="bg-white/[0.02] border border-white/5 rounded-3xl p-4 space-y-2">
+          <h3 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Remplacer {nameOf(selected)} par</h3>
+          <div className="flex flex-wrap gap-2">
+            {bench.map(player => (
+              <button
+                key={player.id}
+                onClick={() => handleSub(player.id)}
+                className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-white/60 uppercase tracking-widest"
+              >
+                {playerName(player)}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="bg-white/[0.02] border border-white/5 rounded-3xl p-4 space-y-2 max-h-64 overflow-y-auto">
+        <h3 className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">Play-by-Play</h3>
+        {[...state.events].reverse().map(e => (
+          <div key={e.seq} className="flex items-center gap-3 text-xs">
+            <span className="text-[9px] font-bold text-white/20 tabular-nums w-16">
+              {periodLabel(e.period)} {formatClock(periodStart(e.period) + periodLength(e.period) - e.clock)}
+            </span>
+            <span className={cn("text-white/70", e.type === 'opponent_score' && "text-white/30")}>{describeEvent(e, nameOf)}</span>
+          </div>
+        ))}
+        {state.events.length === 0 && <p className="text-[10px] text-white/20 italic">Aucun événement</p>}
+      </section>
+
+      <div className="flex gap-4">
+        <button onClick={handleAbort} className="flex-1 bg-white/5 border border-white/10 text-white/60 font-black py-3 rounded-2xl uppercase tracking-widest text-[10px] flex items-center justify-center gap-2">
+          <X className="w-3 h-3" /> Abandonner
+        </button>
+        <button onClick={handleFinish} className="flex-1 bg-emerald-500 text-black font-black py-3 rounded-2xl uppercase tracking-widest text-[10px] flex items-center justify-center gap-2">
+          <Flag className="w-3 h-3" /> Terminer ({state.events.length} év.)
+        </button>
+      </div>
+    </div>
+  );
+}
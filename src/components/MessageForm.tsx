@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ImagePlus, Send, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { MESSAGE_IMAGE_SIZE, parseMessageInput, type MessageInput } from '../messages';
+import { shrinkImage } from '../utils';
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all resize-none";
+
+const EMPTY_MESSAGE: MessageInput = { content: '', image: null };
+
+// Writes a post, a reply or the new version of a message
+export default function MessageForm({ initial = EMPTY_MESSAGE, placeholder, submitLabel, rows = 3, onSubmit, onCancel }: {
+  initial?: MessageInput,
+  placeholder: string,
+  submitLabel: string,
+  rows?: number,
+  // Resolves to true when the message was sent
+  onSubmit: (input: MessageInput) => Promise<boolean>,
+  onCancel?: () => void
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [saving, setSaving] = useState(false);
+
+  const handleImage = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const image = await shrinkImage(file, MESSAGE_IMAGE_SIZE);
+      setDraft(prev => ({ ...prev, image }));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = parseMessageInput(draft);
+    if (typeof input === 'string') {
+      toast.error(input);
+      return;
+    }
+    setSaving(true);
+    const sent = await onSubmit(input);
+    setSaving(false);
+    if (sent && !onCancel) setDraft(EMPTY_MESSAGE);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <textarea
+        placeholder={placeholder}
+        rows={rows}
+        className={inputClass}
+        value={draft.content}
+        onChange={e => setDraft(prev => ({ ...prev, content: e.target.value }))}
+      />
+      {draft.image && (
+        <div className="relative inline-block">
+          <img src={draft.image} alt="" className="max-h-40 rounded-xl border border-white/10" />
+          <button
+            type="button"
+            title="Retirer l'image"
+            onClick={() => setDraft(prev => ({ ...prev, image: null }))}
+            className="absolute top-1 right-1 p-1 bg-black/70 rounded-full text-white/70 hover:text-white"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <label title="Joindre une image" className="p-3 bg-white/5 border border-white/10 rounded-xl text-white/40 hover:text-white transition-all cursor-pointer">
+          <ImagePlus className="w-5 h-5" />
+          <input type="file" accept="image/*" className="hidden" onChange={e => handleImage(e.target.files?.[0])} />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 text-black font-black py-3 rounded-xl uppercase tracking-widest text-xs transition-all flex items-center justify-center gap-2"
+        >
+          <Send className="w-4 h-4" /> {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="p-3 bg-white/5 border border-white/10 rounded-xl text-white/40 hover:text-white transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
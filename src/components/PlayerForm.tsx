@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { HAND_LABELS, HANDS, initials, parsePlayerInput, PLAYER_STATUSES, POSITION_LABELS, POSITIONS, STATUS_LABELS } from '../players';
+import type { PlayerInput } from '../types';
+import { resizeImage } from '../utils';
+
+// Side of the stored profile picture, in pixels
+const PHOTO_SIZE = 256;
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all";
+const labelClass = "text-[9px] font-black text-white/30 uppercase tracking-widest";
+
+// Text fields are kept as typed until the form is submitted
+type Draft = Omit<PlayerInput, 'jerseyNumber' | 'height' | 'birthDate'> & { jerseyNumber: string, height: string, birthDate: string };
+
+const toDraft = (p: PlayerInput): Draft => ({
+  ...p,
+  jerseyNumber: p.jerseyNumber?.toString() ?? '',
+  height: p.height?.toString() ?? '',
+  birthDate: p.birthDate ?? '',
+});
+
+export default function PlayerForm({ initial, submitLabel, onSubmit, onCancel }: {
+  initial: PlayerInput,
+  submitLabel: string,
+  // Resolves to true when the profile was saved
+  onSubmit: (input: PlayerInput) => Promise<boolean>,
+  onCancel?: () => void
+}) {
+  const [draft, setDraft] = useState(() => toDraft(initial));
+  const [saving, setSaving] = useState(false);
+
+  const setField = <K extends keyof Draft>(field: K, value: Draft[K]) =>
+    setDraft(prev => ({ ...prev, [field]: value }));
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setField('photo', await resizeImage(file, PHOTO_SIZE));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = parsePlayerInput(draft);
+    if (typeof input === 'string') {
+      toast.error(input);
+      return;
+    }
+    setSaving(true);
+    const saved = await onSubmit(input);
+    setSaving(false);
+    if (saved && !onCancel) setDraft(toDraft(initial));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center gap-4">
+        <div className="w-16 h-16 rounded-2xl bg-white/5 border border-white/10 overflow-hidden flex items-center justify-center text-lg font-black text-emerald-500 shrink-0">
+          {draft.photo ? <img src={draft.photo} alt="" className="w-full h-full object-cover" /> : initials(draft)}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <label className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-[9px] font-black text-white/60 uppercase tracking-widest transition-all cursor-pointer">
+            Photo
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={e => {
+                handlePhoto(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {draft.photo && (
+            <button
+              type="button"
+              onClick={() => setField('photo', null)}
+              className="px-3 py-1.5 bg-rose-500/10 hover:bg-rose-500/20 border border-rose-500/20 rounded-lg text-[9px] font-black text-rose-500 uppercase tracking-widest transition-all"
+            >
+              Retirer
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="space-y-1">
+          <span className={labelClass}>Nom</span>
+          <input type="text" className={inputClass} value={draft.lastName} onChange={e => setField('lastName', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Prénom</span>
+          <input type="text" className={inputClass} value={draft.firstName} onChange={e => setField('firstName', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>N° maillot</span>
+          <input type="number" min="0" max="99" className={inputClass} value={draft.jerseyNumber} onChange={e => setField('jerseyNumber', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Poste</span>
+          <select className={inputClass} value={draft.position ?? ''} onChange={e => setField('position', (e.target.value || null) as Draft['position'])}>
+            <option value="" className="bg-slate-900">—</option>
+            {POSITIONS.map(p => <option key={p} value={p} className="bg-slate-900">{POSITION_LABELS[p]}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Date de naissance</span>
+          <input type="date" className={inputClass} value={draft.birthDate} onChange={e => setField('birthDate', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Taille (cm)</span>
+          <input type="number" min="100" max="250" className={inputClass} value={draft.height} onChange={e => setField('height', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Main</span>
+          <select className={inputClass} value={draft.hand ?? ''} onChange={e => setField('hand', (e.target.value || null) as Draft['hand'])}>
+            <option value="" className="bg-slate-900">—</option>
+            {HANDS.map(h => <option key={h} value={h} className="bg-slate-900">{HAND_LABELS[h]}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Statut</span>
+          <select className={inputClass} value={draft.status} onChange={e => setField('status', e.target.value as Draft['status'])}>
+            {PLAYER_STATUSES.map(s => <option key={s} value={s} className="bg-slate-900">{STATUS_LABELS[s]}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 text-black font-black py-3 rounded-xl uppercase tracking-widest text-xs transition-all"
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="p-3 bg-white/5 border border-white/10 rounded-xl text-white/40 hover:text-white transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import { api } from '../api';
+import { calculateStats } from '../analytics';
+import { buildPlayersData, byDate, gameResult } from '../games';
+import { byPlayerName, initials, playerName, POSITION_LABELS } from '../players';
+import { publicUrl, type PublicRoute } from '../routes';
+import { cn } from '../utils';
+import type { Game, Match, PublicPlayer, PublicTeam } from '../types';
+
+const RESULT_LABELS = { W: 'V', L: 'D', D: 'N' };
+
+const day = (date: string) => new Date(date).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' });
+
+function Score({ game }: { game: Game }) {
+  const result = gameResult(game);
+  if (!result) return <span className="text-white/20">-</span>;
+  return (
+    <span className={cn("font-black", result === 'W' ? "text-emerald-500" : result === 'L' ? "text-rose-500" : "text-white/60")}>
+      {RESULT_LABELS[result]} {game.teamScore}-{game.opponentScore}
+    </span>
+  );
+}
+
+function Figure({ label, value }: { label: string, value: string | number, key?: string }) {
+  return (
+    <div className="bg-white/5 border border-white/5 p-4 rounded-2xl text-center">
+      <div className="text-xl font-black text-white">{value}</div>
+      <div className="text-[9px] font-bold text-white/20 uppercase tracking-widest">{label}</div>
+    </div>
+  );
+}
+
+function Photo({ player, className }: { player: PublicPlayer, className: string }) {
+  return (
+    <div className={cn("rounded-2xl bg-white/5 overflow-hidden flex items-center justify-center font-black text-emerald-500 shrink-0", className)}>
+      {player.photo ? <img src={player.photo} alt="" className="w-full h-full object-cover" /> : initials(player)}
+    </div>
+  );
+}
+
+function TeamView({ data, matches, token }: { data: PublicTeam, matches: Record<string, Match[]>, token: string }) {
+  const results = data.games.map(gameResult);
+  const count = (result: 'W' | 'L' | 'D') => results.filter(r => r === result).length;
+  const rows = data.players
+    .map(player => ({ player, games: matches[player.id].length, stats: calculateStats(matches[player.id]) }))
+    .sort((a, b) => Number(b.stats.pts) - Number(a.stats.pts) || byPlayerName(a.player, b.player));
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-4 gap-3">
+        <Figure label="Matchs" value={data.games.length} />
+        <Figure label="Victoires" value={count('W')} />
+        <Figure label="Défaites" value={count('L')} />
+        <Figure label="Nuls" value={count('D')} />
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Effectif</h2>
+        <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="text-[9px] font-black text-white/30 uppercase tracking-widest border-b border-white/5">
+                <th className="px-4 py-3">Joueur</th>
+                <th className="px-2 py-3 text-center">MJ</th>
+                <th className="px-2 py-3 text-center">PTS</th>
+                <th className="px-2 py-3 text-center">REB</th>
+                <th className="px-2 py-3 text-center">AST</th>
+                <th className="px-2 py-3 text-center">FG%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ player, games, stats }) => (
+                <tr key={player.id} className="border-b border-white/5 last:border-0 text-sm">
+                  <td className="px-4 py-3">
+                    <a href={publicUrl(token, player.id)} className="flex items-center gap-3 hover:text-emerald-500 transition-colors">
+                      <Photo player={player} className="w-9 h-9 text-xs" />
+                      <span className="font-bold text-white">
+                        {player.jerseyNumber !== null && <span className="text-emerald-500 mr-2">#{player.jerseyNumber}</span>}
+                        {playerName(player)}
+                      </span>
+                    </a>
+                  </td>
+                  <td className="px-2 py-3 text-center text-white/40">{games}</td>
+                  <td className="px-2 py-3 text-center font-black text-white">{stats.pts}</td>
+                  <td className="px-2 py-3 text-center">{stats.reb}</td>
+                  <td className="px-2 py-3 text-center">{stats.ast}</td>
+                  <td className="px-2 py-3 text-center text-white/60">{stats.fgPct}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Résultats</h2>
+        <div className="space-y-2">
+          {[...data.games].sort(byDate).reverse().map(game => (
+            <div key={game.id} className="flex items-center justify-between gap-4 bg-white/[0.02] border border-white/5 rounded-2xl px-4 py-3 text-sm">
+              <div className="min-w-0">
+                <div className="font-bold text-white truncate">{game.venue === 'home' ? 'vs' : '@'} {game.opponent || 'Adversaire inconnu'}</div>
+                <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">
+                  {[day(game.date), game.competition].filter(Boolean).join(' · ')}
+                </div>
+              </div>
+              <Score game={game} />
+            </div>
+          ))}
+          {data.games.length === 0 && <p className="text-sm text-white/30">Aucun match joué pour le moment.</p>}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function PlayerView({ data, player, matches, token }: { data: PublicTeam, player: PublicPlayer, matches: Match[], token: string }) {
+  const stats = calculateStats(matches);
+  const gameById = new Map(data.games.map(g => [g.id, g]));
+
+  return (
+    <div className="space-y-8">
+      <a href={publicUrl(token)} className="inline-flex items-center gap-2 text-[10px] font-black text-white/40 hover:text-white uppercase tracking-widest">
+        <ArrowLeft className="w-3 h-3" /> {data.team}
+      </a>
+      <div className="flex items-center gap-4 bg-white/[0.03] border border-white/5 rounded-3xl p-4">
+        <Photo player={player} className="w-20 h-20 text-xl" />
+        <div className="min-w-0">
+          <div className="text-xl font-black text-white uppercase tracking-tight truncate">
+            {player.jerseyNumber !== null && <span className="text-emerald-500 mr-2">#{player.jerseyNumber}</span>}
+            {playerName(player)}
+          </div>
+          <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">
+            {[player.position && POSITION_LABELS[player.position], `${matches.length} match${matches.length > 1 ? 's' : ''}`].filter(Boolean).join(' · ')}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {([
+          ['Points', stats.pts], ['Rebonds', stats.reb], ['Passes', stats.ast],
+          ['FG%', stats.fgPct], ['3P%', stats.tpPct], ['LF%', stats.ftPct],
+        ] as const).map(([label, value]) => <Figure key={label} label={label} value={value} />)}
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Matchs</h2>
+        <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="text-[9px] font-black text-white/30 uppercase tracking-widest border-b border-white/5">
+                <th className="px-4 py-3">Match</th>
+                <th className="px-2 py-3 text-center">Score</th>
+                <th className="px-2 py-3 text-center">MIN</th>
+                <th className="px-2 py-3 text-center">PTS</th>
+                <th className="px-2 py-3 text-center">REB</th>
+                <th className="px-2 py-3 text-center">AST</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...matches].reverse().map(m => (
+                <tr key={m.id} className="border-b border-white/5 last:border-0 text-sm">
+                  <td className="px-4 py-3">
+                    <div className="font-bold text-white">{m.venue === 'home' ? 'vs' : '@'} {m.opponent || 'Adversaire inconnu'}</div>
+                    <div className="text-[9px] font-bold text-white/30 uppercase tracking-widest">{day(m.date)}</div>
+                  </td>
+                  <td className="px-2 py-3 text-center">{gameById.has(m.id) ? <Score game={gameById.get(m.id)!} /> : '-'}</td>
+                  <td className="px-2 py-3 text-center text-white/40">{m.minutes}</td>
+                  <td className="px-2 py-3 text-center font-black text-white">{m.points}</td>
+                  <td className="px-2 py-3 text-center">{m.rebounds}</td>
+                  <td className="px-2 py-3 text-center">{m.assists}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {matches.length === 0 && <p className="p-4 text-sm text-white/30">Aucun match joué pour le moment.</p>}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+// Public team or player page; nothing here needs an account or can change data
+export default function PublicPage({ route }: { route: PublicRoute }) {
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+  const [data, setData] = useState<PublicTeam | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError("Lien de partage incomplet");
+      return;
+    }
+    api.getPublicTeam(token).then(setData).catch(err => setError((err as Error).message));
+  }, [token]);
+
+  const matches = useMemo(() => (data ? buildPlayersData(data.players, data.games) : {}), [data]);
+  const player = data && route.page === 'player' ? data.players.find(p => p.id === route.playerId) ?? null : null;
+
+  useEffect(() => {
+    if (data) document.title = `${player ? `${playerName(player)} · ` : ''}IBAA ${data.team}`;
+  }, [data, player]);
+
+  let content: React.ReactNode;
+  if (error) content = <p className="text-sm text-rose-500 font-bold">{error}</p>;
+  else if (!data) content = <p className="text-sm text-white/30">Chargement...</p>;
+  else if (route.page === 'team') content = <TeamView data={data} matches={matches} token={token} />;
+  else if (player) content = <PlayerView data={data} player={player} matches={matches[player.id]} token={token} />;
+  else content = <p className="text-sm text-white/40">Ce profil n'est pas public.</p>;
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-slate-200 font-sans pb-24">
+      <header className="border-b border-white/5 bg-black/50 backdrop-blur-xl sticky top-0 z-50">
+        <div className="max-w-3xl mx-auto px-6 h-20 flex items-center gap-4">
+          <div className="bg-emerald-500 p-2 rounded-lg shadow-lg shadow-emerald-500/20">
+            <Trophy className="w-5 h-5 text-black" />
+          </div>
+          <div>
+            <h1 className="text-lg font-black tracking-tighter text-white uppercase">IBAA {data?.team}</h1>
+            {data && <p className="text-[9px] font-bold text-white/30 uppercase tracking-[0.2em]">Saison {data.season}</p>}
+          </div>
+        </div>
+      </header>
+      <main className="max-w-3xl mx-auto px-6 py-8">{content}</main>
+    </div>
+  );
+}
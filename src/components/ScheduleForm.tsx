@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseScheduleEventInput, SCHEDULE_KIND_LABELS, SCHEDULE_KINDS } from '../schedule';
+import type { ScheduleEventInput, Team } from '../types';
+import { cn } from '../utils';
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all";
+const labelClass = "text-[9px] font-black text-white/30 uppercase tracking-widest";
+
+// Text fields are kept as typed until the form is submitted
+type Draft = Omit<ScheduleEventInput, 'time' | 'duration'> & { time: string, duration: string };
+
+const toDraft = (e: ScheduleEventInput): Draft => ({
+  ...e,
+  time: e.time ?? '',
+  duration: e.duration?.toString() ?? '',
+});
+
+export default function ScheduleForm({ initial, teams, submitLabel, onSubmit, onCancel }: {
+  initial: ScheduleEventInput,
+  teams: Team[],
+  submitLabel: string,
+  // Resolves to true when the entry was saved
+  onSubmit: (input: ScheduleEventInput) => Promise<boolean>,
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState(() => toDraft(initial));
+  const [saving, setSaving] = useState(false);
+
+  const setField = <K extends keyof Draft>(field: K, value: Draft[K]) =>
+    setDraft(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = parseScheduleEventInput(draft);
+    if (typeof input === 'string') {
+      toast.error(input);
+      return;
+    }
+    setSaving(true);
+    await onSubmit(input);
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex gap-1">
+        {SCHEDULE_KINDS.map(kind => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => setDraft(prev => ({ ...prev, kind, venue: kind === 'game' ? prev.venue ?? 'home' : null }))}
+            className={cn(
+              "flex-1 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all",
+              draft.kind === kind ? "bg-emerald-500/20 border-emerald-500/50 text-emerald-500" : "bg-white/5 border-white/10 text-white/40"
+            )}
+          >
+            {SCHEDULE_KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {draft.kind === 'game' ? (
+          <>
+            <label className="space-y-1">
+              <span className={labelClass}>Adversaire</span>
+              <input type="text" className={inputClass} value={draft.opponent} onChange={e => setField('opponent', e.target.value)} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Lieu</span>
+              <select className={inputClass} value={draft.venue ?? 'home'} onChange={e => setField('venue', e.target.value as Draft['venue'])}>
+                <option value="home" className="bg-slate-900">Domicile</option>
+                <option value="away" className="bg-slate-900">Extérieur</option>
+              </select>
+            </label>
+          </>
+        ) : (
+          <label className="space-y-1 col-span-2">
+            <span className={labelClass}>Titre</span>
+            <input
+              type="text"
+              placeholder={SCHEDULE_KIND_LABELS[draft.kind]}
+              className={inputClass}
+              value={draft.title}
+              onChange={e => setField('title', e.target.value)}
+            />
+          </label>
+        )}
+        <label className="space-y-1">
+          <span className={labelClass}>Date</span>
+          <input type="date" className={inputClass} value={draft.date} onChange={e => setField('date', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Heure</span>
+          <input type="time" className={inputClass} value={draft.time} onChange={e => setField('time', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Durée (min)</span>
+          <input type="number" min="1" className={inputClass} value={draft.duration} onChange={e => setField('duration', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Catégorie</span>
+          <select className={inputClass} value={draft.teamId ?? ''} onChange={e => setField('teamId', e.target.value || null)}>
+            <option value="" className="bg-slate-900">Tout le club</option>
+            {teams.map(t => <option key={t.id} value={t.id} className="bg-slate-900">{t.name}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1 col-span-2">
+          <span className={labelClass}>Adresse</span>
+          <input type="text" className={inputClass} value={draft.location} onChange={e => setField('location', e.target.value)} />
+        </label>
+        {draft.kind === 'game' && (
+          <label className="space-y-1 col-span-2">
+            <span className={labelClass}>Compétition</span>
+            <input type="text" className={inputClass} value={draft.competition} onChange={e => setField('competition', e.target.value)} />
+          </label>
+        )}
+        <label className="space-y-1 col-span-2">
+          <span className={labelClass}>Notes</span>
+          <textarea rows={2} className={inputClass} value={draft.notes} onChange={e => setField('notes', e.target.value)} />
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 text-black font-black py-3 rounded-xl uppercase tracking-widest text-xs transition-all"
+        >
+          {submitLabel}
+        </button>
+        <button type="button" onClick={onCancel} className="p-3 bg-white/5 border border-white/10 rounded-xl text-white/40 hover:text-white transition-all">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </form>
+  );
+}
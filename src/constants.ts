@@ -0,0 +1,37 @@
+// Roster Officiel par défaut
+export const DEFAULT_ROSTER = [
+  "VEH ELIE", "COULIBALY ISMAEL", "KOFFI DANIEL", "KOUADIO STEVEN", 
+  "YAYA", "KOUAKOU MALLY", "KOUMAN CHRIST", "EBOH EVRAD", 
+  "KOUASSI MOISE", "KADIO SAMUEL", "KONAN KONAN", "ANAS", 
+  "SOUALIO", "AUREL", "PAUL"
+];
+
+export const WELCOME_MESSAGE = 'Bienvenue sur IBAA ESPOIRS ! Utilisez cet espace pour échanger des infos sur les entraînements et matchs.';
+
+// Number of games in the "recent form" rolling average on StatsPage
+export const ROLLING_WINDOW = 5;
+
+// Device storage keys. The format version is saved with each value (see
+// storage.ts); keys ending in _v<n> are from before that and only read once.
+
+// In-progress live game, kept on the device until it is closed
+export const LIVE_GAME_STORAGE_KEY = 'ibaa_live_game';
+
+// Mutations made offline, replayed in order once the server is reachable
+export const OUTBOX_STORAGE_KEY = 'ibaa_outbox';
+
+// Last data received from the server, shown while offline
+export const SNAPSHOT_STORAGE_KEY = 'ibaa_snapshot';
+
+// Season and team picked in the header switcher
+export const SELECTION_STORAGE_KEY = 'ibaa_selection';
+
+// Token and user of the signed-in account
+export const SESSION_STORAGE_KEY = 'ibaa_session';
+
+// Data that could not be read, kept for recovery
+export const RECOVERY_STORAGE_KEY = 'ibaa_recovery';
+
+// Roster and feed of the first version, which kept everything on the device
+export const LEGACY_PLAYERS_STORAGE_KEY = 'ibaa_espoirs_v2';
+export const LEGACY_MESSAGES_STORAGE_KEY = 'ibaa_messages_v1';
@@ -0,0 +1,78 @@
+import { byDate, gameResult } from './games';
+import type { Game, GameFilter, PlayersData } from './types';
+
+export const EMPTY_FILTER: GameFilter = {
+  from: '',
+  to: '',
+  lastGames: null,
+  opponents: [],
+  venue: null,
+  competition: '',
+  result: null,
+};
+
+// Choices offered for "last N games"
+export const LAST_GAMES_OPTIONS = [3, 5, 10, 15, 20];
+
+export const isFilterActive = (filter: GameFilter) =>
+  Boolean(filter.from || filter.to || filter.lastGames || filter.opponents.length > 0 || filter.venue || filter.competition || filter.result);
+
+// Every criterion except `lastGames`, which depends on the set being narrowed
+function matchesFilter(game: Game, filter: GameFilter) {
+  const day = game.date.slice(0, 10);
+  if (filter.from && day < filter.from) return false;
+  if (filter.to && day > filter.to) return false;
+  if (filter.opponents.length > 0 && !filter.opponents.some(o => o.toLowerCase() === game.opponent.trim().toLowerCase())) return false;
+  if (filter.venue && game.venue !== filter.venue) return false;
+  if (filter.competition && game.competition.trim().toLowerCase() !== filter.competition.toLowerCase()) return false;
+  if (filter.result && gameResult(game) !== filter.result) return false;
+  return true;
+}
+
+// Games passing the filter, in chronological order; `lastGames` keeps the
+// most recent of them.
+export function filterGames(games: Game[], filter: GameFilter): Game[] {
+  const kept = games.filter(g => matchesFilter(g, filter)).sort(byDate);
+  return filter.lastGames ? kept.slice(-filter.lastGames) : kept;
+}
+
+// Per-player lines of the games passing the filter. `lastGames` counts each
+// player's own appearances, so "last 5 games" means the last 5 they played.
+export function filterPlayersData(data: PlayersData, games: Game[], filter: GameFilter): PlayersData {
+  if (!isFilterActive(filter)) return data;
+  const kept = new Set(games.filter(g => matchesFilter(g, filter)).map(g => g.id));
+  const filtered: PlayersData = {};
+  Object.entries(data).forEach(([playerId, matches]) => {
+    const lines = matches.filter(m => kept.has(m.id));
+    filtered[playerId] = filter.lastGames ? lines.slice(-filter.lastGames) : lines;
+  });
+  return filtered;
+}
+
+// Games passing the filter with the lines the stats views count, e.g. for
+// the CSV export: DNP lines are left out, as in buildPlayersData, and
+// `lastGames` keeps each player's own last appearances, as in
+// filterPlayersData. Games left without lines are dropped.
+export function filterGameLines(games: Game[], filter: GameFilter): Game[] {
+  const limit = filter.lastGames ?? Infinity;
+  const counted = new Map<string, number>();
+  return games.filter(g => matchesFilter(g, filter)).sort(byDate).reverse().map(game => ({
+    ...game,
+    lines: game.lines.filter(line => {
+      const count = counted.get(line.playerId) ?? 0;
+      if (line.dnp || count >= limit) return false;
+      counted.set(line.playerId, count + 1);
+      return true;
+    }),
+  })).filter(g => g.lines.length > 0).reverse();
+}
+
+// Distinct non-empty values of a game field, for the filter pickers
+export function distinctValues(games: Game[], field: 'opponent' | 'competition'): string[] {
+  const values = new Map<string, string>();
+  games.forEach(g => {
+    const value = g[field].trim();
+    if (value && !values.has(value.toLowerCase())) values.set(value.toLowerCase(), value);
+  });
+  return [...values.values()].sort((a, b) => a.localeCompare(b));
+}
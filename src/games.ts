@@ -0,0 +1,43 @@
+import type { DnpReason, Game, Player, PlayersData } from './types';
+
+export const byDate = (a: { date: string }, b: { date: string }) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// "12/10/2025 vs Abidjan", as listed in the trash and the change log
+export const gameLabel = (game: Game) =>
+  `${new Date(game.date).toLocaleDateString('fr-FR')} ${game.venue === 'home' ? 'vs' : '@'} ${game.opponent || 'adversaire inconnu'}`;
+
+// Builds the per-player view of the given games (a season, or a whole
+// career): every roster id maps to the lines they recorded, in chronological
+// order. Games the player sat out (DNP) are left out so that they do not
+// count as zeros in averages.
+export function buildPlayersData(roster: Player[], games: Game[]): PlayersData {
+  const data: PlayersData = {};
+  roster.forEach(player => {
+    data[player.id] = [];
+  });
+  [...games].sort(byDate).forEach(game => {
+    game.lines.forEach(({ playerId, dnp, ...line }) => {
+      if (dnp) return;
+      data[playerId]?.push({
+        id: game.id, seasonId: game.seasonId, teamId: game.teamId, date: game.date, opponent: game.opponent, venue: game.venue, ...line
+      });
+    });
+  });
+  return data;
+}
+
+export function gameResult(game: Game): 'W' | 'L' | 'D' | null {
+  if (game.teamScore === null || game.opponentScore === null) return null;
+  if (game.teamScore === game.opponentScore) return 'D';
+  return game.teamScore > game.opponentScore ? 'W' : 'L';
+}
+
+// Games the player was on the sheet for but sat out, with the reason, in
+// chronological order
+export function missedGames(games: Game[], playerId: string): { game: Game, reason: DnpReason }[] {
+  return [...games].sort(byDate).flatMap(game => {
+    const reason = game.lines.find(l => l.playerId === playerId)?.dnp;
+    return reason ? [{ game, reason }] : [];
+  });
+}
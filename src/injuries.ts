@@ -0,0 +1,70 @@
+import type { DnpReason, Injury, InjuryInput, Player, PlayerStatus } from './types';
+import { isDate } from './utils';
+
+export const DNP_LABELS: Record<DnpReason, string> = {
+  injury: 'Blessure',
+  illness: 'Maladie',
+  coach: 'Choix du coach',
+  absent: 'Absent',
+  suspended: 'Suspendu',
+};
+
+export const DNP_REASONS = Object.keys(DNP_LABELS) as DnpReason[];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Injured on the given day: hurt on or before it and not cleared yet
+export const isInjuryOpen = (injury: Injury, on = today()) =>
+  injury.date <= on && (injury.clearedDate === null || injury.clearedDate > on);
+
+// The player's most recent injury still open on the given day, if any
+export function openInjury(injuries: Injury[], playerId: string, on = today()) {
+  return injuries
+    .filter(i => i.playerId === playerId && isInjuryOpen(i, on))
+    .sort((a, b) => b.date.localeCompare(a.date))[0] ?? null;
+}
+
+// Whether the player can be picked on the given day. An open injury makes them
+// injured whatever their profile says; otherwise the profile status applies.
+export function availability(player: Player, injuries: Injury[], on = today()): PlayerStatus {
+  if (player.status === 'left') return 'left';
+  return openInjury(injuries, player.id, on) ? 'injured' : player.status;
+}
+
+// Most recent first
+export const byInjuryDate = (a: Injury, b: Injury) => b.date.localeCompare(a.date);
+
+export function emptyInjury(playerId: string): InjuryInput {
+  return {
+    playerId,
+    date: today(),
+    bodyPart: '',
+    description: '',
+    expectedReturn: null,
+    clearedDate: null,
+  };
+}
+
+export function parseInjuryInput(raw: any): InjuryInput | string {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const injury: InjuryInput = {
+    playerId: String(raw?.playerId ?? ''),
+    date: text(raw?.date),
+    bodyPart: text(raw?.bodyPart),
+    description: text(raw?.description),
+    expectedReturn: text(raw?.expectedReturn) || null,
+    clearedDate: text(raw?.clearedDate) || null,
+  };
+  if (!injury.playerId) return 'Joueur requis';
+  if (!isDate(injury.date)) return 'Date de blessure invalide';
+  if (!injury.bodyPart) return 'Partie du corps requise';
+  if (injury.expectedReturn !== null && (!isDate(injury.expectedReturn) || injury.expectedReturn < injury.date)) {
+    return 'Date de retour prévue invalide';
+  }
+  if (injury.clearedDate !== null && (!isDate(injury.clearedDate) || injury.clearedDate < injury.date)) {
+    return 'Date de reprise invalide';
+  }
+  return injury;
+}
+
+export const isDnpReason = (value: unknown): value is DnpReason => DNP_REASONS.includes(value as DnpReason);
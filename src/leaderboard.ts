@@ -0,0 +1,64 @@
+import { efficiency, sumBoxScores } from './analytics';
+import { percentage } from './boxScore';
+import type { BoxScore, Match, PlayersData } from './types';
+
+export type StatKey = keyof BoxScore | 'efficiency' | 'fgPct' | 'tpPct' | 'ftPct';
+export type RankingMode = 'average' | 'total';
+
+// Stats offered by the leaderboard and the roster table, in display order
+export const RANKED_STATS: { key: StatKey, label: string }[] = [
+  { key: 'points', label: 'PTS' },
+  { key: 'rebounds', label: 'REB' },
+  { key: 'assists', label: 'AST' },
+  { key: 'steals', label: 'STL' },
+  { key: 'blocks', label: 'BLK' },
+  { key: 'efficiency', label: 'PIR' },
+  { key: 'minutes', label: 'MIN' },
+  { key: 'offensiveRebounds', label: 'OREB' },
+  { key: 'defensiveRebounds', label: 'DREB' },
+  { key: 'threePointersMade', label: '3PM' },
+  { key: 'freeThrowsMade', label: 'FTM' },
+  { key: 'fgPct', label: 'FG%' },
+  { key: 'tpPct', label: '3P%' },
+  { key: 'ftPct', label: 'FT%' },
+  { key: 'turnovers', label: 'TOV' },
+  { key: 'fouls', label: 'PF' },
+];
+
+export const isPercentage = (key: StatKey) => key === 'fgPct' || key === 'tpPct' || key === 'ftPct';
+
+// Value of one stat over a set of games. Percentages come from totals and
+// ignore the mode; they are null without a single attempt.
+export function statValue(matches: Match[], key: StatKey, mode: RankingMode): number | null {
+  if (matches.length === 0) return null;
+  const totals = sumBoxScores(matches);
+  if (key === 'fgPct') return percentage(totals.fieldGoalsMade, totals.fieldGoalsAttempted);
+  if (key === 'tpPct') return percentage(totals.threePointersMade, totals.threePointersAttempted);
+  if (key === 'ftPct') return percentage(totals.freeThrowsMade, totals.freeThrowsAttempted);
+  const total = key === 'efficiency' ? efficiency(totals) : totals[key];
+  return mode === 'total' ? total : total / matches.length;
+}
+
+export function formatStat(value: number | null, key: StatKey, mode: RankingMode) {
+  if (value === null) return '-';
+  if (isPercentage(key)) return `${value.toFixed(1)}%`;
+  return mode === 'total' ? String(value) : value.toFixed(1);
+}
+
+export interface Ranking {
+  playerId: string;
+  games: number;
+  value: number;
+}
+
+// Ranks the players, best first. Players under `minGames` games, or without
+// a value for the stat, are left out.
+export function rankPlayers(data: PlayersData, playerIds: string[], key: StatKey, mode: RankingMode, minGames = 1): Ranking[] {
+  return playerIds
+    .map(playerId => {
+      const matches = data[playerId] ?? [];
+      return { playerId, games: matches.length, value: statValue(matches, key, mode) };
+    })
+    .filter((r): r is Ranking => r.value !== null && r.games >= Math.max(1, minGames))
+    .sort((a, b) => b.value - a.value);
+}
@@ -0,0 +1,124 @@
+import { emptyBoxScore } from './boxScore';
+import type { BoxScore, LiveEvent, LiveEventType, StatLine } from './types';
+
+type StatEventType = Exclude<LiveEventType, 'sub' | 'opponent_score'>;
+
+// What each tap adds to the player's line
+export const EVENT_EFFECTS: Record<StatEventType, Partial<BoxScore>> = {
+  fg2_made: { fieldGoalsMade: 1, fieldGoalsAttempted: 1, points: 2 },
+  fg2_missed: { fieldGoalsAttempted: 1 },
+  fg3_made: { fieldGoalsMade: 1, fieldGoalsAttempted: 1, threePointersMade: 1, threePointersAttempted: 1, points: 3 },
+  fg3_missed: { fieldGoalsAttempted: 1, threePointersAttempted: 1 },
+  ft_made: { freeThrowsMade: 1, freeThrowsAttempted: 1, points: 1 },
+  ft_missed: { freeThrowsAttempted: 1 },
+  oreb: { offensiveRebounds: 1, rebounds: 1 },
+  dreb: { defensiveRebounds: 1, rebounds: 1 },
+  ast: { assists: 1 },
+  stl: { steals: 1 },
+  blk: { blocks: 1 },
+  tov: { turnovers: 1 },
+  foul: { fouls: 1 },
+};
+
+export const EVENT_LABELS: Record<LiveEventType, string> = {
+  fg2_made: '2 pts réussi',
+  fg2_missed: '2 pts manqué',
+  fg3_made: '3 pts réussi',
+  fg3_missed: '3 pts manqué',
+  ft_made: 'LF réussi',
+  ft_missed: 'LF manqué',
+  oreb: 'Rebond offensif',
+  dreb: 'Rebond défensif',
+  ast: 'Passe décisive',
+  stl: 'Interception',
+  blk: 'Contre',
+  tov: 'Balle perdue',
+  foul: 'Faute',
+  sub: 'Changement',
+  opponent_score: 'Panier adverse',
+};
+
+export const LIVE_EVENT_TYPES = Object.keys(EVENT_LABELS) as LiveEventType[];
+
+// FIBA: four 10-minute quarters, 5-minute overtimes
+export const periodLength = (period: number) => (period <= 4 ? 600 : 300);
+
+export function periodStart(period: number) {
+  let start = 0;
+  for (let p = 1; p < period; p++) start += periodLength(p);
+  return start;
+}
+
+export const periodLabel = (period: number) => (period <= 4 ? `Q${period}` : `OT${period - 4}`);
+
+export function formatClock(seconds: number) {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+}
+
+// Ids of the players on the court after the given events
+export function onCourt(starters: string[], events: LiveEvent[]) {
+  return events.reduce(
+    (court, e) => (e.type === 'sub' ? court.map(id => (id === e.playerId ? e.subIn! : id)) : court),
+    starters
+  );
+}
+
+export function liveScore(events: LiveEvent[]) {
+  return events.reduce((score, e) => {
+    if (e.type === 'opponent_score') return { ...score, opponent: score.opponent + e.value };
+    if (e.type === 'sub') return score;
+    return { ...score, team: score.team + (EVENT_EFFECTS[e.type].points ?? 0) };
+  }, { team: 0, opponent: 0 });
+}
+
+// `nameOf` turns a player id into the name to display
+export function describeEvent(e: LiveEvent, nameOf: (playerId: string) => string) {
+  if (e.type === 'sub') return `${nameOf(e.subIn!)} remplace ${nameOf(e.playerId!)}`;
+  if (e.type === 'opponent_score') return `${EVENT_LABELS[e.type]} (+${e.value})`;
+  return `${nameOf(e.playerId!)} · ${EVENT_LABELS[e.type]}`;
+}
+
+// Turns the play-by-play into one stat line per player who stepped on the
+// court. Minutes come from substitution times; stints still open at
+// `endClock` are closed there.
+export function aggregateEvents(events: LiveEvent[], starters: string[], endClock: number): StatLine[] {
+  const lines = new Map<string, StatLine>();
+  const stintStart = new Map<string, number>();
+  const seconds = new Map<string, number>();
+
+  const lineFor = (id: string) => {
+    if (!lines.has(id)) lines.set(id, { playerId: id, dnp: null, ...emptyBoxScore() });
+    return lines.get(id)!;
+  };
+  const enter = (id: string, clock: number) => {
+    lineFor(id);
+    stintStart.set(id, clock);
+  };
+  const leave = (id: string, clock: number) => {
+    const start = stintStart.get(id);
+    if (start === undefined) return;
+    seconds.set(id, (seconds.get(id) ?? 0) + clock - start);
+    stintStart.delete(id);
+  };
+
+  starters.forEach(id => enter(id, 0));
+  events.forEach(e => {
+    if (e.type === 'sub') {
+      leave(e.playerId!, e.clock);
+      enter(e.subIn!, e.clock);
+      return;
+    }
+    if (e.type === 'opponent_score' || !e.playerId) return;
+    const line = lineFor(e.playerId);
+    (Object.entries(EVENT_EFFECTS[e.type]) as [keyof BoxScore, number][]).forEach(([key, value]) => {
+      line[key] += value;
+    });
+  });
+  [...stintStart.keys()].forEach(id => leave(id, endClock));
+
+  lines.forEach(line => {
+    line.minutes = Math.round((seconds.get(line.playerId) ?? 0) / 60);
+  });
+  return [...lines.values()];
+}
@@ -1,10 +1,21 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import PublicPage from './components/PublicPage.tsx';
+import {publicRoute} from './routes';
 import './index.css';
 
+// Share links open the read-only public pages instead of the app
+const route = publicRoute(window.location.pathname);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {route ? <PublicPage route={route} /> : <App />}
   </StrictMode>,
 );
+
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed', err));
+  });
+}
@@ -0,0 +1,54 @@
+import type { Message, Reaction } from './types';
+
+// Reactions offered under every message
+export const REACTIONS = ['👍', '❤️', '🔥', '🏀', '👏', '😂'];
+
+// Attached pictures are scaled down to this longest side before upload
+export const MESSAGE_IMAGE_SIZE = 1280;
+export const MAX_MESSAGE_IMAGE_LENGTH = 1_000_000;
+
+export interface MessageInput {
+  content: string;
+  image: string | null;
+}
+
+// A message needs some text or a picture
+export function parseMessageInput(raw: any): MessageInput | string {
+  const input: MessageInput = {
+    content: typeof raw?.content === 'string' ? raw.content.trim() : '',
+    image: raw?.image || null,
+  };
+  if (input.image !== null && (typeof input.image !== 'string' || !input.image.startsWith('data:image/'))) return 'Image invalide';
+  if (input.image !== null && input.image.length > MAX_MESSAGE_IMAGE_LENGTH) return 'Image trop volumineuse';
+  if (!input.content && !input.image) return 'Message requis';
+  return input;
+}
+
+const byNewest = (a: Message, b: Message) => b.timestamp.localeCompare(a.timestamp);
+
+export interface Thread {
+  message: Message;
+  // Oldest first
+  replies: Message[];
+}
+
+// The feed: pinned announcements first, then the newest threads
+export function buildThreads(messages: Message[]): Thread[] {
+  return messages
+    .filter(m => !m.parentId)
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || byNewest(a, b))
+    .map(message => ({ message, replies: messages.filter(m => m.parentId === message.id).sort((a, b) => -byNewest(a, b)) }));
+}
+
+// Messages from other accounts posted after the account last opened the
+// feed (`readAt`, null when it never did)
+export const unreadMessages = (messages: Message[], userId: string, readAt: string | null) =>
+  messages.filter(m => m.userId !== userId && (readAt === null || m.timestamp > readAt));
+
+// The reactions once the user's `emoji` is added (active) or removed
+export function withReaction(reactions: Reaction[], emoji: string, userId: string, active: boolean): Reaction[] {
+  const others = (reactions.find(r => r.emoji === emoji)?.userIds ?? []).filter(id => id !== userId);
+  const userIds = active ? [...others, userId] : others;
+  const rest = reactions.filter(r => r.emoji !== emoji);
+  return userIds.length > 0 ? [...rest, { emoji, userIds }].sort((a, b) => REACTIONS.indexOf(a.emoji) - REACTIONS.indexOf(b.emoji)) : rest;
+}
@@ -0,0 +1,47 @@
+import type { BoxScore, NotificationChannels, NotificationKind, NotificationSettings } from './types';
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ['game_stats', 'record', 'announcement', 'schedule'];
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  game_stats: 'Stats des joueurs suivis',
+  record: 'Records personnels',
+  announcement: 'Annonces du fil',
+  schedule: 'Changements de calendrier',
+};
+
+// Everything is on until the account says otherwise; push only reaches the
+// devices where it was enabled
+export function defaultChannels(): NotificationChannels {
+  return Object.fromEntries(NOTIFICATION_KINDS.map(kind => [kind, { inApp: true, push: true }])) as NotificationChannels;
+}
+
+export function parseNotificationSettings(raw: any): NotificationSettings | string {
+  const channels = defaultChannels();
+  for (const kind of NOTIFICATION_KINDS) {
+    const value = raw?.channels?.[kind];
+    if (value === undefined) continue;
+    if (typeof value?.inApp !== 'boolean' || typeof value?.push !== 'boolean') return 'Préférences de notification invalides';
+    channels[kind] = { inApp: value.inApp, push: value.push };
+  }
+  if (raw?.followed !== undefined && (!Array.isArray(raw.followed) || raw.followed.some((id: unknown) => typeof id !== 'string'))) {
+    return 'Joueurs suivis invalides';
+  }
+  return { channels, followed: [...new Set<string>(raw?.followed ?? [])] };
+}
+
+// Stats a personal best is kept for
+export const RECORD_STATS: { key: keyof BoxScore, label: string }[] = [
+  { key: 'points', label: 'points' },
+  { key: 'rebounds', label: 'rebonds' },
+  { key: 'assists', label: 'passes décisives' },
+  { key: 'steals', label: 'interceptions' },
+  { key: 'blocks', label: 'contres' },
+];
+
+// Stats of `line` that beat every earlier game. A first game sets no record.
+export function brokenRecords(line: BoxScore, previous: BoxScore[]) {
+  if (previous.length === 0) return [];
+  return RECORD_STATS
+    .map(({ key, label }) => ({ label, value: line[key], best: Math.max(...previous.map(b => b[key])) }))
+    .filter(r => r.value > r.best);
+}
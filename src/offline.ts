@@ -0,0 +1,184 @@
+import { OUTBOX_STORAGE_KEY, SELECTION_STORAGE_KEY, SNAPSHOT_STORAGE_KEY } from './constants';
+import { createStore, isArrayOf, isObject } from './storage';
+import type { AttendanceRecord, Game, Injury, Message, Player, ScheduleEvent, Season, Team } from './types';
+import { newId } from './utils';
+
+export interface Snapshot {
+  seasons: Season[];
+  teams: Team[];
+  roster: Player[];
+  games: Game[];
+  schedule: ScheduleEvent[];
+  attendance: AttendanceRecord[];
+  injuries: Injury[];
+  messages: Message[];
+  // When the account last read the feed
+  feedReadAt: string | null;
+}
+
+const hasStrings = (item: unknown, fields: string[]): item is Record<string, any> =>
+  isObject(item) && fields.every(field => typeof item[field] === 'string');
+
+// The fields the screens rely on, item by item: a snapshot missing one is set
+// aside rather than shown
+const SNAPSHOT_ITEMS: Record<string, (item: unknown) => boolean> = {
+  seasons: s => hasStrings(s, ['id', 'name', 'startDate', 'endDate']) && Array.isArray(s.roster)
+    && s.roster.every((e: unknown) => hasStrings(e, ['playerId', 'teamId'])),
+  teams: t => hasStrings(t, ['id', 'name']),
+  roster: p => hasStrings(p, ['id', 'firstName', 'lastName']),
+  games: g => hasStrings(g, ['id', 'seasonId', 'teamId', 'date']) && Array.isArray(g.lines)
+    && g.lines.every((l: unknown) => hasStrings(l, ['playerId'])),
+  schedule: e => hasStrings(e, ['id', 'date']),
+  attendance: a => hasStrings(a, ['eventId', 'playerId']),
+  injuries: i => hasStrings(i, ['id', 'playerId', 'date']),
+  messages: m => hasStrings(m, ['id', 'author', 'content', 'timestamp']),
+};
+
+const snapshotStore = createStore<Snapshot | null>({
+  key: SNAPSHOT_STORAGE_KEY,
+  version: 4,
+  migrations: {
+    // The schedule, attendance, injuries and feed reads came after seasons
+    3: data => ({ schedule: [], attendance: [], injuries: [], feedReadAt: null, ...data }),
+  },
+  legacyKeys: { ibaa_snapshot_v3: 3 },
+  // Snapshots from before profile ids and seasons: the server has it all
+  obsoleteKeys: ['ibaa_snapshot_v1', 'ibaa_snapshot_v2'],
+  validate: (data): data is Snapshot | null => data === null || (isObject(data)
+    && Object.entries(SNAPSHOT_ITEMS).every(([list, check]) => Array.isArray(data[list]) && data[list].every(check))
+    && (data.feedReadAt === null || typeof data.feedReadAt === 'string')),
+  fallback: () => null,
+});
+
+// Last known state, including optimistic changes still waiting in the outbox
+export const loadSnapshot = snapshotStore.load;
+
+export const saveSnapshot = (snapshot: Snapshot) => snapshotStore.save(snapshot);
+
+export interface OutboxEntry {
+  id: string;
+  method: string;
+  path: string;
+  body?: unknown;
+  // Human readable description for toasts ("Match du 12/01")
+  label: string;
+  createdAt: string;
+  // Account that made the change; null for changes queued before this was kept
+  userId: string | null;
+}
+
+export class ConflictError extends Error {
+  constructor(message: string, public current: unknown) {
+    super(message);
+  }
+}
+
+// Raised by fetch itself when the device is offline or the server unreachable
+export const isNetworkError = (err: unknown) => err instanceof TypeError;
+
+// Failures that say nothing about the entry itself: the server is down or
+// restarting, or the session has expired. The entry waits for the next flush.
+const isTemporaryFailure = (err: unknown) => {
+  if (isNetworkError(err)) return true;
+  const status = (err as { status?: unknown }).status;
+  return typeof status === 'number' && (status >= 500 || status === 401);
+};
+
+const isOutboxEntry = (entry: unknown): entry is OutboxEntry =>
+  isObject(entry) && ['id', 'method', 'path', 'label', 'createdAt'].every(field => typeof entry[field] === 'string')
+  && (entry.userId === null || typeof entry.userId === 'string');
+
+const outboxStore = createStore<OutboxEntry[]>({
+  key: OUTBOX_STORAGE_KEY,
+  version: 2,
+  migrations: {
+    // The account of each change came later
+    1: entries => entries.map((entry: object) => ({ ...entry, userId: null })),
+  },
+  legacyKeys: { ibaa_outbox_v1: 1 },
+  validate: (data): data is OutboxEntry[] => isArrayOf(data, isOutboxEntry),
+  fallback: () => [],
+});
+
+export const loadOutbox = outboxStore.load;
+
+function saveOutbox(entries: OutboxEntry[]) {
+  outboxStore.save(entries);
+  window.dispatchEvent(new Event('outbox-change'));
+}
+
+export function enqueue(entry: Omit<OutboxEntry, 'id' | 'createdAt'>) {
+  saveOutbox([...loadOutbox(), { ...entry, id: newId(), createdAt: new Date().toISOString() }]);
+  // Ask the service worker to wake us up when connectivity returns
+  navigator.serviceWorker?.ready
+    .then(reg => (reg as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync?.register('ibaa-outbox'))
+    .catch(() => {});
+}
+
+// Drops every queued mutation, e.g. when the account that made them signs out
+export function clearOutbox() {
+  saveOutbox([]);
+}
+
+// Drops the mutations of other accounts, e.g. those left by a session that
+// expired, which must not be sent with the token of the account signing in.
+// Returns how many were dropped.
+export function dropOtherAccounts(userId: string) {
+  const entries = loadOutbox();
+  const kept = entries.filter(e => e.userId === userId);
+  if (kept.length < entries.length) saveOutbox(kept);
+  return entries.length - kept.length;
+}
+
+export interface FlushHandlers {
+  send: (entry: OutboxEntry) => Promise<void>;
+  onConflict: (entry: OutboxEntry, error: ConflictError) => void;
+  onRejected: (entry: OutboxEntry, error: Error) => void;
+}
+
+let flushing: Promise<number> | null = null;
+
+// Replays queued mutations in order. Stops at the first network, server or
+// session failure so ordering is preserved; conflicts and entries the server
+// rejects as invalid are dropped after being reported. Resolves with the
+// number of entries still queued.
+export function flushOutbox(handlers: FlushHandlers): Promise<number> {
+  flushing ??= (async () => {
+    try {
+      for (const entry of loadOutbox()) {
+        try {
+          await handlers.send(entry);
+        } catch (err) {
+          if (isTemporaryFailure(err)) break;
+          if (err instanceof ConflictError) handlers.onConflict(entry, err);
+          else handlers.onRejected(entry, err as Error);
+        }
+        saveOutbox(loadOutbox().filter(e => e.id !== entry.id));
+      }
+      return loadOutbox().length;
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+}
+
+export interface Selection {
+  seasonId: string | null;
+  teamId: string | null;
+}
+
+const isIdOrNull = (value: unknown) => value === null || typeof value === 'string';
+
+const selectionStore = createStore<Selection>({
+  key: SELECTION_STORAGE_KEY,
+  version: 1,
+  legacyKeys: { ibaa_selection_v1: 1 },
+  validate: (data): data is Selection => isObject(data) && isIdOrNull(data.seasonId) && isIdOrNull(data.teamId),
+  fallback: () => ({ seasonId: null, teamId: null }),
+});
+
+// Season and team shown on this device
+export const loadSelection = selectionStore.load;
+
+export const saveSelection = selectionStore.save;
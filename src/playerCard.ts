@@ -0,0 +1,173 @@
+import { calculateStats } from './analytics';
+import { playerAge, initials, playerName, POSITION_LABELS } from './players';
+import type { Match, Player } from './types';
+
+// Games drawn on the trend line of the card
+export const CARD_RECENT_GAMES = 5;
+
+// Portrait format, as shown by social networks and messaging apps
+const WIDTH = 1080;
+const HEIGHT = 1350;
+const MARGIN = 80;
+const GREEN = '#10b981';
+const MUTED = 'rgba(255, 255, 255, 0.45)';
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+function loadPicture(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Photo illisible"));
+    image.src = src;
+  });
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  ctx.beginPath();
+  ctx.roundRect(x, y, w, h, r);
+}
+
+// Largest font size, up to `size`, at which the text fits in `maxWidth`
+function fitText(ctx: CanvasRenderingContext2D, text: string, weight: number, size: number, maxWidth: number) {
+  let fitted = size;
+  ctx.font = `${weight} ${fitted}px ${FONT}`;
+  while (fitted > 24 && ctx.measureText(text).width > maxWidth) {
+    fitted -= 4;
+    ctx.font = `${weight} ${fitted}px ${FONT}`;
+  }
+}
+
+// The player's photo (or initials) in a rounded square
+async function drawPhoto(ctx: CanvasRenderingContext2D, player: Player, x: number, y: number, size: number) {
+  ctx.save();
+  roundedRect(ctx, x, y, size, size, 48);
+  ctx.fillStyle = '#1a1a1a';
+  ctx.fill();
+  ctx.clip();
+  if (player.photo) {
+    // Profile photos are already square (see PHOTO_SIZE)
+    ctx.drawImage(await loadPicture(player.photo), x, y, size, size);
+  } else {
+    ctx.fillStyle = GREEN;
+    ctx.font = `900 ${size / 3}px ${FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(initials(player), x + size / 2, y + size / 2);
+  }
+  ctx.restore();
+}
+
+function drawStat(ctx: CanvasRenderingContext2D, label: string, value: string, x: number, y: number, w: number) {
+  roundedRect(ctx, x, y, w, 170, 32);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+  ctx.fill();
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `900 72px ${FONT}`;
+  ctx.fillText(value, x + w / 2, y + 95);
+  ctx.fillStyle = MUTED;
+  ctx.font = `800 26px ${FONT}`;
+  ctx.fillText(label, x + w / 2, y + 140);
+  ctx.textAlign = 'left';
+}
+
+// Points over the last games, oldest on the left, with each game's value
+function drawTrend(ctx: CanvasRenderingContext2D, values: number[], x: number, y: number, w: number, h: number) {
+  ctx.fillStyle = MUTED;
+  ctx.font = `800 26px ${FONT}`;
+  ctx.fillText(`POINTS · ${values.length} DERNIERS MATCHS`, x, y);
+  if (values.length === 0) return;
+
+  const top = y + 60;
+  const height = h - 100;
+  const max = Math.max(...values, 1);
+  const step = values.length > 1 ? w / (values.length - 1) : 0;
+  const points = values.map((v, i) => ({
+    x: values.length > 1 ? x + i * step : x + w / 2,
+    y: top + height - (v / max) * height,
+    v,
+  }));
+
+  ctx.strokeStyle = GREEN;
+  ctx.lineWidth = 8;
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.stroke();
+
+  ctx.textAlign = 'center';
+  points.forEach(p => {
+    ctx.fillStyle = GREEN;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 14, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `900 30px ${FONT}`;
+    ctx.fillText(String(p.v), p.x, p.y - 30);
+  });
+  ctx.textAlign = 'left';
+}
+
+// Draws the shareable card of a player over `matches` (chronological, as
+// built by buildPlayersData); `period` names them, e.g. "Saison 2025-2026"
+export async function drawPlayerCard(player: Player, matches: Match[], period: string): Promise<Blob> {
+  const stats = calculateStats(matches);
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+
+  const background = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  background.addColorStop(0, '#050505');
+  background.addColorStop(1, '#06281d');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  ctx.fillStyle = GREEN;
+  ctx.font = `900 44px ${FONT}`;
+  ctx.fillText('IBAA', MARGIN, 120);
+  ctx.fillStyle = MUTED;
+  ctx.font = `800 28px ${FONT}`;
+  ctx.textAlign = 'right';
+  ctx.fillText(period.toUpperCase(), WIDTH - MARGIN, 120);
+  ctx.textAlign = 'left';
+
+  const photoSize = 340;
+  await drawPhoto(ctx, player, MARGIN, 180, photoSize);
+  const textX = MARGIN + photoSize + 60;
+  const textWidth = WIDTH - MARGIN - textX;
+  if (player.jerseyNumber !== null) {
+    ctx.fillStyle = GREEN;
+    ctx.font = `900 150px ${FONT}`;
+    ctx.fillText(`#${player.jerseyNumber}`, textX, 340);
+  }
+  ctx.fillStyle = '#ffffff';
+  const name = playerName(player).toUpperCase();
+  fitText(ctx, name, 900, 64, textWidth);
+  ctx.fillText(name, textX, 430);
+  ctx.fillStyle = MUTED;
+  ctx.font = `700 28px ${FONT}`;
+  ctx.fillText([
+    player.position && POSITION_LABELS[player.position],
+    player.birthDate && `${playerAge(player.birthDate)} ans`,
+    `${matches.length} match${matches.length > 1 ? 's' : ''}`,
+  ].filter(Boolean).join(' · '), textX, 490);
+
+  const gap = 30;
+  const statWidth = (WIDTH - 2 * MARGIN - 2 * gap) / 3;
+  [
+    ['PTS', String(stats.pts)], ['REB', String(stats.reb)], ['AST', String(stats.ast)],
+    ['FG%', stats.fgPct], ['3P%', stats.tpPct], ['LF%', stats.ftPct],
+  ].forEach(([label, value], i) => {
+    drawStat(ctx, label, value, MARGIN + (i % 3) * (statWidth + gap), 580 + Math.floor(i / 3) * 200, statWidth);
+  });
+
+  drawTrend(ctx, matches.slice(-CARD_RECENT_GAMES).map(m => m.points), MARGIN, 1020, WIDTH - 2 * MARGIN, 260);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+  ctx.font = `700 22px ${FONT}`;
+  ctx.fillText(`IBAA ESPOIRS · ${new Date().toLocaleDateString('fr-FR')}`, MARGIN, HEIGHT - 50);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Image impossible à générer"))), 'image/png'));
+}
@@ -0,0 +1,111 @@
+import { isDate } from './utils';
+import type { Hand, Player, PlayerInput, PlayerStatus, Position } from './types';
+
+export const POSITION_LABELS: Record<Position, string> = {
+  PG: 'Meneur',
+  SG: 'Arrière',
+  SF: 'Ailier',
+  PF: 'Ailier fort',
+  C: 'Pivot',
+};
+
+export const STATUS_LABELS: Record<PlayerStatus, string> = {
+  active: 'Actif',
+  injured: 'Blessé',
+  left: 'Parti',
+};
+
+export const HAND_LABELS: Record<Hand, string> = {
+  right: 'Droitier',
+  left: 'Gaucher',
+};
+
+export const POSITIONS = Object.keys(POSITION_LABELS) as Position[];
+export const PLAYER_STATUSES = Object.keys(STATUS_LABELS) as PlayerStatus[];
+export const HANDS = Object.keys(HAND_LABELS) as Hand[];
+
+// Roster convention: "NOM Prénom"
+export const playerName = (p: Pick<Player, 'firstName' | 'lastName'>) =>
+  [p.lastName, p.firstName].filter(Boolean).join(' ');
+
+export const initials = (p: Pick<Player, 'firstName' | 'lastName'>) =>
+  [p.lastName, p.firstName].filter(Boolean).map(part => part[0].toUpperCase()).join('') || '?';
+
+// Age in full years on the given day
+export function playerAge(birthDate: string, on = new Date()) {
+  const born = new Date(birthDate);
+  const age = on.getFullYear() - born.getFullYear();
+  const hadBirthday = on.getMonth() > born.getMonth() || (on.getMonth() === born.getMonth() && on.getDate() >= born.getDate());
+  return hadBirthday ? age : age - 1;
+}
+
+export const byPlayerName = (a: Pick<Player, 'firstName' | 'lastName'>, b: Pick<Player, 'firstName' | 'lastName'>) => playerName(a).localeCompare(playerName(b));
+
+export function emptyPlayer(): PlayerInput {
+  return {
+    firstName: '',
+    lastName: '',
+    jerseyNumber: null,
+    position: null,
+    birthDate: null,
+    height: null,
+    photo: null,
+    hand: null,
+    status: 'active',
+  };
+}
+
+// Turns a legacy roster name ("NOM Prénom") into a profile: the first word is
+// the last name, the rest the first name.
+export function fromLegacyName(name: string): PlayerInput {
+  const [lastName, ...firstNames] = name.trim().split(/\s+/);
+  return { ...emptyPlayer(), lastName: lastName ?? '', firstName: firstNames.join(' ') };
+}
+
+// Compares names regardless of case, accents and spacing ("Koné  ISMAËL" = "kone ismael")
+export const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Finds the profile whose display name matches
+export function findByName(players: Player[], name: string) {
+  const wanted = normalizeName(name);
+  return players.find(p => normalizeName(playerName(p)) === wanted);
+}
+
+// Keeps photos small enough to travel with the roster
+export const MAX_PHOTO_LENGTH = 200_000;
+
+// Normalises a profile payload. Returns an error message, or the cleaned profile.
+export function parsePlayerInput(raw: any): PlayerInput | string {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const optionalInt = (value: unknown) => (value === null || value === undefined || value === '' ? null : Number(value));
+
+  const player: PlayerInput = {
+    firstName: text(raw?.firstName),
+    lastName: text(raw?.lastName),
+    jerseyNumber: optionalInt(raw?.jerseyNumber),
+    position: raw?.position || null,
+    birthDate: text(raw?.birthDate) || null,
+    height: optionalInt(raw?.height),
+    photo: raw?.photo || null,
+    hand: raw?.hand || null,
+    status: raw?.status ?? 'active',
+  };
+
+  if (!player.firstName && !player.lastName) return 'Nom du joueur requis';
+  if (player.jerseyNumber !== null && (!Number.isInteger(player.jerseyNumber) || player.jerseyNumber < 0 || player.jerseyNumber > 99)) {
+    return 'Numéro de maillot invalide (0 à 99)';
+  }
+  if (player.position !== null && !POSITIONS.includes(player.position)) return 'Poste invalide';
+  if (player.birthDate !== null && !isDate(player.birthDate)) {
+    return 'Date de naissance invalide';
+  }
+  if (player.height !== null && (!Number.isInteger(player.height) || player.height < 100 || player.height > 250)) {
+    return 'Taille invalide (en cm, de 100 à 250)';
+  }
+  if (player.photo !== null && (typeof player.photo !== 'string' || !player.photo.startsWith('data:image/'))) return 'Photo invalide';
+  if (player.photo !== null && player.photo.length > MAX_PHOTO_LENGTH) return 'Photo trop volumineuse';
+  if (player.hand !== null && !HANDS.includes(player.hand)) return 'Main dominante invalide';
+  if (!PLAYER_STATUSES.includes(player.status)) return 'Statut invalide';
+  return player;
+}
@@ -0,0 +1,23 @@
+// Web Push on this device, through the service worker registered in main.tsx
+export const pushSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID public keys are base64url; the Push API wants the raw bytes
+function keyBytes(base64url: string) {
+  const base64 = (base64url + '='.repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+export async function currentSubscription() {
+  if (!pushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// Asks for permission and subscribes the device with the server's key
+export async function subscribePush(publicKey: string) {
+  if (!pushSupported()) throw new Error("Notifications push non prises en charge par ce navigateur");
+  if (await Notification.requestPermission() !== 'granted') throw new Error("Notifications refusées dans le navigateur");
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) throw new Error("Service worker indisponible (version de production uniquement)");
+  return registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes(publicKey) });
+}
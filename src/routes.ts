@@ -0,0 +1,96 @@
+import { EMPTY_FILTER } from './filters';
+import type { GameFilter } from './types';
+
+// Every screen of the app has a URL: /<view>, /stats/<player id> for a
+// player's profile, with the stats options in the query string
+// (?from=2025-10-01&opponent=Abidjan&opponent=Yamoussoukro&scope=career...)
+
+export type View = 'landing' | 'home' | 'roster' | 'add-match' | 'add-player' | 'stats' | 'leaders' | 'schedule' | 'feed' | 'live' | 'users' | 'notifications' | 'trash';
+
+const VIEWS: View[] = ['landing', 'home', 'roster', 'add-match', 'add-player', 'stats', 'leaders', 'schedule', 'feed', 'live', 'users', 'notifications', 'trash'];
+
+// Views whose content follows the game filter, kept in their URL
+export const followsFilter = (view: View) => view === 'roster' || view === 'stats' || view === 'leaders';
+
+export type StatsScope = 'season' | 'career';
+
+export interface Route {
+  view: View;
+  // Player whose profile is open, on the stats view
+  playerId: string | null;
+  scope: StatsScope;
+  filter: GameFilter;
+}
+
+const isDay = (value: string | null) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Unknown or malformed parameters are ignored rather than rejected, so that
+// an old or hand-edited link still opens
+function parseFilter(params: URLSearchParams): GameFilter {
+  const lastGames = Number(params.get('last'));
+  const venue = params.get('venue');
+  const result = params.get('result');
+  return {
+    from: isDay(params.get('from')) ? params.get('from')! : '',
+    to: isDay(params.get('to')) ? params.get('to')! : '',
+    lastGames: Number.isInteger(lastGames) && lastGames > 0 ? lastGames : null,
+    opponents: params.getAll('opponent').filter(Boolean),
+    venue: venue === 'home' || venue === 'away' ? venue : null,
+    competition: params.get('competition') ?? '',
+    result: result === 'W' || result === 'L' ? result : null,
+  };
+}
+
+function decode(part: string) {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part;
+  }
+}
+
+export function parseRoute(location: { pathname: string, search: string }): Route {
+  const [name = '', id] = location.pathname.split('/').filter(Boolean).map(decode);
+  const view = name === '' ? 'landing' : VIEWS.find(v => v === name && v !== 'landing') ?? 'home';
+  const params = new URLSearchParams(location.search);
+  return {
+    view,
+    playerId: view === 'stats' ? id ?? null : null,
+    scope: view === 'stats' && params.get('scope') === 'career' ? 'career' : 'season',
+    filter: followsFilter(view) ? parseFilter(params) : EMPTY_FILTER,
+  };
+}
+
+export function routeUrl({ view, playerId, scope, filter }: Route): string {
+  if (view === 'landing') return '/';
+  const path = view === 'stats' && playerId ? `/stats/${encodeURIComponent(playerId)}` : `/${view}`;
+  const params = new URLSearchParams();
+  if (followsFilter(view)) {
+    if (filter.from) params.set('from', filter.from);
+    if (filter.to) params.set('to', filter.to);
+    if (filter.lastGames) params.set('last', String(filter.lastGames));
+    filter.opponents.forEach(o => params.append('opponent', o));
+    if (filter.venue) params.set('venue', filter.venue);
+    if (filter.competition) params.set('competition', filter.competition);
+    if (filter.result) params.set('result', filter.result);
+  }
+  if (view === 'stats' && scope === 'career') params.set('scope', 'career');
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+// Whether both routes show the same page, whatever their filters
+export const samePage = (a: Route, b: Route) => a.view === b.view && a.playerId === b.playerId;
+
+// Read-only pages opened from a share link: /public/team?token=... and
+// /public/player/<id>?token=...
+export type PublicRoute = { page: 'team' } | { page: 'player', playerId: string };
+
+export function publicRoute(pathname: string): PublicRoute | null {
+  if (/^\/public\/team\/?$/.test(pathname)) return { page: 'team' };
+  const player = pathname.match(/^\/public\/player\/([^/]+)\/?$/);
+  return player ? { page: 'player', playerId: decodeURIComponent(player[1]) } : null;
+}
+
+export const publicUrl = (token: string, playerId?: string) =>
+  `${window.location.origin}/public/${playerId ? `player/${encodeURIComponent(playerId)}` : 'team'}?token=${token}`;
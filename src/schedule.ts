@@ -0,0 +1,133 @@
+import type { ScheduleEvent, ScheduleEventInput, ScheduleKind, Team } from './types';
+import { isDate } from './utils';
+
+export const SCHEDULE_KIND_LABELS: Record<ScheduleKind, string> = {
+  game: 'Match',
+  practice: 'Entraînement',
+  event: 'Événement',
+};
+
+export const SCHEDULE_KINDS = Object.keys(SCHEDULE_KIND_LABELS) as ScheduleKind[];
+
+// Length given to calendar entries without a duration, in minutes
+const DEFAULT_DURATION = 120;
+
+export function emptyScheduleEvent(kind: ScheduleKind, teamId: string | null): ScheduleEventInput {
+  return {
+    teamId,
+    kind,
+    title: '',
+    date: new Date().toISOString().split('T')[0],
+    time: null,
+    duration: null,
+    location: '',
+    opponent: '',
+    venue: kind === 'game' ? 'home' : null,
+    competition: '',
+    notes: '',
+  };
+}
+
+// "Espoirs vs ASEC" for games, the title (or the kind) otherwise
+export function scheduleTitle(event: ScheduleEventInput, teams: Team[]) {
+  const team = teams.find(t => t.id === event.teamId)?.name;
+  if (event.kind === 'game') {
+    const opponent = event.opponent || 'Adversaire à définir';
+    return [team, event.venue === 'away' ? '@' : 'vs', opponent].filter(Boolean).join(' ');
+  }
+  return event.title || [SCHEDULE_KIND_LABELS[event.kind], team].filter(Boolean).join(' ');
+}
+
+export const byScheduleStart = (a: ScheduleEventInput, b: ScheduleEventInput) =>
+  a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? '');
+
+// Entries from today on, soonest first. Played games are left out.
+export function upcomingEvents<T extends ScheduleEvent>(events: T[], today = new Date().toISOString().split('T')[0]) {
+  return events.filter(e => e.date >= today && !e.gameId).sort(byScheduleStart);
+}
+
+// Scheduled games from before today that still have no stats
+export function gamesToRecord<T extends ScheduleEvent>(events: T[], today = new Date().toISOString().split('T')[0]) {
+  return events.filter(e => e.kind === 'game' && e.date < today && !e.gameId).sort(byScheduleStart);
+}
+
+export function parseScheduleEventInput(raw: any): ScheduleEventInput | string {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const duration = raw?.duration === null || raw?.duration === undefined || raw?.duration === '' ? null : Number(raw.duration);
+
+  const event: ScheduleEventInput = {
+    teamId: raw?.teamId ? String(raw.teamId) : null,
+    kind: raw?.kind,
+    title: text(raw?.title),
+    date: text(raw?.date),
+    time: text(raw?.time) || null,
+    duration,
+    location: text(raw?.location),
+    opponent: text(raw?.opponent),
+    // Only games are played at home or away
+    venue: raw?.kind === 'game' ? raw?.venue || 'home' : null,
+    competition: text(raw?.competition),
+    notes: text(raw?.notes),
+  };
+
+  if (!SCHEDULE_KINDS.includes(event.kind)) return 'Type de rendez-vous invalide';
+  if (!isDate(event.date)) return 'Date invalide';
+  if (event.time !== null && !/^([01]\d|2[0-3]):[0-5]\d$/.test(event.time)) return 'Heure invalide (HH:MM)';
+  if (event.duration !== null && (!Number.isInteger(event.duration) || event.duration <= 0 || event.duration > 24 * 60)) {
+    return 'Durée invalide (en minutes)';
+  }
+  if (event.venue !== null && event.venue !== 'home' && event.venue !== 'away') return 'Lieu invalide';
+  if (event.kind === 'game' && !event.opponent) return "Nom de l'adversaire requis";
+  if (event.kind === 'event' && !event.title) return "Titre de l'événement requis";
+  return event;
+}
+
+// iCalendar text: commas, semicolons and backslashes are escaped, newlines
+// become \n, and lines are folded at 75 characters.
+const icsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+function foldLine(line: string) {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) parts.push(line.slice(i, i + 74));
+  return parts.join('\r\n ');
+}
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+
+// Local ("floating") time: calendar apps show it as entered
+function icsDateTime(date: string, time: string, addMinutes = 0) {
+  const [h, m] = time.split(':').map(Number);
+  const d = new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)), h, m + addMinutes));
+  return d.toISOString().slice(0, 19).replace(/[-:]/g, '');
+}
+
+// Calendar feed of the schedule, for download or subscription
+export function toIcs(events: ScheduleEvent[], teams: Team[], name: string, now = new Date()) {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//IBAA//Calendrier//FR',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${icsText(name)}`,
+  ];
+  [...events].sort(byScheduleStart).forEach(e => {
+    const start = e.time
+      ? [`DTSTART:${icsDateTime(e.date, e.time)}`, `DTEND:${icsDateTime(e.date, e.time, e.duration ?? DEFAULT_DURATION)}`]
+      : [`DTSTART;VALUE=DATE:${icsDate(e.date)}`];
+    const description = [e.competition, e.notes].filter(Boolean).join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.id}@ibaa`,
+      `DTSTAMP:${stamp}`,
+      ...start,
+      `SUMMARY:${icsText(scheduleTitle(e, teams))}`,
+      `CATEGORIES:${icsText(SCHEDULE_KIND_LABELS[e.kind])}`,
+      ...(e.location ? [`LOCATION:${icsText(e.location)}`] : []),
+      ...(description ? [`DESCRIPTION:${icsText(description)}`] : []),
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
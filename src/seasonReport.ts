@@ -0,0 +1,150 @@
+import { analyzePlayer, calculateStats, formatPercentage } from './analytics';
+import { byDate, gameResult, missedGames } from './games';
+import { DNP_LABELS } from './injuries';
+import { playerAge, playerName, POSITION_LABELS } from './players';
+import type { Game, Match, Player, PlayersData } from './types';
+
+// Printable season reports: standalone HTML documents opened in a new window
+// and printed, or saved as PDF from the print dialog
+
+const STYLE = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; margin: 32px; font-size: 12px; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 3px solid #10b981; padding-bottom: 8px; }
+  h1 { font-size: 22px; margin: 0; text-transform: uppercase; }
+  h2 { font-size: 13px; margin: 24px 0 8px; text-transform: uppercase; letter-spacing: 0.1em; color: #047857; }
+  .subtitle { color: #666; font-weight: 600; }
+  .figures { display: grid; grid-template-columns: repeat(6, 1fr); gap: 8px; }
+  .figure { border: 1px solid #ddd; border-radius: 8px; padding: 8px; text-align: center; }
+  .figure b { display: block; font-size: 18px; }
+  .figure span { color: #666; font-size: 10px; font-weight: 700; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #e5e5e5; padding: 4px 6px; text-align: center; }
+  th { font-size: 10px; color: #666; text-transform: uppercase; }
+  th:first-child, td:first-child, th.left, td.left { text-align: left; }
+  .W { color: #047857; font-weight: 700; }
+  .L { color: #be123c; font-weight: 700; }
+  footer { margin-top: 32px; color: #999; font-size: 10px; }
+  @media print { body { margin: 0; } @page { margin: 15mm; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const day = (date: string) => new Date(date).toLocaleDateString('fr-FR');
+
+const opponent = (g: { venue: Game['venue'], opponent: string }) =>
+  `${g.venue === 'home' ? 'vs' : '@'} ${escapeHtml(g.opponent || 'adversaire inconnu')}`;
+
+function score(game: Game | undefined) {
+  const result = game && gameResult(game);
+  return result ? `<span class="${result}">${result === 'W' ? 'V' : result === 'L' ? 'D' : 'N'} ${game!.teamScore}-${game!.opponentScore}</span>` : '-';
+}
+
+const shots = (made: number, attempted: number) => (attempted > 0 ? `${made}/${attempted}` : '-');
+
+const figures = (items: [string, string | number][]) =>
+  `<div class="figures">${items.map(([label, value]) => `<div class="figure"><b>${value}</b><span>${label}</span></div>`).join('')}</div>`;
+
+function reportDocument(title: string, subtitle: string, body: string) {
+  return `<!doctype html>
+<html lang="fr">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${STYLE}</style></head>
+<body>
+<header><h1>${escapeHtml(title)}</h1><span class="subtitle">${escapeHtml(subtitle)}</span></header>
+${body}
+<footer>IBAA · rapport généré le ${new Date().toLocaleString('fr-FR')}</footer>
+</body>
+</html>`;
+}
+
+// A player's averages and game log over `matches` (chronological, as built by
+// buildPlayersData); `games` are the games of the same period
+export function playerReportHtml(player: Player, matches: Match[], games: Game[], period: string) {
+  const stats = calculateStats(matches);
+  const advanced = analyzePlayer(matches, games);
+  const missed = missedGames(games, player.id);
+  const details = [
+    player.jerseyNumber !== null && `#${player.jerseyNumber}`,
+    player.position && POSITION_LABELS[player.position],
+    player.birthDate && `${playerAge(player.birthDate)} ans`,
+    `${matches.length} match${matches.length > 1 ? 's' : ''} joué${matches.length > 1 ? 's' : ''}`,
+  ].filter(Boolean).join(' · ');
+
+  const rows = [...matches].reverse().map(m => `<tr>
+    <td>${day(m.date)}</td><td class="left">${opponent(m)}</td><td>${score(games.find(g => g.id === m.id))}</td>
+    <td>${m.minutes}</td><td><b>${m.points}</b></td><td>${m.rebounds}</td><td>${m.assists}</td><td>${m.steals}</td><td>${m.blocks}</td>
+    <td>${m.turnovers}</td><td>${shots(m.fieldGoalsMade, m.fieldGoalsAttempted)}</td>
+    <td>${shots(m.threePointersMade, m.threePointersAttempted)}</td><td>${shots(m.freeThrowsMade, m.freeThrowsAttempted)}</td>
+  </tr>`).join('');
+
+  return reportDocument(playerName(player), period, `
+<p>${escapeHtml(details)}</p>
+<h2>Moyennes par match</h2>
+${figures([['PTS', stats.pts], ['REB', stats.reb], ['AST', stats.ast], ['STL', stats.stl], ['BLK', stats.blk], ['MIN', stats.min]])}
+<h2>Adresse et efficacité</h2>
+${figures([
+  ['FG%', stats.fgPct], ['3P%', stats.tpPct], ['LF%', stats.ftPct],
+  ['PIR', advanced.efficiency.toFixed(1)], ['TS%', formatPercentage(advanced.trueShooting)], ['TOV', stats.tov],
+])}
+<h2>Matchs</h2>
+<table>
+  <thead><tr><th>Date</th><th>Adversaire</th><th>Score</th><th>MIN</th><th>PTS</th><th>REB</th><th>AST</th><th>STL</th><th>BLK</th><th>TOV</th><th>FG</th><th>3P</th><th>LF</th></tr></thead>
+  <tbody>${rows}</tbody>
+</table>
+${missed.length > 0 ? `<h2>Matchs manqués</h2>
+<table><tbody>${missed.map(({ game, reason }) => `<tr><td>${day(game.date)}</td><td class="left">${opponent(game)}</td><td>${DNP_LABELS[reason]}</td></tr>`).join('')}</tbody></table>` : ''}`);
+}
+
+// A team's record, its players' averages and results over `games`; `data`
+// holds the players' lines in those games
+export function teamReportHtml(teamName: string, period: string, players: Player[], data: PlayersData, games: Game[]) {
+  const sorted = [...games].sort(byDate);
+  const results = sorted.map(gameResult);
+  const count = (result: 'W' | 'L' | 'D') => results.filter(r => r === result).length;
+  const scored = sorted.filter(g => gameResult(g) !== null);
+  const average = (values: number[]) => (values.length > 0 ? (values.reduce((a, b) => a + b, 0) / values.length).toFixed(1) : '-');
+
+  const playerRows = players
+    .map(p => ({ player: p, matches: data[p.id] ?? [] }))
+    .filter(row => row.matches.length > 0)
+    .map(row => ({ ...row, stats: calculateStats(row.matches) }))
+    .sort((a, b) => Number(b.stats.pts) - Number(a.stats.pts))
+    .map(({ player, matches, stats }) => `<tr>
+      <td>${escapeHtml(playerName(player))}</td><td>${matches.length}</td><td>${stats.min}</td><td><b>${stats.pts}</b></td>
+      <td>${stats.reb}</td><td>${stats.ast}</td><td>${stats.stl}</td><td>${stats.blk}</td><td>${stats.tov}</td>
+      <td>${stats.fgPct}</td><td>${stats.tpPct}</td><td>${stats.ftPct}</td>
+    </tr>`).join('');
+
+  const gameRows = [...sorted].reverse().map(g => `<tr>
+    <td>${day(g.date)}</td><td class="left">${opponent(g)}</td><td class="left">${escapeHtml(g.competition)}</td><td>${score(g)}</td>
+    <td>${g.lines.filter(l => !l.dnp).length}</td>
+  </tr>`).join('');
+
+  return reportDocument(`IBAA ${teamName}`, period, `
+<h2>Bilan</h2>
+${figures([
+  ['Matchs', sorted.length], ['Victoires', count('W')], ['Défaites', count('L')], ['Nuls', count('D')],
+  ['Pts marqués', average(scored.map(g => g.teamScore!))], ['Pts encaissés', average(scored.map(g => g.opponentScore!))],
+])}
+<h2>Joueurs · moyennes par match</h2>
+<table>
+  <thead><tr><th>Joueur</th><th>MJ</th><th>MIN</th><th>PTS</th><th>REB</th><th>AST</th><th>STL</th><th>BLK</th><th>TOV</th><th>FG%</th><th>3P%</th><th>LF%</th></tr></thead>
+  <tbody>${playerRows}</tbody>
+</table>
+<h2>Résultats</h2>
+<table>
+  <thead><tr><th>Date</th><th class="left">Adversaire</th><th class="left">Compétition</th><th>Score</th><th>Joueurs</th></tr></thead>
+  <tbody>${gameRows}</tbody>
+</table>`);
+}
+
+// Opens the report in a new window and its print dialog (where it can be
+// saved as PDF). Must run from a click, or the window is blocked.
+export function printReport(html: string) {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("Autorisez les fenêtres pop-up pour imprimer le rapport");
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
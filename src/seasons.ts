@@ -0,0 +1,52 @@
+import type { Season, SeasonInput, Team } from './types';
+import { isDate } from './utils';
+
+// Category created for existing data and on fresh installs
+export const DEFAULT_TEAM = 'Espoirs';
+
+// Seasons run from 1 September to 31 August, named after both years ("2025-26")
+export function seasonOf(date: string): SeasonInput {
+  const [year, month] = date.split('-').map(Number);
+  const start = month >= 9 ? year : year - 1;
+  return {
+    name: `${start}-${String(start + 1).slice(2)}`,
+    startDate: `${start}-09-01`,
+    endDate: `${start + 1}-08-31`,
+  };
+}
+
+// The season following the given one, for the "new season" shortcut
+export function nextSeason(season: SeasonInput): SeasonInput {
+  const [year] = season.endDate.split('-');
+  return seasonOf(`${year}-09-01`);
+}
+
+export const bySeasonStart = (a: SeasonInput, b: SeasonInput) => a.startDate.localeCompare(b.startDate);
+
+export const findSeason = (seasons: Season[], date: string) =>
+  seasons.find(s => s.startDate <= date && date <= s.endDate);
+
+// The season in progress today, or the latest one
+export function currentSeason(seasons: Season[], today = new Date().toISOString().split('T')[0]) {
+  return findSeason(seasons, today) ?? [...seasons].sort(bySeasonStart).at(-1) ?? null;
+}
+
+// Team the player is registered with for the season, if any
+export const teamOf = (season: Season | null | undefined, playerId: string) =>
+  season?.roster.find(e => e.playerId === playerId)?.teamId ?? null;
+
+export const teamName = (teams: Team[], id: string) => teams.find(t => t.id === id)?.name ?? '?';
+
+// Normalises a season payload. Returns an error message, or the cleaned season.
+export function parseSeasonInput(raw: any): SeasonInput | string {
+  const season: SeasonInput = {
+    name: typeof raw?.name === 'string' ? raw.name.trim() : '',
+    startDate: String(raw?.startDate ?? ''),
+    endDate: String(raw?.endDate ?? ''),
+  };
+  if (!season.name) return 'Nom de la saison requis';
+  if (!isDate(season.startDate) || !isDate(season.endDate)) return 'Dates de la saison invalides';
+  if (season.endDate < season.startDate) return 'La saison doit finir après son début';
+  return season;
+}
+
@@ -0,0 +1,175 @@
+import { LEGACY_MESSAGES_STORAGE_KEY, LEGACY_PLAYERS_STORAGE_KEY, RECOVERY_STORAGE_KEY } from './constants';
+
+// Everything the app keeps on the device goes through a store. Values are
+// saved with the version of their format ({ version, data }), upgraded by the
+// store's migrations when an older version is read, and checked before use.
+// What cannot be read is set aside in the recovery area instead of being lost.
+
+export interface StoreOptions<T> {
+  key: string;
+  // Version of the current format
+  version: number;
+  // migrations[n] turns data of version n into version n + 1
+  migrations?: Record<number, (data: any) => unknown>;
+  // Keys from before the version was saved with the data, and the version
+  // each one holds. They are read when the store is empty, then removed.
+  legacyKeys?: Record<string, number>;
+  // Earlier caches whose content the server still has: removed unread
+  obsoleteKeys?: string[];
+  validate: (data: unknown) => data is T;
+  fallback: () => T;
+}
+
+export interface Store<T> {
+  load: () => T;
+  save: (value: T) => void;
+  clear: () => void;
+}
+
+// Unreadable data kept aside, as it was found
+export interface RecoveredItem {
+  key: string;
+  reason: string;
+  raw: string;
+  savedAt: string;
+}
+
+// Oldest items are dropped beyond this
+const RECOVERY_LIMIT = 10;
+
+export const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isArrayOf = <T>(value: unknown, check: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(check);
+
+export function loadRecovered(): RecoveredItem[] {
+  try {
+    const items = JSON.parse(localStorage.getItem(RECOVERY_STORAGE_KEY) || '[]');
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearRecovered() {
+  localStorage.removeItem(RECOVERY_STORAGE_KEY);
+}
+
+function setAside(key: string, raw: string, reason: string) {
+  const item = { key, reason, raw, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(RECOVERY_STORAGE_KEY, JSON.stringify([...loadRecovered(), item].slice(-RECOVERY_LIMIT)));
+  } catch (err) {
+    // Storage full: the data cannot be kept on the device, the console at least has it
+    console.error(`Données illisibles (${key}) : ${reason}`, raw, err);
+  }
+  localStorage.removeItem(key);
+}
+
+export function createStore<T>(options: StoreOptions<T>): Store<T> {
+  const { key, version, migrations = {}, legacyKeys = {}, obsoleteKeys = [], validate, fallback } = options;
+
+  const save = (value: T) => localStorage.setItem(key, JSON.stringify({ version, data: value }));
+
+  // The stored value with its version, or the content of a legacy key
+  const read = (): { from: string, raw: string, version?: number } | null => {
+    obsoleteKeys.forEach(k => localStorage.removeItem(k));
+    const raw = localStorage.getItem(key);
+    if (raw !== null) return { from: key, raw };
+    const legacy = Object.keys(legacyKeys).find(k => localStorage.getItem(k) !== null);
+    return legacy ? { from: legacy, raw: localStorage.getItem(legacy)!, version: legacyKeys[legacy] } : null;
+  };
+
+  const load = (): T => {
+    const found = read();
+    if (!found) return fallback();
+    const { from, raw } = found;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      setAside(from, raw, 'JSON illisible');
+      return fallback();
+    }
+    let stored = found.version ?? (isObject(parsed) && Number.isInteger(parsed.version) ? parsed.version as number : null);
+    if (stored === null) {
+      setAside(from, raw, 'Version inconnue');
+      return fallback();
+    }
+    if (stored > version) {
+      setAside(from, raw, `Version ${stored} plus récente que l'application`);
+      return fallback();
+    }
+
+    let data = found.version === undefined ? (parsed as { data: unknown }).data : parsed;
+    const upgraded = from !== key || stored < version;
+    try {
+      for (; stored < version; stored++) {
+        if (!migrations[stored]) {
+          setAside(from, raw, `Version ${stored} non prise en charge`);
+          return fallback();
+        }
+        data = migrations[stored](data);
+      }
+    } catch (err) {
+      setAside(from, raw, `Migration impossible : ${(err as Error).message}`);
+      return fallback();
+    }
+    if (!validate(data)) {
+      setAside(from, raw, 'Données invalides');
+      return fallback();
+    }
+
+    // Upgraded data is saved in the current format, under the current key
+    if (upgraded) {
+      save(data);
+      if (from !== key) localStorage.removeItem(from);
+    }
+    return data;
+  };
+
+  return { load, save, clear: () => localStorage.removeItem(key) };
+}
+
+// Players and messages kept on the device before the server existed: a
+// roster keyed by name with each player's matches, and the feed
+export interface LegacyData {
+  players: Record<string, { id: string, date: string, points: number, rebounds: number, assists: number }[]>;
+  messages: { id: string, author: string, content: string, timestamp: string }[];
+}
+
+const isLegacyMatch = (m: unknown): m is LegacyData['players'][string][number] =>
+  isObject(m) && typeof m.id === 'string' && typeof m.date === 'string'
+  && ['points', 'rebounds', 'assists'].every(k => Number.isInteger(m[k]));
+
+const isLegacyMessage = (m: unknown): m is LegacyData['messages'][number] =>
+  isObject(m) && ['id', 'author', 'content', 'timestamp'].every(k => typeof m[k] === 'string');
+
+// Reads the data of the first version, if this device still has it. Parts
+// that cannot be read are set aside.
+export function loadLegacyData(): LegacyData | null {
+  const read = <T>(key: string, check: (value: unknown) => value is T): T | null => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return null;
+    try {
+      const value = JSON.parse(raw);
+      if (check(value)) return value;
+    } catch {
+      // Set aside below
+    }
+    setAside(key, raw, 'Données de la première version illisibles');
+    return null;
+  };
+  const players = read(LEGACY_PLAYERS_STORAGE_KEY, (v): v is LegacyData['players'] =>
+    isObject(v) && Object.values(v).every(matches => isArrayOf(matches, isLegacyMatch)));
+  const messages = read(LEGACY_MESSAGES_STORAGE_KEY, (v): v is LegacyData['messages'] => isArrayOf(v, isLegacyMessage));
+  return players || messages ? { players: players ?? {}, messages: messages ?? [] } : null;
+}
+
+// Once imported to the server
+export function clearLegacyData() {
+  localStorage.removeItem(LEGACY_PLAYERS_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_MESSAGES_STORAGE_KEY);
+}
@@ -0,0 +1,80 @@
+// Service worker template: the build (see vite.config.ts) replaces the two
+// placeholders with a hash of the bundle and the list of emitted files.
+const CACHE = 'ibaa-__CACHE_VERSION__';
+const SHELL = ['/', '/index.html', '/manifest.json', '/icons/icon-192.png', '/icons/icon-512.png'];
+const PRECACHE = [...SHELL, ...__PRECACHE__];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API calls are never cached: the app keeps its own snapshot and outbox
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE).then(cache => cache.put(request, copy));
+      }
+      return response;
+    })),
+  );
+});
+
+// Background Sync: the page owns the outbox, so ask it to replay the queue
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'ibaa-outbox') return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' })
+      .then(clients => clients.forEach(client => client.postMessage({ type: 'flush-outbox' }))),
+  );
+});
+
+// Web Push: the payload is the notification as stored by the server
+self.addEventListener('push', (event) => {
+  const notification = event.data ? event.data.json() : null;
+  if (!notification) return;
+  event.waitUntil(self.registration.showNotification(notification.title, {
+    body: notification.body,
+    icon: '/icons/icon-192.png',
+    badge: '/icons/icon-192.png',
+    tag: notification.id,
+    data: notification,
+  }));
+});
+
+// Opens the app (or brings it forward) on what the notification is about
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const notification = event.notification.data;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients[0];
+      if (!client) {
+        const path = notification.view === 'stats' && notification.playerId
+          ? `/stats/${encodeURIComponent(notification.playerId)}`
+          : `/${notification.view ?? 'notifications'}`;
+        return self.clients.openWindow(path);
+      }
+      client.postMessage({ type: 'open-notification', notification });
+      return client.focus();
+    }),
+  );
+});
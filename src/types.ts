@@ -0,0 +1,363 @@
+export type Venue = 'home' | 'away';
+
+export type Position = 'PG' | 'SG' | 'SF' | 'PF' | 'C';
+export type Hand = 'left' | 'right';
+export type PlayerStatus = 'active' | 'injured' | 'left';
+
+export interface Player {
+  id: string;
+  firstName: string;
+  lastName: string;
+  jerseyNumber: number | null;
+  position: Position | null;
+  // YYYY-MM-DD
+  birthDate: string | null;
+  // Centimetres
+  height: number | null;
+  // Data URL of a small square picture
+  photo: string | null;
+  hand: Hand | null;
+  status: PlayerStatus;
+}
+
+export type PlayerInput = Omit<Player, 'id'>;
+
+// A category of the club (Espoirs, U18, Seniors...)
+export interface Team {
+  id: string;
+  name: string;
+}
+
+export interface RosterEntry {
+  playerId: string;
+  teamId: string;
+}
+
+export interface Season {
+  id: string;
+  // "2025-26"
+  name: string;
+  // YYYY-MM-DD, both included
+  startDate: string;
+  endDate: string;
+  // Team of each player registered for the season
+  roster: RosterEntry[];
+}
+
+export type SeasonInput = Omit<Season, 'id' | 'roster'>;
+
+export interface BoxScore {
+  minutes: number;
+  points: number;
+  fieldGoalsMade: number;
+  fieldGoalsAttempted: number;
+  threePointersMade: number;
+  threePointersAttempted: number;
+  freeThrowsMade: number;
+  freeThrowsAttempted: number;
+  offensiveRebounds: number;
+  defensiveRebounds: number;
+  rebounds: number;
+  assists: number;
+  steals: number;
+  blocks: number;
+  turnovers: number;
+  fouls: number;
+}
+
+// Why a player on the game sheet stayed on the bench
+export type DnpReason = 'injury' | 'illness' | 'coach' | 'absent' | 'suspended';
+
+export interface StatLine extends BoxScore {
+  playerId: string;
+  // "Did not play": the box score is all zeros and the game does not count
+  // in the player's stats
+  dnp: DnpReason | null;
+}
+
+export interface Game {
+  id: string;
+  seasonId: string;
+  teamId: string;
+  date: string;
+  opponent: string;
+  venue: Venue;
+  competition: string;
+  teamScore: number | null;
+  opponentScore: number | null;
+  // Incremented by the server on every change, used to detect offline conflicts
+  version: number;
+  lines: StatLine[];
+}
+
+export type GameInput = Omit<Game, 'id' | 'version'>;
+
+// What the match forms fill in; the season and team come from the selection
+export type GameDetails = Omit<GameInput, 'seasonId' | 'teamId'>;
+
+export type ScheduleKind = 'game' | 'practice' | 'event';
+
+// Planned game, practice or club event. A game turns into stats once played,
+// through `gameId`.
+export interface ScheduleEvent {
+  id: string;
+  // null for club-wide events
+  teamId: string | null;
+  kind: ScheduleKind;
+  title: string;
+  date: string;
+  // HH:MM, null for an all-day entry
+  time: string | null;
+  // Minutes
+  duration: number | null;
+  location: string;
+  opponent: string;
+  venue: Venue | null;
+  competition: string;
+  notes: string;
+  gameId: string | null;
+}
+
+export type ScheduleEventInput = Omit<ScheduleEvent, 'id' | 'gameId'>;
+
+export type AttendanceStatus = 'present' | 'late' | 'absent' | 'excused';
+
+// A player's attendance at a practice session, with the session RPE (rate of
+// perceived exertion, 1 to 10) they reported
+export interface AttendanceRecord {
+  eventId: string;
+  playerId: string;
+  status: AttendanceStatus;
+  reason: string;
+  rpe: number | null;
+  // Minutes actually trained, when different from the session's duration
+  duration: number | null;
+}
+
+export interface Injury {
+  id: string;
+  playerId: string;
+  // YYYY-MM-DD
+  date: string;
+  bodyPart: string;
+  description: string;
+  expectedReturn: string | null;
+  // Day the player was cleared to play again; null while still injured
+  clearedDate: string | null;
+}
+
+export type InjuryInput = Omit<Injury, 'id'>;
+
+// A single player's line in a game, flattened with the game's context.
+// `id` is the id of the game it belongs to.
+export interface Match extends BoxScore {
+  id: string;
+  seasonId: string;
+  teamId: string;
+  date: string;
+  opponent: string;
+  venue: Venue;
+}
+
+export interface PlayersData {
+  [playerId: string]: Match[];
+}
+
+// Narrows the games behind every stats view and the CSV export. Empty
+// fields (and an empty opponent list) do not filter anything.
+export interface GameFilter {
+  from: string;
+  to: string;
+  // Most recent games kept once the other criteria are applied
+  lastGames: number | null;
+  opponents: string[];
+  venue: Venue | null;
+  competition: string;
+  result: 'W' | 'L' | null;
+}
+
+// Text written by the report generator from the stats
+export interface Report {
+  title: string;
+  text: string;
+  // Provider that wrote it: 'gemini', or 'stub' for local runs
+  provider: string;
+  generatedAt: string;
+}
+
+export interface Reaction {
+  emoji: string;
+  // Accounts that reacted with this emoji
+  userIds: string[];
+}
+
+// Thread fields are absent from messages cached or exported before threads
+export interface Message {
+  id: string;
+  author: string;
+  content: string;
+  timestamp: string;
+  // Account that posted it; null for messages from before accounts existed
+  userId?: string | null;
+  // Message this one replies to; replies are shown under it, not in the feed
+  parentId?: string | null;
+  // Announcement kept at the top of the feed
+  pinned?: boolean;
+  // Time of the last edit; earlier versions are kept as MessageEdit
+  editedAt?: string | null;
+  // Data URL of an attached picture
+  image?: string | null;
+  reactions?: Reaction[];
+}
+
+// A version of a message replaced by an edit
+export interface MessageEdit {
+  content: string;
+  // When this version was replaced
+  editedAt: string;
+}
+
+export type NotificationKind = 'game_stats' | 'announcement' | 'schedule' | 'record';
+
+// An entry of the account's notification center. `view` (and `playerId` for
+// stats) tells the app what to open when it is clicked.
+export interface UserNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  view: 'stats' | 'schedule' | 'feed' | null;
+  playerId: string | null;
+  createdAt: string;
+  readAt: string | null;
+}
+
+// Which channels each kind of notification goes to
+export type NotificationChannels = Record<NotificationKind, { inApp: boolean, push: boolean }>;
+
+export interface NotificationSettings {
+  channels: NotificationChannels;
+  // Players whose new stats and records the account hears about; a player
+  // account always follows its own profile
+  followed: string[];
+}
+
+// What a deletion removed, kept in the trash for TRASH_DAYS (see
+// server/trash.ts) so that it can be restored
+export type TrashKind = 'player' | 'players' | 'game' | 'lines' | 'system' | 'event' | 'injury' | 'message';
+
+export interface TrashEntry {
+  id: string;
+  kind: TrashKind;
+  label: string;
+  deletedAt: string;
+  deletedBy: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+// One change to a player or a game (or the whole club, for resets and
+// imports), with the values before and after it
+export interface AuditEntry {
+  id: number;
+  at: string;
+  userName: string;
+  action: AuditAction;
+  entity: 'player' | 'game' | 'system';
+  entityId: string | null;
+  label: string;
+  before: Player | Game | null;
+  after: Player | Game | null;
+}
+
+// Secret link to the read-only public page of a team's season
+export interface ShareLink {
+  token: string;
+  seasonId: string;
+  teamId: string;
+  createdAt: string;
+}
+
+// What the public pages of a share link show. Players who opted out are left
+// out with their lines, and DNP lines (whose reason may be medical) are dropped.
+export interface PublicTeam {
+  team: string;
+  season: string;
+  players: PublicPlayer[];
+  games: Game[];
+}
+
+// A player as the public sees them: no birth date, and no status, which
+// would tell who is injured
+export type PublicPlayer = Pick<Player, 'id' | 'firstName' | 'lastName' | 'jerseyNumber' | 'position' | 'photo'>;
+
+// A change pushed by the server to every open app. `reload` follows bulk
+// changes (imports, resets...) that are simpler to load again than to describe.
+export type Change =
+  | { type: 'player', player: Player }
+  | { type: 'player-deleted', id: string }
+  | { type: 'season', season: Season }
+  | { type: 'game', game: Game }
+  | { type: 'game-deleted', id: string }
+  // `created` is false for edits, reactions and pins
+  | { type: 'message', message: Message, created: boolean }
+  | { type: 'message-deleted', id: string }
+  // Only sent to the account it is for
+  | { type: 'notification', notification: UserNotification }
+  | { type: 'reload' };
+
+// As received, with the account that made the change
+export type ChangeEvent = Change & { by: string };
+
+export type Role = 'admin' | 'coach' | 'player' | 'viewer';
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  // Roster entry of a 'player' account
+  playerId: string | null;
+}
+
+export interface Session {
+  token: string;
+  user: User;
+}
+
+export type LiveEventType =
+  | 'fg2_made' | 'fg2_missed'
+  | 'fg3_made' | 'fg3_missed'
+  | 'ft_made' | 'ft_missed'
+  | 'oreb' | 'dreb'
+  | 'ast' | 'stl' | 'blk' | 'tov' | 'foul'
+  | 'sub'
+  | 'opponent_score';
+
+// One entry of a live game's play-by-play. `clock` is the number of seconds
+// of game time elapsed since tip-off.
+export interface LiveEvent {
+  seq: number;
+  type: LiveEventType;
+  period: number;
+  clock: number;
+  playerId: string | null;
+  // Player entering the court, for 'sub' events (playerId leaves)
+  subIn: string | null;
+  // Points scored, for 'opponent_score' events
+  value: number;
+}
+
+export interface Backup {
+  format: 'ibaa-backup';
+  version: 3;
+  exportedAt: string;
+  seasons: Season[];
+  teams: Team[];
+  players: Player[];
+  games: Game[];
+  // Absent in backups rebuilt from a CSV file
+  messages?: Message[];
+}
+
+export type ImportMode = 'merge' | 'replace';
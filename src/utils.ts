@@ -0,0 +1,90 @@
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+// Utility for tailwind class merging
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+// A day written YYYY-MM-DD, as date inputs give it. Days that do not exist
+// (2024-02-31) are refused: Date would roll them over to the next month.
+export function isDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// Saves generated content as a file through a temporary link
+export function downloadFile(fileName: string, content: string | Blob, type: string) {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Opens the system share sheet with the file where the browser can share
+// files (mostly mobile), and downloads it otherwise. Resolves to whether it
+// was shared.
+export async function shareFile(file: File, title: string) {
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return true;
+    } catch (err) {
+      // Closing the share sheet is not an error
+      if ((err as Error).name === 'AbortError') return false;
+    }
+  }
+  downloadFile(file.name, file, file.type);
+  return false;
+}
+
+export function newId() {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+// Replaces the item with the same id, or appends it. The server pushes every
+// change, so the app's own saves may already be in the list.
+export function upsertById<T extends { id: string }>(list: T[], item: T): T[] {
+  return list.some(i => i.id === item.id) ? list.map(i => (i.id === item.id ? item : i)) : [...list, item];
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Image illisible"));
+    };
+    image.src = url;
+  });
+}
+
+// Crops a picture to a centred square and scales it down, as a JPEG data URL
+export async function resizeImage(file: File, size: number): Promise<string> {
+  const image = await loadImage(file);
+  const side = Math.min(image.width, image.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  canvas.getContext('2d')!.drawImage(image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, size, size);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+// Scales a picture down so that its longest side fits `maxSide`, keeping its
+// proportions, as a JPEG data URL
+export async function shrinkImage(file: File, maxSide: number): Promise<string> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
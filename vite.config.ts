@@ -1,15 +1,32 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import {createHash} from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, type Plugin} from 'vite';
 
-export default defineConfig(({mode}) => {
-  const env = loadEnv(mode, '.', '');
+// Emits sw.js from src/sw.js with the bundle files to precache. The cache
+// name changes with the bundle so that old caches are dropped on activate.
+function serviceWorker(): Plugin {
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+    name: 'ibaa-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `/${file}`);
+      const version = createHash('sha256').update(files.sort().join()).digest('hex').slice(0, 12);
+      const source = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf-8')
+        .replace('__CACHE_VERSION__', version)
+        .replace('__PRECACHE__', JSON.stringify(files));
+      this.emitFile({type: 'asset', fileName: 'sw.js', source});
     },
+  };
+}
+
+// GEMINI_API_KEY stays on the server (see server/ai.ts): it is not exposed
+// to the client bundle.
+export default defineConfig(() => {
+  return {
+    plugins: [react(), tailwindcss(), serviceWorker()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),